@@ -5,6 +5,7 @@
 
 import urlcat from "urlcat"
 import { safeId } from "../utils.js"
+import { ValidationError } from "../errors.js"
 import type { SuperthreadClient } from "./client.js"
 
 /**
@@ -139,7 +140,7 @@ export class CardResource {
   async create(workspaceId: string, params: CreateCardParams): Promise<unknown> {
     // Validate required fields
     if (!params.board_id && !params.sprint_id) {
-      throw new Error("Either board_id or sprint_id must be provided")
+      throw new ValidationError("Either board_id or sprint_id must be provided")
     }
 
     const path = urlcat("/:workspace/cards", {
@@ -254,9 +255,11 @@ export class CardResource {
     const path = urlcat("/:workspace/views/preview", {
       workspace: safeId("workspaceId", workspaceId),
     })
+    // The preview only runs the view's query, so it is sent even in dry-run mode
     return await this.client.request(path, {
       method: "POST",
       body: JSON.stringify(requestBody),
+      read: true,
     })
   }
 
@@ -413,7 +416,7 @@ export class CardResource {
   ): Promise<unknown> {
     // Validate that at least one of id or ids is provided
     if (!params.id && !params.ids) {
-      throw new Error("Either 'id' or 'ids' must be specified")
+      throw new ValidationError("Either 'id' or 'ids' must be specified")
     }
 
     const path = urlcat("/:workspace/cards/:card/tags", {
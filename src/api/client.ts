@@ -4,8 +4,10 @@
  * terminology mapping from modern UI terms to legacy API terms.
  */
 
+import { createHash } from "node:crypto"
 import urlcat from "urlcat"
-import { config } from "../config.js"
+import { config, type RetryPolicy } from "../config.js"
+import { onConfigReload } from "../config-file.js"
 import { UserResource } from "./user.js"
 import { ProjectResource } from "./projects.js"
 import { SpaceResource } from "./spaces.js"
@@ -17,6 +19,193 @@ import { CommentResource } from "./comments.js"
 import { NoteResource } from "./notes.js"
 import { SprintResource } from "./sprints.js"
 import { TagResource } from "./tags.js"
+import { RateLimiter } from "./rate-limiter.js"
+import { AuthError, NetworkError, PathValidationError, createApiError } from "../errors.js"
+
+/**
+ * Options for constructing a SuperthreadClient.
+ */
+export interface ClientOptions {
+  /** Retry policy for transient failures (defaults to no retries) */
+  retry?: RetryPolicy
+  /** Rate limiter governing this client's requests (defaults to no limit) */
+  limiter?: RateLimiter
+  /** Per-attempt request timeout in milliseconds (0 or undefined disables) */
+  timeoutMs?: number
+  /** Abort signal cancelling every request made by this client (e.g., the MCP request's signal) */
+  signal?: AbortSignal
+  /** Record mutating requests instead of sending them (see SuperthreadClient.plannedRequests) */
+  dryRun?: boolean
+}
+
+/**
+ * Options for SuperthreadClient.request.
+ */
+export interface RequestOptions extends RequestInit {
+  /**
+   * The request only reads data although its method isn't GET (e.g., a POST that runs a
+   * query), so it is still sent in dry-run mode
+   */
+  read?: boolean
+}
+
+/**
+ * A mutating request recorded instead of sent in dry-run mode.
+ */
+export interface PlannedRequest {
+  method: string
+  /** API path relative to the base URL */
+  path: string
+  /** Parsed JSON body, if the request has one */
+  body?: unknown
+}
+
+/**
+ * HTTP methods that only read data, so they are still sent in dry-run mode.
+ */
+const READ_METHODS = new Set(["GET", "HEAD", "OPTIONS"])
+
+/**
+ * HTTP methods that are safe to repeat: sending them twice has the same effect as once.
+ */
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "OPTIONS", "PUT", "DELETE"])
+
+/**
+ * Statuses that mean the request was not processed, so any method can be retried.
+ * 429 = rate limited, 503 = service unavailable. A 502 or 504 may come after the upstream
+ * already acted on the request, so those are retried only for idempotent requests.
+ */
+const ALWAYS_RETRYABLE_STATUSES = new Set([429, 503])
+
+/**
+ * Network error codes that mean no connection was made, so the request was never sent and
+ * any method can be retried. Other network errors (resets, timeouts) may come after the API
+ * received the request.
+ */
+const CONNECTION_ERROR_CODES = new Set([
+  "ECONNREFUSED",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "EHOSTUNREACH",
+  "ENETUNREACH",
+  "UND_ERR_CONNECT_TIMEOUT",
+])
+
+/**
+ * Retry policy used when none is given: fail on the first error.
+ */
+const NO_RETRY: RetryPolicy = { maxRetries: 0, baseDelayMs: 0, maxDelayMs: 0 }
+
+/**
+ * How long a shared rate limiter is kept after its API key was last used. HTTP sessions with
+ * their own API keys come and go, so limiters of keys no longer in use are dropped.
+ */
+const LIMITER_IDLE_MS = 10 * 60 * 1000
+
+/**
+ * Rate limiters shared by all clients using the same API key, by a hash of the key.
+ * Clients are created per tool call, so limits must live outside any single client
+ * for batch loops and concurrent sessions to be governed together.
+ */
+const sharedLimiters = new Map<string, { limiter: RateLimiter; lastUsed: number }>()
+
+// New limits from a reloaded config file apply to the next requests; requests already
+// scheduled finish on the old limiters
+onConfigReload(() => sharedLimiters.clear())
+
+/**
+ * Returns the process-wide rate limiter for an API key, creating it on first use.
+ * Limiters that have been idle for LIMITER_IDLE_MS are dropped along the way.
+ *
+ * @param apiKey - API key the limiter applies to (Superthread limits are per token)
+ * @returns Shared RateLimiter configured from config.rateLimit
+ */
+export function getSharedLimiter(apiKey: string): RateLimiter {
+  const now = Date.now()
+  for (const [key, entry] of sharedLimiters) {
+    if (entry.limiter.idle && now - entry.lastUsed > LIMITER_IDLE_MS) {
+      sharedLimiters.delete(key)
+    }
+  }
+
+  const key = createHash("sha256").update(apiKey).digest("hex")
+  const entry = sharedLimiters.get(key) ?? {
+    limiter: new RateLimiter(config.rateLimit),
+    lastUsed: now,
+  }
+  entry.lastUsed = now
+  sharedLimiters.set(key, entry)
+  return entry.limiter
+}
+
+/**
+ * Parses a Retry-After header (delay in seconds or an HTTP date) into milliseconds.
+ *
+ * @param value - Retry-After header value
+ * @returns Delay in milliseconds, or undefined if the header is missing or invalid
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined
+  }
+
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000)
+  }
+
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
+
+/**
+ * Checks if a fetch failure happened before a connection was made.
+ *
+ * @param error - Error thrown by fetch (Node's fetch puts the system error in `cause`)
+ * @returns True if the request was never sent
+ */
+function isConnectionError(error: unknown): boolean {
+  const cause = error instanceof Error ? error.cause : undefined
+  const code = (cause as { code?: unknown } | undefined)?.code
+  return typeof code === "string" && CONNECTION_ERROR_CODES.has(code)
+}
+
+/**
+ * Computes a jittered exponential backoff delay ("full jitter").
+ *
+ * @param attempt - Zero-based retry attempt
+ * @param policy - Retry policy with base and max delay
+ * @returns Random delay between 0 and min(maxDelayMs, baseDelayMs * 2^attempt)
+ */
+function backoffDelay(attempt: number, policy: RetryPolicy): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt)
+  return Math.floor(Math.random() * ceiling)
+}
+
+/**
+ * Waits for the given number of milliseconds, stopping early if the signal aborts.
+ *
+ * @param ms - Delay in milliseconds
+ * @param signal - Optional abort signal
+ * @throws The signal's abort reason if it aborts while waiting
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason as Error)
+      return
+    }
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal?.reason as Error)
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener("abort", onAbort, { once: true })
+  })
+}
 
 /**
  * Main Superthread API client.
@@ -46,6 +235,18 @@ import { TagResource } from "./tags.js"
 export class SuperthreadClient {
   private apiKey: string
   private baseUrl: string
+  private retryPolicy: RetryPolicy
+  private limiter?: RateLimiter
+  private timeoutMs: number
+
+  /** Abort signal cancelling every request made by this client (e.g., the MCP request's signal) */
+  readonly signal?: AbortSignal
+
+  /** True if mutating requests are recorded instead of sent */
+  readonly dryRun: boolean
+
+  /** Mutating requests recorded in dry-run mode, in the order they would have been sent */
+  readonly plannedRequests: PlannedRequest[] = []
 
   /** User and workspace member operations */
   public user: UserResource
@@ -80,9 +281,14 @@ export class SuperthreadClient {
   /** Tag operations */
   public tags: TagResource
 
-  constructor(apiKey: string, baseUrl: string) {
+  constructor(apiKey: string, baseUrl: string, options: ClientOptions = {}) {
     this.apiKey = apiKey
     this.baseUrl = baseUrl
+    this.retryPolicy = options.retry || NO_RETRY
+    this.limiter = options.limiter
+    this.timeoutMs = options.timeoutMs || 0
+    this.signal = options.signal
+    this.dryRun = options.dryRun ?? false
 
     this.user = new UserResource(this)
     this.projects = new ProjectResource(this)
@@ -105,13 +311,37 @@ export class SuperthreadClient {
    * Path segments containing "..", "/", null bytes, or other dangerous
    * characters will be rejected before the request is made.
    *
+   * Transient failures are retried according to the client's retry policy:
+   * - 429 and 503 responses, and failures to connect, are retried for every method (the
+   *   request was not processed)
+   * - Other 5xx responses and network errors (including timeouts) are retried only for
+   *   idempotent requests (GET, HEAD, OPTIONS, PUT, DELETE, or marked with `read`), so a
+   *   POST is never sent twice after an ambiguous failure
+   * - A Retry-After header sets the delay; if it exceeds maxDelayMs the error is returned
+   *   immediately instead of blocking the tool
+   *
+   * Every attempt passes through the client's rate limiter, which is shared by all
+   * resources (and all clients using the same API key).
+   *
+   * Each attempt is bounded by the client's timeout (a timed-out attempt counts as a network
+   * error for retries), and all attempts stop as soon as the client's abort signal fires,
+   * e.g. when the MCP client cancels the tool call.
+   *
+   * In dry-run mode, mutating requests (anything but GET/HEAD/OPTIONS, unless marked with
+   * `read`) are recorded in `plannedRequests` and answered with a placeholder instead of being
+   * sent. Reads still go to the API, so derived steps (e.g., smart positioning after a create)
+   * are planned exactly as they would run.
+   *
    * @param path - API path (will be appended to baseUrl). Must start with "/"
-   * @param options - Fetch options
+   * @param options - Fetch options, plus `read` for requests that only read data
    * @returns Parsed JSON response
    * @throws {PathValidationError} If the path contains dangerous characters
-   * @throws {Error} If the API request fails
+   * @throws {SuperthreadError} If the API returns an error status (typed by status, e.g. NotFoundError)
+   * @throws {NetworkError} If the request fails to connect or times out
    */
-  async request<T = unknown>(path: string, options: RequestInit = {}): Promise<T> {
+  async request<T = unknown>(path: string, requestOptions: RequestOptions = {}): Promise<T> {
+    const { read = false, ...options } = requestOptions
+
     // Build full URL using urlcat - handles encoding automatically
     // urlcat ensures path segments are properly encoded and joined
     const url = urlcat(this.baseUrl, path)
@@ -119,53 +349,177 @@ export class SuperthreadClient {
     // Security check: Ensure the constructed URL stays within our base URL
     // This catches any attempt to escape the API prefix
     if (!url.startsWith(this.baseUrl + "/")) {
-      throw new Error(
+      throw new PathValidationError(
         `Security violation: URL does not start with base URL. ` +
           `Expected prefix: ${this.baseUrl}/, Got: ${url}`
       )
     }
 
+    const method = (options.method || "GET").toUpperCase()
+    if (this.dryRun && !read && !READ_METHODS.has(method)) {
+      return this.planRequest(method, path, options.body) as T
+    }
+
     const headers = new Headers(options.headers || {})
     headers.set("Authorization", `Bearer ${this.apiKey}`)
     headers.set("Content-Type", "application/json")
 
-    const response = await fetch(url, {
-      ...options,
-      headers,
-    })
+    const endpoint = `${method} ${path}`
+    const { response, text } = await this.fetchWithRetry(
+      url,
+      endpoint,
+      { ...options, headers },
+      read || IDEMPOTENT_METHODS.has(method)
+    )
 
     if (!response.ok) {
-      const errorText = await response.text()
-      throw new Error(`Superthread API error (${response.status}): ${errorText}`)
+      throw createApiError(
+        response.status,
+        endpoint,
+        text,
+        parseRetryAfter(response.headers.get("retry-after"))
+      )
     }
 
     // Handle empty responses (204 No Content or empty body)
-    const contentLength = response.headers.get("content-length")
-    if (response.status === 204 || contentLength === "0") {
+    if (response.status === 204 || text.trim() === "") {
       return { success: true } as T
     }
 
-    const text = await response.text()
-    if (!text || text.trim() === "") {
-      return { success: true } as T
+    return JSON.parse(text) as T
+  }
+
+  /**
+   * Records a mutating request in dry-run mode and returns a placeholder response.
+   *
+   * Creates (POST to a collection like /cards) get a placeholder entity with a generated ID,
+   * so follow-up steps that use the new ID (e.g., positioning a created card) can be planned.
+   *
+   * @param method - HTTP method
+   * @param path - API path relative to the base URL
+   * @param body - Request body (a JSON string when present)
+   * @returns Placeholder response, e.g. `{ dry_run: true, card: { id: "dry-run-1" } }`
+   */
+  private planRequest(method: string, path: string, body: RequestInit["body"]): unknown {
+    this.plannedRequests.push({
+      method,
+      path,
+      ...(typeof body === "string" && { body: JSON.parse(body) as unknown }),
+    })
+
+    const collection = path.split("/").pop() ?? ""
+    if (method !== "POST" || !collection.endsWith("s")) {
+      return { dry_run: true }
+    }
+    return {
+      dry_run: true,
+      [collection.slice(0, -1)]: { id: `dry-run-${this.plannedRequests.length}` },
     }
+  }
 
-    return JSON.parse(text) as T
+  /**
+   * Performs a fetch and reads the response body, retrying transient failures with jittered
+   * exponential backoff. Returns the last response (which may be non-OK) once retries are
+   * exhausted.
+   *
+   * The timeout of each attempt starts when the rate limiter lets it through, so time spent
+   * queued behind other requests doesn't count, and it covers reading the body.
+   *
+   * @param url - Full request URL
+   * @param endpoint - Request description ("METHOD /path") for error reporting
+   * @param init - Fetch options (body must be a string so it can be re-sent)
+   * @param idempotent - The request is safe to repeat after an ambiguous failure
+   * @returns The fetch response and its body text
+   * @throws {NetworkError} If the network request fails or times out and cannot be retried
+   * @throws The abort reason if the client's signal is aborted
+   */
+  private async fetchWithRetry(
+    url: string,
+    endpoint: string,
+    init: RequestInit,
+    idempotent: boolean
+  ): Promise<{ response: Response; text: string }> {
+    const method = (init.method || "GET").toUpperCase()
+    const policy = this.retryPolicy
+
+    for (let attempt = 0; ; attempt++) {
+      const canRetry = attempt < policy.maxRetries
+      this.signal?.throwIfAborted()
+
+      let timeout: AbortSignal | undefined
+      const send = () => {
+        timeout = this.timeoutMs > 0 ? AbortSignal.timeout(this.timeoutMs) : undefined
+        const signals = [this.signal, init.signal, timeout].filter((s): s is AbortSignal => !!s)
+        return fetch(url, { ...init, signal: signals.length > 0 ? AbortSignal.any(signals) : null })
+      }
+
+      let response: Response
+      let retryAfter: number | undefined
+      try {
+        response = this.limiter ? await this.limiter.schedule(send) : await send()
+
+        const retryable =
+          ALWAYS_RETRYABLE_STATUSES.has(response.status) || (idempotent && response.status >= 500)
+        retryAfter = parseRetryAfter(response.headers.get("retry-after"))
+        const tooLong = retryAfter !== undefined && retryAfter > policy.maxDelayMs
+        if (response.ok || !retryable || !canRetry || tooLong) {
+          return { response, text: await response.text() }
+        }
+      } catch (error) {
+        this.signal?.throwIfAborted()
+        const failure = timeout?.aborted
+          ? new NetworkError(
+              `Superthread API request timed out after ${this.timeoutMs}ms: ${method} ${url}`,
+              { endpoint, cause: error, timedOut: true }
+            )
+          : new NetworkError(
+              `Superthread API request failed: ${error instanceof Error ? error.message : String(error)}`,
+              { endpoint, cause: error }
+            )
+        if (!canRetry || !(idempotent || isConnectionError(error))) {
+          throw failure
+        }
+        await sleep(backoffDelay(attempt, policy), this.signal)
+        continue
+      }
+
+      // Release the connection before waiting
+      await response.body?.cancel()
+      await sleep(retryAfter ?? backoffDelay(attempt, policy), this.signal)
+    }
   }
 }
 
 /**
  * Creates a Superthread API client using configuration from environment variables.
+ *
+ * When a session-specific API key is given (e.g., from an HTTP client's Authorization
+ * header), the client acts as that user instead of the globally configured one.
+ *
+ * @param apiKey - Optional per-session Personal Access Token (defaults to SUPERTHREAD_API_KEY)
+ * @param signal - Optional abort signal (the MCP request's signal) cancelling all requests
+ * @param dryRun - Record mutating requests instead of sending them (defaults to SUPERTHREAD_DRY_RUN)
  * @returns Configured SuperthreadClient instance
- * @throws {Error} If API key is not configured
+ * @throws {AuthError} If API key is not configured
  */
-export function createClient(): SuperthreadClient {
-  if (!config.apiKey) {
-    throw new Error(
+export function createClient(
+  apiKey?: string,
+  signal?: AbortSignal,
+  dryRun = config.dryRun
+): SuperthreadClient {
+  const key = apiKey || config.apiKey
+  if (!key) {
+    throw new AuthError(
       "SUPERTHREAD_API_KEY environment variable is required but not set. " +
         "Please add it to your MCP server configuration."
     )
   }
 
-  return new SuperthreadClient(config.apiKey, config.baseUrl)
+  return new SuperthreadClient(key, config.baseUrl, {
+    retry: config.retry,
+    limiter: getSharedLimiter(key),
+    timeoutMs: config.requestTimeoutMs,
+    signal,
+    dryRun,
+  })
 }
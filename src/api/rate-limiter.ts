@@ -0,0 +1,114 @@
+/**
+ * @fileoverview Client-side rate limiting for the Superthread API.
+ * Combines a token bucket (requests per second) with a concurrency limit (requests in flight).
+ */
+
+import type { RateLimitPolicy } from "../config.js"
+
+/**
+ * Token-bucket rate limiter with a concurrency governor.
+ *
+ * - **Token bucket**: The bucket holds up to `requestsPerSecond` tokens (allowing a short burst)
+ *   and refills continuously. Each request takes one token, waiting if the bucket is empty.
+ * - **Concurrency**: At most `maxConcurrent` requests run at once; others queue in FIFO order.
+ *
+ * Waiters are served in arrival order, so a tight batch loop can't starve other tool calls
+ * sharing the same limiter.
+ *
+ * @example
+ * ```typescript
+ * const limiter = new RateLimiter({ requestsPerSecond: 10, maxConcurrent: 4 })
+ * const response = await limiter.schedule(() => fetch(url))
+ * ```
+ */
+export class RateLimiter {
+  private tokens: number
+  private lastRefill: number
+  private inFlight = 0
+  private slotWaiters: Array<() => void> = []
+  private tokenQueue: Promise<void> = Promise.resolve()
+
+  constructor(private policy: RateLimitPolicy) {
+    this.tokens = Math.max(1, policy.requestsPerSecond)
+    this.lastRefill = Date.now()
+  }
+
+  /** True if no request is running or waiting for a slot */
+  get idle(): boolean {
+    return this.inFlight === 0
+  }
+
+  /**
+   * Runs a task once a concurrency slot and a token are available.
+   *
+   * @param task - Function performing the request
+   * @returns The task's result
+   */
+  async schedule<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquireSlot()
+    try {
+      await this.acquireToken()
+      return await task()
+    } finally {
+      this.releaseSlot()
+    }
+  }
+
+  /**
+   * Waits for a concurrency slot.
+   */
+  private async acquireSlot(): Promise<void> {
+    if (this.policy.maxConcurrent <= 0 || this.inFlight < this.policy.maxConcurrent) {
+      this.inFlight++
+      return
+    }
+    // The releasing request hands its slot directly to the next waiter
+    await new Promise<void>((resolve) => this.slotWaiters.push(resolve))
+  }
+
+  /**
+   * Releases a concurrency slot, handing it to the next waiter if there is one.
+   */
+  private releaseSlot(): void {
+    const next = this.slotWaiters.shift()
+    if (next) {
+      next()
+    } else {
+      this.inFlight--
+    }
+  }
+
+  /**
+   * Takes a token from the bucket, waiting for a refill if it is empty.
+   * Token requests are chained so they are granted in FIFO order.
+   */
+  private acquireToken(): Promise<void> {
+    if (this.policy.requestsPerSecond <= 0) {
+      return Promise.resolve()
+    }
+    const acquired = this.tokenQueue.then(() => this.takeToken())
+    this.tokenQueue = acquired
+    return acquired
+  }
+
+  /**
+   * Refills the bucket based on elapsed time and takes one token.
+   */
+  private async takeToken(): Promise<void> {
+    const rate = this.policy.requestsPerSecond
+    const capacity = Math.max(1, rate)
+
+    const now = Date.now()
+    this.tokens = Math.min(capacity, this.tokens + ((now - this.lastRefill) / 1000) * rate)
+    this.lastRefill = now
+
+    if (this.tokens < 1) {
+      const waitMs = Math.ceil(((1 - this.tokens) / rate) * 1000)
+      await new Promise((resolve) => setTimeout(resolve, waitMs))
+      this.tokens = Math.min(capacity, this.tokens + (waitMs / 1000) * rate)
+      this.lastRefill = Date.now()
+    }
+
+    this.tokens -= 1
+  }
+}
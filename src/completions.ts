@@ -0,0 +1,296 @@
+/**
+ * @fileoverview Argument completion for prompts and resource templates.
+ * Resolves a partial value typed by the user to the IDs of matching workspaces, spaces,
+ * boards, lists, sprints, members, and tags, so clients can autocomplete IDs instead of
+ * the user looking them up with tools first.
+ *
+ * The SDK doesn't pass the request's credentials to completion callbacks, so each server
+ * gets its own completers bound to the API key of its session (see createCompleters); tool
+ * handlers get the same key from `extra.authInfo`. Completion is best-effort: lookup
+ * failures return no suggestions.
+ */
+
+import { createHash } from "node:crypto"
+import { createClient, type SuperthreadClient } from "./api/client.js"
+import { config } from "./config.js"
+import {
+  getBoards,
+  getLists,
+  getMembers,
+  getSpaces,
+  getSprints,
+  getTags,
+  getWorkspaces,
+  type NamedEntity,
+} from "./lookups.js"
+
+/**
+ * Maximum number of suggestions per completion (the MCP limit).
+ */
+const MAX_COMPLETIONS = 100
+
+/**
+ * How long lookup results are reused across completion requests (one per keystroke).
+ */
+const LOOKUP_CACHE_TTL_MS = 30 * 1000
+
+/**
+ * Maximum number of cached lookups. A long-running HTTP server sees many sessions, each
+ * looking up its own workspaces and boards.
+ */
+const MAX_CACHED_LOOKUPS = 500
+
+/**
+ * Other arguments already filled in, as passed by the MCP SDK.
+ */
+export interface CompletionContext {
+  arguments?: Record<string, string>
+}
+
+/**
+ * Completes a partial argument value to matching IDs.
+ */
+export type Completer = (value?: string, context?: CompletionContext) => Promise<string[]>
+
+/**
+ * Completers for each kind of ID, bound to one API key (see createCompleters).
+ */
+export interface Completers {
+  workspaceId: Completer
+  spaceId: Completer
+  boardId: Completer
+  listId: Completer
+  sprintId: Completer
+  userId: Completer
+  tagId: Completer
+}
+
+/**
+ * Recent lookups by API key hash and lookup key, in insertion (and so expiry) order.
+ */
+const lookupCache = new Map<string, { entities: Promise<NamedEntity[]>; expiresAt: number }>()
+
+/**
+ * Ranks entities against a partial value and returns their IDs.
+ *
+ * Matching is case-insensitive on the name or ID. Names that start with the value rank
+ * first, then names that contain it, then ID prefixes; ties keep the API's order.
+ *
+ * @param entities - Candidate entities
+ * @param value - Partial value typed by the user (empty matches everything)
+ * @returns Matching IDs, at most MAX_COMPLETIONS
+ *
+ * @example
+ * matchCompletions([{ id: "b1", name: "Engineering" }, { id: "b2", name: "Design" }], "eng")
+ * // ["b1"]
+ */
+export function matchCompletions(entities: NamedEntity[], value = ""): string[] {
+  const query = value.trim().toLowerCase()
+  const rank = ({ id, name }: NamedEntity): number => {
+    const title = name.toLowerCase()
+    if (title.startsWith(query)) {
+      return 0
+    }
+    if (title.includes(query)) {
+      return 1
+    }
+    return id.toLowerCase().startsWith(query) ? 2 : -1
+  }
+
+  return entities
+    .map((entity) => ({ id: entity.id, rank: rank(entity) }))
+    .filter((match) => match.rank >= 0)
+    .sort((a, b) => a.rank - b.rank)
+    .map((match) => match.id)
+    .filter((id, index, ids) => ids.indexOf(id) === index)
+    .slice(0, MAX_COMPLETIONS)
+}
+
+/**
+ * Drops expired lookups, and the oldest ones beyond MAX_CACHED_LOOKUPS.
+ */
+function pruneLookupCache(now: number): void {
+  for (const [key, entry] of lookupCache) {
+    if (entry.expiresAt > now && lookupCache.size < MAX_CACHED_LOOKUPS) {
+      break
+    }
+    lookupCache.delete(key)
+  }
+}
+
+/**
+ * Runs a lookup with an API key (or SUPERTHREAD_API_KEY), reusing recent results for the
+ * same key and API key. Sessions with different API keys never share results; the cache
+ * holds a hash of the API key rather than the key itself.
+ */
+function cachedLookup(
+  apiKey: string | undefined,
+  lookupKey: string,
+  lookup: (client: SuperthreadClient) => Promise<NamedEntity[]>
+): Promise<NamedEntity[]> {
+  const key = apiKey || config.apiKey
+  const cacheKey = `${createHash("sha256").update(key).digest("hex")}:${lookupKey}`
+  const now = Date.now()
+  const cached = lookupCache.get(cacheKey)
+  if (cached && cached.expiresAt > now) {
+    return cached.entities
+  }
+
+  pruneLookupCache(now)
+  const entities = lookup(createClient(key))
+  lookupCache.set(cacheKey, { entities, expiresAt: now + LOOKUP_CACHE_TTL_MS })
+  // Don't cache failures
+  entities.catch(() => {
+    if (lookupCache.get(cacheKey)?.entities === entities) {
+      lookupCache.delete(cacheKey)
+    }
+  })
+  return entities
+}
+
+/**
+ * Returns the cache key and lookup for the filled-in arguments, or undefined if a required
+ * argument (e.g., the workspace) is missing.
+ */
+type LookupResolver = (
+  args: Record<string, string>
+) => [string, (client: SuperthreadClient) => Promise<NamedEntity[]>] | undefined
+
+/**
+ * Builds a completer from a lookup that depends on other arguments.
+ *
+ * @param apiKey - API key to look entities up with
+ * @param resolve - Lookup for the filled-in arguments
+ * @returns Completer that never throws
+ */
+function completer(apiKey: string | undefined, resolve: LookupResolver): Completer {
+  return async (value, context) => {
+    const lookup = resolve(context?.arguments ?? {})
+    if (!lookup) {
+      return []
+    }
+    try {
+      return matchCompletions(await cachedLookup(apiKey, ...lookup), value)
+    } catch {
+      return []
+    }
+  }
+}
+
+/**
+ * Returns the workspace from a prompt (`workspace_id`) or resource template (`workspace`).
+ */
+function workspaceArg(args: Record<string, string>): string | undefined {
+  return args.workspace_id || args.workspace || undefined
+}
+
+/**
+ * Looks up the user's workspaces.
+ */
+const workspaceLookup: LookupResolver = () => ["workspaces", getWorkspaces]
+
+/**
+ * Looks up the spaces of the workspace argument.
+ */
+const spaceLookup: LookupResolver = (args) => {
+  const workspaceId = workspaceArg(args)
+  if (!workspaceId) {
+    return undefined
+  }
+  return [`spaces:${workspaceId}`, (client) => getSpaces(client, workspaceId)]
+}
+
+/**
+ * Looks up the boards of the space argument, or of every space in the workspace if no space
+ * is given (one request per space).
+ */
+const boardLookup: LookupResolver = (args) => {
+  const workspaceId = workspaceArg(args)
+  const spaceId = args.space_id
+  if (!workspaceId) {
+    return undefined
+  }
+  if (spaceId) {
+    return [`boards:${workspaceId}:${spaceId}`, (client) => getBoards(client, workspaceId, spaceId)]
+  }
+  return [
+    `boards:${workspaceId}`,
+    async (client) => {
+      const boards: NamedEntity[] = []
+      for (const space of await getSpaces(client, workspaceId)) {
+        boards.push(...(await getBoards(client, workspaceId, space.id)))
+      }
+      return boards
+    },
+  ]
+}
+
+/**
+ * Looks up the lists of the board argument.
+ */
+const listLookup: LookupResolver = (args) => {
+  const workspaceId = workspaceArg(args)
+  const boardId = args.board_id
+  if (!workspaceId || !boardId) {
+    return undefined
+  }
+  return [`lists:${workspaceId}:${boardId}`, (client) => getLists(client, workspaceId, boardId)]
+}
+
+/**
+ * Looks up the sprints of the space argument.
+ */
+const sprintLookup: LookupResolver = (args) => {
+  const workspaceId = workspaceArg(args)
+  const spaceId = args.space_id
+  if (!workspaceId || !spaceId) {
+    return undefined
+  }
+  return [`sprints:${workspaceId}:${spaceId}`, (client) => getSprints(client, workspaceId, spaceId)]
+}
+
+/**
+ * Looks up the workspace's members.
+ */
+const memberLookup: LookupResolver = (args) => {
+  const workspaceId = workspaceArg(args)
+  if (!workspaceId) {
+    return undefined
+  }
+  return [`members:${workspaceId}`, (client) => getMembers(client, workspaceId)]
+}
+
+/**
+ * Looks up the workspace's tags.
+ */
+const tagLookup: LookupResolver = (args) => {
+  const workspaceId = workspaceArg(args)
+  if (!workspaceId) {
+    return undefined
+  }
+  return [`tags:${workspaceId}`, (client) => getTags(client, workspaceId)]
+}
+
+/**
+ * Creates completers that look entities up with an API key. Each server gets its own, bound
+ * to the API key of its HTTP session, so sessions with their own keys see their own
+ * workspaces.
+ *
+ * @param apiKey - API key of the session (defaults to SUPERTHREAD_API_KEY)
+ * @returns Completers for each kind of ID
+ *
+ * @example
+ * const complete = createCompleters(session.apiKey)
+ * completable(z.string().describe("Board ID"), complete.boardId)
+ */
+export function createCompleters(apiKey?: string): Completers {
+  return {
+    workspaceId: completer(apiKey, workspaceLookup),
+    spaceId: completer(apiKey, spaceLookup),
+    boardId: completer(apiKey, boardLookup),
+    listId: completer(apiKey, listLookup),
+    sprintId: completer(apiKey, sprintLookup),
+    userId: completer(apiKey, memberLookup),
+    tagId: completer(apiKey, tagLookup),
+  }
+}
@@ -0,0 +1,349 @@
+/**
+ * @fileoverview Optional JSON or YAML config file with named profiles.
+ * Settings that are awkward to pass as environment variables (lists of patterns, workspace
+ * aliases) can be kept in a file instead, and profiles switch between sets of settings
+ * (e.g., one API key and default workspace per account). The file is watched while the
+ * server runs, so changes apply without restarting the MCP client.
+ *
+ * @example
+ * ```json
+ * {
+ *   "profile": "work",
+ *   "listsAddToTop": ["Done", "Tasks, Urgent"],
+ *   "profiles": {
+ *     "work": { "apiKey": "stp_...", "defaultWorkspace": "eng" },
+ *     "personal": { "apiKey": "stp_...", "readOnly": true }
+ *   }
+ * }
+ * ```
+ */
+
+import { existsSync, readFileSync, watch, type FSWatcher } from "node:fs"
+import { homedir } from "node:os"
+import { basename, dirname, extname, join } from "node:path"
+import { parse as parseYaml } from "yaml"
+import { z } from "zod"
+import {
+  AVAILABLE_DOMAINS,
+  AVAILABLE_TRANSPORTS,
+  AVAILABLE_VERBOSITIES,
+  config,
+  loadConfig,
+} from "./config.js"
+
+/**
+ * File names looked for in the config directory, in order.
+ */
+const CONFIG_FILE_NAMES = ["config.json", "config.yaml", "config.yml"]
+
+/**
+ * Delay before reloading a changed config file in milliseconds. Saving a file often causes
+ * several events (editors write a temporary file and rename it), which cause one reload.
+ */
+const RELOAD_DELAY_MS = 200
+
+/**
+ * Functions called after the configuration is reloaded.
+ */
+const reloadListeners = new Set<() => void>()
+
+const count = z.number().int().min(0)
+const patterns = z.array(z.string().trim().min(1))
+
+/**
+ * Settings that can be given at the top level of the config file or in a profile.
+ * Names match the Config properties; lists are arrays instead of comma-separated strings.
+ */
+const settingsSchema = z
+  .object({
+    apiKey: z.string().min(1),
+    baseUrl: z.string().url(),
+    enabledTools: z.array(z.string().toLowerCase().pipe(z.enum(AVAILABLE_DOMAINS))),
+    readOnly: z.boolean(),
+    allowedTools: z.array(z.string().trim().toLowerCase().min(1)),
+    deniedTools: z.array(z.string().trim().toLowerCase().min(1)),
+    listsAddToTop: patterns,
+    transport: z.string().toLowerCase().pipe(z.enum(AVAILABLE_TRANSPORTS)),
+    httpHost: z.string().min(1),
+    httpPort: z.number().int().min(0).max(65535),
+    httpRequireApiKey: z.boolean(),
+    httpAllowedHosts: z.array(z.string().trim().toLowerCase().min(1)),
+    httpSessionTimeoutMs: count,
+    retry: z
+      .object({ maxRetries: count, baseDelayMs: count, maxDelayMs: count })
+      .partial()
+      .strict(),
+    rateLimit: z
+      .object({ requestsPerSecond: z.number().min(0), maxConcurrent: count })
+      .partial()
+      .strict(),
+    requestTimeoutMs: count,
+    dryRun: z.boolean(),
+    verbosity: z.string().toLowerCase().pipe(z.enum(AVAILABLE_VERBOSITIES)),
+    maxResponseChars: count,
+    subscriptionPollMs: count,
+    defaultWorkspace: z.string().trim(),
+    workspaceAliases: z
+      .record(z.string().trim().min(1))
+      .transform((aliases) =>
+        Object.fromEntries(
+          Object.entries(aliases).map(([alias, id]) => [alias.trim().toLowerCase(), id])
+        )
+      ),
+    lazyTools: z.boolean(),
+  })
+  .partial()
+  .strict()
+
+/**
+ * Schema of the config file: settings, plus named profiles that override them.
+ */
+const configFileSchema = settingsSchema
+  .extend({
+    /** Profile used when SUPERTHREAD_PROFILE isn't set */
+    profile: z.string().min(1).optional(),
+    profiles: z.record(settingsSchema).optional(),
+  })
+  .strict()
+
+/**
+ * Validated settings from the config file, with the selected profile applied.
+ */
+export type ConfigFileSettings = z.output<typeof settingsSchema>
+
+/**
+ * The config file is missing, unreadable, or invalid. The message is meant to be shown to
+ * the user as is.
+ */
+export class ConfigFileError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "ConfigFileError"
+  }
+}
+
+/**
+ * A loaded config file.
+ */
+export interface LoadedConfigFile {
+  /** Path the file was read from */
+  path: string
+  /** Profile that was applied, if any */
+  profile?: string
+  /** Settings with the profile applied */
+  settings: ConfigFileSettings
+}
+
+/**
+ * Returns the paths the config file is looked for at when SUPERTHREAD_CONFIG isn't set.
+ *
+ * @param env - Environment variables
+ * @returns Candidate paths, in order of preference
+ */
+export function defaultConfigFilePaths(env: NodeJS.ProcessEnv = process.env): string[] {
+  const configHome = env.XDG_CONFIG_HOME || join(homedir(), ".config")
+  return CONFIG_FILE_NAMES.map((name) => join(configHome, "mcp-superthread-plus", name))
+}
+
+/**
+ * Finds the config file: SUPERTHREAD_CONFIG if set, otherwise the first default path that
+ * exists.
+ *
+ * @param env - Environment variables
+ * @returns Path of the config file, or undefined if there is none
+ */
+export function findConfigFile(env: NodeJS.ProcessEnv = process.env): string | undefined {
+  const explicit = env.SUPERTHREAD_CONFIG?.trim()
+  if (explicit) {
+    return explicit
+  }
+  return defaultConfigFilePaths(env).find((path) => existsSync(path))
+}
+
+/**
+ * Formats zod issues as one line per setting.
+ */
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map(
+      (issue) =>
+        `  - ${issue.path.length > 0 ? issue.path.join(".") : "(top level)"}: ${issue.message}`
+    )
+    .join("\n")
+}
+
+/**
+ * Reads and validates a config file, then applies the selected profile.
+ *
+ * @param path - Path of a .json, .yaml, or .yml file
+ * @param profile - Profile to apply (defaults to the file's "profile" setting)
+ * @returns Settings with the profile applied
+ * @throws {ConfigFileError} If the file can't be read or parsed, fails validation, or has no
+ *   such profile
+ *
+ * @example
+ * readConfigFile("/home/me/.config/mcp-superthread-plus/config.yaml", "work")
+ * // { path: "...", profile: "work", settings: { apiKey: "stp_...", defaultWorkspace: "eng" } }
+ */
+export function readConfigFile(path: string, profile?: string): LoadedConfigFile {
+  let text: string
+  try {
+    text = readFileSync(path, "utf8")
+  } catch (error) {
+    throw new ConfigFileError(
+      `Could not read config file ${path}: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+
+  let data: unknown
+  try {
+    const extension = extname(path).toLowerCase()
+    data = extension === ".yaml" || extension === ".yml" ? parseYaml(text) : JSON.parse(text)
+  } catch (error) {
+    throw new ConfigFileError(
+      `Could not parse config file ${path}: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+
+  // An empty YAML file parses to null
+  const result = configFileSchema.safeParse(data ?? {})
+  if (!result.success) {
+    throw new ConfigFileError(`Invalid config file ${path}:\n${formatIssues(result.error)}`)
+  }
+
+  const { profile: defaultProfile, profiles = {}, ...settings } = result.data
+  const selected = profile || defaultProfile
+  if (!selected) {
+    return { path, settings }
+  }
+
+  const overrides = profiles[selected]
+  if (!overrides) {
+    const available = Object.keys(profiles)
+    throw new ConfigFileError(
+      `Profile "${selected}" not found in config file ${path}. ${
+        available.length > 0 ? `Available profiles: ${available.join(", ")}` : "It has no profiles."
+      }`
+    )
+  }
+  return {
+    path,
+    profile: selected,
+    settings: {
+      ...settings,
+      ...overrides,
+      retry: { ...settings.retry, ...overrides.retry },
+      rateLimit: { ...settings.rateLimit, ...overrides.rateLimit },
+    },
+  }
+}
+
+/**
+ * Loads the config file, if there is one, and applies it to the global configuration.
+ * Environment variables still take precedence over the file's settings. Without a file,
+ * the configuration is reset to the environment variables alone.
+ *
+ * @param env - Environment variables
+ * @returns The loaded file, or undefined if there is none
+ * @throws {ConfigFileError} If the file is invalid, or SUPERTHREAD_PROFILE is set without a
+ *   config file
+ */
+export function applyConfigFile(
+  env: NodeJS.ProcessEnv = process.env
+): LoadedConfigFile | undefined {
+  const path = findConfigFile(env)
+  const profile = env.SUPERTHREAD_PROFILE?.trim()
+  if (!path) {
+    if (profile) {
+      throw new ConfigFileError(
+        `SUPERTHREAD_PROFILE is set to "${profile}", but no config file was found. Set SUPERTHREAD_CONFIG or create ${defaultConfigFilePaths(env)[0]}`
+      )
+    }
+    Object.assign(config, loadConfig(env))
+    return undefined
+  }
+
+  const loaded = readConfigFile(path, profile)
+  Object.assign(config, loadConfig(env, loaded.settings))
+  return loaded
+}
+
+/**
+ * Registers a function to call after the configuration is reloaded.
+ *
+ * @param listener - Function to call (e.g., to re-apply tool filters)
+ * @returns Function that unregisters the listener
+ */
+export function onConfigReload(listener: () => void): () => void {
+  reloadListeners.add(listener)
+  return () => {
+    reloadListeners.delete(listener)
+  }
+}
+
+/**
+ * Re-applies the config file and notifies the reload listeners. An invalid file is reported
+ * and ignored, so the last valid configuration stays in effect until the file is fixed.
+ *
+ * @param env - Environment variables
+ * @returns True if the configuration was reloaded
+ */
+export function reloadConfigFile(env: NodeJS.ProcessEnv = process.env): boolean {
+  try {
+    const loaded = applyConfigFile(env)
+    console.error(
+      loaded
+        ? `Reloaded configuration from ${loaded.path}`
+        : "Config file removed, using environment variables only"
+    )
+  } catch (error) {
+    console.error(
+      `Ignoring config file change: ${error instanceof Error ? error.message : String(error)}`
+    )
+    return false
+  }
+
+  for (const listener of reloadListeners) {
+    listener()
+  }
+  return true
+}
+
+/**
+ * Watches the config file and reloads the configuration when it changes. The directory is
+ * watched rather than the file, so the file can be created, replaced, or removed.
+ *
+ * @param env - Environment variables
+ * @param delayMs - Delay after the last change before reloading
+ * @returns The watcher (close it to stop watching), or undefined if the config directory
+ *   doesn't exist
+ */
+export function watchConfigFile(
+  env: NodeJS.ProcessEnv = process.env,
+  delayMs = RELOAD_DELAY_MS
+): FSWatcher | undefined {
+  const explicit = env.SUPERTHREAD_CONFIG?.trim()
+  const directory = dirname(explicit || defaultConfigFilePaths(env)[0])
+  const names = explicit ? [basename(explicit)] : CONFIG_FILE_NAMES
+  if (!existsSync(directory)) {
+    return undefined
+  }
+
+  let timer: NodeJS.Timeout | undefined
+  const watcher = watch(directory, (_event, filename) => {
+    // Some platforms don't report the file name; reload to be safe
+    if (filename && !names.includes(filename)) {
+      return
+    }
+    clearTimeout(timer)
+    timer = setTimeout(() => reloadConfigFile(env), delayMs)
+    timer.unref()
+  })
+  watcher.on("close", () => clearTimeout(timer))
+  watcher.on("error", (error) =>
+    console.error(`Stopped watching the config file: ${error.message}`)
+  )
+  // Watching alone shouldn't keep the process running
+  watcher.unref()
+  return watcher
+}
@@ -1,12 +1,36 @@
 /**
  * @fileoverview Configuration for MCP Superthread Plus server.
- * Loads settings from environment variables for API authentication and defaults.
+ * Loads settings from environment variables and an optional config file for API
+ * authentication and defaults.
  */
 
-import { parseDelimitedString } from "./utils.js"
+import type { ConfigFileSettings } from "./config-file.js"
+import { parseBoolean, parseDelimitedString, parseKeyValuePairs, parseNumber } from "./utils.js"
 
 /**
- * Configuration interface for MCP Superthread Plus settings loaded from environment variables.
+ * Retry policy for transient Superthread API failures.
+ */
+export interface RetryPolicy {
+  /** Maximum number of retries after the first attempt (0 disables retries) */
+  maxRetries: number
+  /** Base delay for exponential backoff in milliseconds */
+  baseDelayMs: number
+  /** Upper bound for a single backoff delay (and for honoring Retry-After) in milliseconds */
+  maxDelayMs: number
+}
+
+/**
+ * Client-side rate limit shared by all requests made with the same API key.
+ */
+export interface RateLimitPolicy {
+  /** Sustained requests per second (0 disables the token bucket) */
+  requestsPerSecond: number
+  /** Maximum number of requests in flight at once (0 means unlimited) */
+  maxConcurrent: number
+}
+
+/**
+ * Configuration interface for MCP Superthread Plus settings.
  */
 export interface Config {
   /** Superthread API Personal Access Token for authentication */
@@ -15,16 +39,83 @@ export interface Config {
   baseUrl: string
   /** Set of enabled tool domains. Empty set means all domains are enabled. */
   enabledTools: Set<string>
+  /** Only expose tools that don't change data */
+  readOnly: boolean
+  /** Tool name patterns to expose (supports wildcards). Empty means all tools. */
+  allowedTools: string[]
+  /** Tool name patterns to hide, applied after allowedTools (supports wildcards) */
+  deniedTools: string[]
   /** List name patterns for lists that should add cards to top (position 0). Supports wildcards. */
   listsAddToTop: string[]
+  /** Transport used to serve MCP clients: "stdio" (default) or "http" */
+  transport: string
+  /** Host interface the HTTP transport binds to */
+  httpHost: string
+  /** Port the HTTP transport listens on */
+  httpPort: number
+  /** Require HTTP sessions to send their own API key instead of falling back to apiKey */
+  httpRequireApiKey: boolean
+  /** Extra host names HTTP clients may use to reach the server (e.g., a gateway's name) */
+  httpAllowedHosts: string[]
+  /** Close HTTP sessions without requests for this long in milliseconds (0 disables) */
+  httpSessionTimeoutMs: number
+  /** Retry policy for transient API failures (429, 5xx, network errors) */
+  retry: RetryPolicy
+  /** Client-side rate limit applied to all API requests */
+  rateLimit: RateLimitPolicy
+  /** Timeout for a single API request attempt in milliseconds (0 disables) */
+  requestTimeoutMs: number
+  /** Preview mutating requests instead of sending them (reads are still sent) */
+  dryRun: boolean
+  /** Default verbosity of tool results: "full" API responses or "compact" ones without noise */
+  verbosity: Verbosity
+  /** Maximum characters in a tool result before its arrays are truncated (0 disables) */
+  maxResponseChars: number
+  /** Interval for polling subscribed resources for changes in milliseconds (0 disables subscriptions) */
+  subscriptionPollMs: number
+  /** Workspace ID (or alias) used when a tool call omits workspace_id. Empty means none. */
+  defaultWorkspace: string
+  /** Workspace IDs by lowercase alias, accepted anywhere a workspace ID is */
+  workspaceAliases: Record<string, string>
+  /** Start with only the meta-tools and expose tool domains on demand */
+  lazyTools: boolean
 }
 
 /**
  * Default configuration values.
- * These are used when environment variables are not set.
+ * These are used when neither an environment variable nor the config file sets a value.
  */
 const DEFAULT_API_KEY = ""
 const DEFAULT_BASE_URL = "https://api.superthread.com/v1"
+const DEFAULT_TRANSPORT = "stdio"
+const DEFAULT_HTTP_HOST = "127.0.0.1"
+const DEFAULT_HTTP_PORT = 3000
+const DEFAULT_HTTP_SESSION_TIMEOUT_MS = 30 * 60 * 1000
+const DEFAULT_MAX_RETRIES = 3
+const DEFAULT_RETRY_BASE_DELAY_MS = 500
+const DEFAULT_RETRY_MAX_DELAY_MS = 10000
+const DEFAULT_RATE_LIMIT_RPS = 10
+const DEFAULT_MAX_CONCURRENT_REQUESTS = 4
+const DEFAULT_REQUEST_TIMEOUT_MS = 30000
+const DEFAULT_MAX_RESPONSE_CHARS = 0
+const DEFAULT_SUBSCRIPTION_POLL_MS = 30000
+
+/**
+ * Transports the server can be started with.
+ * "http" serves Streamable HTTP at /mcp and legacy SSE at /sse + /messages.
+ */
+export const AVAILABLE_TRANSPORTS = ["stdio", "http"] as const
+
+/**
+ * Verbosity levels for tool results.
+ * "compact" strips nulls, empty strings, and display-only fields (blurhashes, avatar URLs).
+ */
+export const AVAILABLE_VERBOSITIES = ["full", "compact"] as const
+
+/**
+ * Type representing a tool result verbosity level.
+ */
+export type Verbosity = (typeof AVAILABLE_VERBOSITIES)[number]
 
 /**
  * Available tool domains that can be enabled/disabled.
@@ -49,32 +140,157 @@ export const AVAILABLE_DOMAINS = [
  */
 export type ToolDomain = (typeof AVAILABLE_DOMAINS)[number]
 
-// Parse enabled tools from environment variable
-const enabledToolsList = parseDelimitedString(process.env.SUPERTHREAD_ENABLED_TOOLS, ",", (s) =>
-  s.toLowerCase()
-)
-
-// Parse lists that should add cards to top from environment variable
-// Supports wildcards (*) and backslash-escaped commas (\,) for list names containing commas
-const listsAddToTop = parseDelimitedString(process.env.SUPERTHREAD_LISTS_ADD_TO_TOP, ",").filter(
-  (pattern) => pattern.length > 0
-) // Remove empty patterns from malformed config
-
 /**
  * Global configuration object loaded from environment variables.
+ * At startup, settings from the config file are merged in (see applyConfigFile in
+ * config-file.ts); environment variables take precedence over the file.
  *
  * Environment variables:
  * - SUPERTHREAD_API_KEY: Personal Access Token from Superthread account settings (REQUIRED)
  * - SUPERTHREAD_API_BASE_URL: API base URL (optional, defaults to https://api.superthread.com/v1)
  * - SUPERTHREAD_ENABLED_TOOLS: Comma-separated list of tool domains to enable (optional, defaults to all)
  *   Available domains: users, cards, boards, projects, spaces, sprints, pages, comments, notes, tags, search
+ * - SUPERTHREAD_READ_ONLY: Only expose tools that don't change data (optional, defaults to false)
+ * - SUPERTHREAD_ALLOWED_TOOLS: Comma-separated tool name patterns to expose (optional, defaults to all)
+ * - SUPERTHREAD_DENIED_TOOLS: Comma-separated tool name patterns to hide, e.g. "*_delete" (optional)
  * - SUPERTHREAD_LISTS_ADD_TO_TOP: Comma-separated list of list name patterns for smart positioning (optional)
  *   Cards moved/created in matching lists are positioned at top (position 0). Supports wildcards (*).
  *   Example: "Done,Completed,Finish*" - Escape commas in list names with backslash: "Tasks\, Urgent"
+ * - SUPERTHREAD_TRANSPORT: "stdio" or "http" (optional, defaults to stdio)
+ * - SUPERTHREAD_HTTP_HOST: Host for the HTTP transport to bind to (optional, defaults to 127.0.0.1)
+ * - SUPERTHREAD_HTTP_PORT: Port for the HTTP transport (optional, defaults to 3000)
+ * - SUPERTHREAD_HTTP_REQUIRE_API_KEY: Reject HTTP sessions without their own
+ *   "Authorization: Bearer <token>" header (optional, defaults to false)
+ * - SUPERTHREAD_HTTP_ALLOWED_HOSTS: Comma-separated host names clients may use to reach the HTTP
+ *   transport besides the bind host, e.g. a gateway's name (optional). Requests with any other
+ *   Host or Origin header are rejected to prevent DNS rebinding.
+ * - SUPERTHREAD_HTTP_SESSION_TIMEOUT_MS: Close HTTP sessions that have been idle this long
+ *   (optional, defaults to 1800000, 0 disables)
+ * - SUPERTHREAD_MAX_RETRIES: Retries for transient API failures (optional, defaults to 3, 0 disables)
+ * - SUPERTHREAD_RETRY_BASE_DELAY_MS: Base delay for exponential backoff (optional, defaults to 500)
+ * - SUPERTHREAD_RETRY_MAX_DELAY_MS: Maximum delay per retry, including Retry-After (optional, defaults to 10000)
+ * - SUPERTHREAD_RATE_LIMIT_RPS: Maximum API requests per second (optional, defaults to 10, 0 disables)
+ * - SUPERTHREAD_MAX_CONCURRENT_REQUESTS: Maximum API requests in flight (optional, defaults to 4, 0 disables)
+ * - SUPERTHREAD_REQUEST_TIMEOUT_MS: Timeout per API request attempt (optional, defaults to 30000, 0 disables)
+ * - SUPERTHREAD_DRY_RUN: Return mutating requests instead of sending them (optional, defaults to false)
+ * - SUPERTHREAD_VERBOSITY: Default tool result verbosity, "full" or "compact" (optional, defaults to full)
+ * - SUPERTHREAD_MAX_RESPONSE_CHARS: Truncate larger tool results and return a continuation token
+ *   (optional, defaults to 0, which disables truncation)
+ * - SUPERTHREAD_SUBSCRIPTION_POLL_MS: Interval for checking subscribed resources for changes
+ *   (optional, defaults to 30000, 0 disables resource subscriptions)
+ * - SUPERTHREAD_DEFAULT_WORKSPACE: Workspace ID or alias used when a tool call omits workspace_id
+ *   (optional; without it, workspace_id is required)
+ * - SUPERTHREAD_WORKSPACE_ALIASES: Comma-separated alias=workspace ID pairs, e.g. "eng=abc123,ops=def456"
+ *   (optional). Aliases can be used wherever a workspace ID is expected.
+ * - SUPERTHREAD_LAZY_TOOLS: Only expose meta-tools at first (superthread_list_domains,
+ *   superthread_enable_domain, superthread_describe_tool), which enable tool domains on demand
+ *   (optional, defaults to false)
+ * - SUPERTHREAD_CONFIG: Path to a JSON or YAML config file (optional, defaults to
+ *   ~/.config/mcp-superthread-plus/config.json, .yaml, or .yml if one exists)
+ * - SUPERTHREAD_PROFILE: Named profile to use from the config file (optional, defaults to the
+ *   file's "profile" setting)
+ */
+export const config: Config = loadConfig()
+
+/**
+ * Builds the configuration from environment variables and config file settings.
+ * Environment variables take precedence over the file; anything set in neither falls back
+ * to the defaults above.
+ *
+ * @param env - Environment variables
+ * @param file - Validated settings from the config file (see config-file.ts)
+ * @returns Configuration
  */
-export const config: Config = {
-  apiKey: process.env.SUPERTHREAD_API_KEY || DEFAULT_API_KEY,
-  baseUrl: process.env.SUPERTHREAD_API_BASE_URL || DEFAULT_BASE_URL,
-  enabledTools: new Set(enabledToolsList),
-  listsAddToTop,
+export function loadConfig(
+  env: NodeJS.ProcessEnv = process.env,
+  file: ConfigFileSettings = {}
+): Config {
+  // Returns a list setting from the environment, or undefined if it isn't set
+  const envList = (name: string, transform?: (item: string) => string) =>
+    env[name]?.trim() ? parseDelimitedString(env[name], ",", transform) : undefined
+  const lowercase = (s: string) => s.toLowerCase()
+
+  const enabledTools = envList("SUPERTHREAD_ENABLED_TOOLS", lowercase) ?? file.enabledTools ?? []
+
+  // Tool-level allow/deny patterns (tool names are lowercase, e.g. "card_*", "*_delete")
+  const allowedTools = envList("SUPERTHREAD_ALLOWED_TOOLS", lowercase) ?? file.allowedTools ?? []
+  const deniedTools = envList("SUPERTHREAD_DENIED_TOOLS", lowercase) ?? file.deniedTools ?? []
+
+  // Host names are case-insensitive
+  const httpAllowedHosts =
+    envList("SUPERTHREAD_HTTP_ALLOWED_HOSTS", lowercase) ?? file.httpAllowedHosts ?? []
+
+  // Supports wildcards (*) and backslash-escaped commas (\,) for list names containing commas
+  const listsAddToTop = envList("SUPERTHREAD_LISTS_ADD_TO_TOP") ?? file.listsAddToTop ?? []
+
+  // Parse workspace aliases ("eng=abc123,ops=def456"); aliases are case-insensitive
+  const workspaceAliases = env.SUPERTHREAD_WORKSPACE_ALIASES?.trim()
+    ? parseKeyValuePairs(env.SUPERTHREAD_WORKSPACE_ALIASES, ",", lowercase)
+    : (file.workspaceAliases ?? {})
+
+  return {
+    apiKey: env.SUPERTHREAD_API_KEY || file.apiKey || DEFAULT_API_KEY,
+    baseUrl: env.SUPERTHREAD_API_BASE_URL || file.baseUrl || DEFAULT_BASE_URL,
+    enabledTools: new Set(enabledTools),
+    readOnly: parseBoolean(env.SUPERTHREAD_READ_ONLY, file.readOnly ?? false),
+    allowedTools,
+    deniedTools,
+    listsAddToTop,
+    transport: (env.SUPERTHREAD_TRANSPORT || file.transport || DEFAULT_TRANSPORT).toLowerCase(),
+    httpHost: env.SUPERTHREAD_HTTP_HOST || file.httpHost || DEFAULT_HTTP_HOST,
+    httpPort: parseNumber(env.SUPERTHREAD_HTTP_PORT, file.httpPort ?? DEFAULT_HTTP_PORT),
+    httpRequireApiKey: parseBoolean(
+      env.SUPERTHREAD_HTTP_REQUIRE_API_KEY,
+      file.httpRequireApiKey ?? false
+    ),
+    httpAllowedHosts,
+    httpSessionTimeoutMs: parseNumber(
+      env.SUPERTHREAD_HTTP_SESSION_TIMEOUT_MS,
+      file.httpSessionTimeoutMs ?? DEFAULT_HTTP_SESSION_TIMEOUT_MS
+    ),
+    retry: {
+      maxRetries: parseNumber(
+        env.SUPERTHREAD_MAX_RETRIES,
+        file.retry?.maxRetries ?? DEFAULT_MAX_RETRIES
+      ),
+      baseDelayMs: parseNumber(
+        env.SUPERTHREAD_RETRY_BASE_DELAY_MS,
+        file.retry?.baseDelayMs ?? DEFAULT_RETRY_BASE_DELAY_MS
+      ),
+      maxDelayMs: parseNumber(
+        env.SUPERTHREAD_RETRY_MAX_DELAY_MS,
+        file.retry?.maxDelayMs ?? DEFAULT_RETRY_MAX_DELAY_MS
+      ),
+    },
+    rateLimit: {
+      requestsPerSecond: parseNumber(
+        env.SUPERTHREAD_RATE_LIMIT_RPS,
+        file.rateLimit?.requestsPerSecond ?? DEFAULT_RATE_LIMIT_RPS
+      ),
+      maxConcurrent: parseNumber(
+        env.SUPERTHREAD_MAX_CONCURRENT_REQUESTS,
+        file.rateLimit?.maxConcurrent ?? DEFAULT_MAX_CONCURRENT_REQUESTS
+      ),
+    },
+    requestTimeoutMs: parseNumber(
+      env.SUPERTHREAD_REQUEST_TIMEOUT_MS,
+      file.requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS
+    ),
+    dryRun: parseBoolean(env.SUPERTHREAD_DRY_RUN, file.dryRun ?? false),
+    verbosity:
+      (env.SUPERTHREAD_VERBOSITY?.trim() || file.verbosity)?.toLowerCase() === "compact"
+        ? "compact"
+        : "full",
+    maxResponseChars: parseNumber(
+      env.SUPERTHREAD_MAX_RESPONSE_CHARS,
+      file.maxResponseChars ?? DEFAULT_MAX_RESPONSE_CHARS
+    ),
+    subscriptionPollMs: parseNumber(
+      env.SUPERTHREAD_SUBSCRIPTION_POLL_MS,
+      file.subscriptionPollMs ?? DEFAULT_SUBSCRIPTION_POLL_MS
+    ),
+    defaultWorkspace: env.SUPERTHREAD_DEFAULT_WORKSPACE?.trim() || file.defaultWorkspace || "",
+    workspaceAliases,
+    lazyTools: parseBoolean(env.SUPERTHREAD_LAZY_TOOLS, file.lazyTools ?? false),
+  }
 }
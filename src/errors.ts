@@ -0,0 +1,193 @@
+/**
+ * @fileoverview Typed errors raised by the Superthread API client.
+ * Each error carries a machine-readable code plus the HTTP status, endpoint, and parsed
+ * response body when available, so tool handlers can report failures in a structured way.
+ */
+
+/**
+ * Machine-readable error codes reported to MCP clients.
+ */
+export type SuperthreadErrorCode =
+  | "api_error"
+  | "not_found"
+  | "auth_error"
+  | "rate_limited"
+  | "validation_error"
+  | "invalid_id"
+  | "network_error"
+  | "timeout"
+
+/**
+ * Context attached to a Superthread error.
+ */
+export interface SuperthreadErrorDetails {
+  /** HTTP status returned by the API */
+  status?: number
+  /** Request that failed, as "METHOD /path" (relative to the API base URL) */
+  endpoint?: string
+  /** Response body, parsed as JSON when possible */
+  body?: unknown
+  /** Underlying error, if any */
+  cause?: unknown
+}
+
+/**
+ * Base class for all errors raised by the Superthread client.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await client.cards.get(workspaceId, cardId)
+ * } catch (error) {
+ *   if (error instanceof NotFoundError) {
+ *     console.error(`${error.endpoint} returned ${error.status}`)
+ *   }
+ * }
+ * ```
+ */
+export class SuperthreadError extends Error {
+  readonly code: SuperthreadErrorCode
+  readonly status?: number
+  readonly endpoint?: string
+  readonly body?: unknown
+
+  constructor(
+    message: string,
+    details: SuperthreadErrorDetails = {},
+    code: SuperthreadErrorCode = "api_error"
+  ) {
+    super(message, details.cause === undefined ? undefined : { cause: details.cause })
+    this.name = "SuperthreadError"
+    this.code = code
+    this.status = details.status
+    this.endpoint = details.endpoint
+    this.body = details.body
+  }
+}
+
+/**
+ * The requested resource does not exist (HTTP 404).
+ */
+export class NotFoundError extends SuperthreadError {
+  constructor(message: string, details: SuperthreadErrorDetails = {}) {
+    super(message, details, "not_found")
+    this.name = "NotFoundError"
+  }
+}
+
+/**
+ * The API key is missing, invalid, or lacks access to the resource (HTTP 401/403).
+ */
+export class AuthError extends SuperthreadError {
+  constructor(message: string, details: SuperthreadErrorDetails = {}) {
+    super(message, details, "auth_error")
+    this.name = "AuthError"
+  }
+}
+
+/**
+ * The API rejected the request because too many requests were made (HTTP 429).
+ */
+export class RateLimitError extends SuperthreadError {
+  /** Delay the API asked for via Retry-After, in milliseconds */
+  readonly retryAfterMs?: number
+
+  constructor(message: string, details: SuperthreadErrorDetails & { retryAfterMs?: number } = {}) {
+    super(message, details, "rate_limited")
+    this.name = "RateLimitError"
+    this.retryAfterMs = details.retryAfterMs
+  }
+}
+
+/**
+ * The request parameters are invalid, either rejected locally or by the API (HTTP 400/422).
+ */
+export class ValidationError extends SuperthreadError {
+  constructor(
+    message: string,
+    details: SuperthreadErrorDetails = {},
+    code: SuperthreadErrorCode = "validation_error"
+  ) {
+    super(message, details, code)
+    this.name = "ValidationError"
+  }
+}
+
+/**
+ * An ID or URL path failed validation before any request was sent.
+ */
+export class PathValidationError extends ValidationError {
+  constructor(message: string, details: SuperthreadErrorDetails = {}) {
+    super(message, details, "invalid_id")
+    this.name = "PathValidationError"
+  }
+}
+
+/**
+ * The request never got a response: connection failure or timeout.
+ */
+export class NetworkError extends SuperthreadError {
+  /** True if the request was aborted by the client's request timeout */
+  readonly timedOut: boolean
+
+  constructor(message: string, details: SuperthreadErrorDetails & { timedOut?: boolean } = {}) {
+    super(message, details, details.timedOut ? "timeout" : "network_error")
+    this.name = "NetworkError"
+    this.timedOut = details.timedOut ?? false
+  }
+}
+
+/**
+ * Parses an API error body as JSON, falling back to the raw text.
+ *
+ * @param text - Response body text
+ * @returns Parsed JSON, the original text, or undefined if empty
+ */
+function parseBody(text: string): unknown {
+  if (!text.trim()) {
+    return undefined
+  }
+  try {
+    return JSON.parse(text) as unknown
+  } catch {
+    return text
+  }
+}
+
+/**
+ * Creates the typed error matching a failed API response's status.
+ *
+ * @param status - HTTP status code
+ * @param endpoint - Request that failed, as "METHOD /path"
+ * @param text - Response body text
+ * @param retryAfterMs - Parsed Retry-After header, for 429 responses
+ * @returns The matching SuperthreadError subclass
+ *
+ * @example
+ * createApiError(404, "GET /ws1/cards/abc", '{"message":"Not found"}')
+ * // NotFoundError { status: 404, endpoint: "GET /ws1/cards/abc", body: { message: "Not found" } }
+ */
+export function createApiError(
+  status: number,
+  endpoint: string,
+  text: string,
+  retryAfterMs?: number
+): SuperthreadError {
+  const message = `Superthread API error (${status}): ${text}`
+  const details = { status, endpoint, body: parseBody(text) }
+
+  switch (status) {
+    case 400:
+    case 422:
+      return new ValidationError(message, details)
+    case 401:
+    case 403:
+      return new AuthError(message, details)
+    case 404:
+      return new NotFoundError(message, details)
+    case 429:
+      return new RateLimitError(message, { ...details, retryAfterMs })
+    default:
+      return new SuperthreadError(message, details)
+  }
+}
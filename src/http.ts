@@ -0,0 +1,483 @@
+/**
+ * @fileoverview HTTP transport for the MCP Superthread Plus server.
+ * Serves Streamable HTTP (and legacy SSE) so one shared instance can be used by
+ * multiple remote MCP clients, e.g. behind an internal gateway.
+ */
+
+import {
+  createServer as createHttpServer,
+  type IncomingMessage,
+  type ServerResponse,
+} from "node:http"
+import { randomUUID } from "node:crypto"
+import type { AddressInfo } from "node:net"
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js"
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js"
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js"
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js"
+
+/**
+ * Endpoint paths served by the HTTP transport.
+ * - /mcp: Streamable HTTP (POST for messages, GET for the notification stream, DELETE to end a session)
+ * - /sse + /messages: Legacy HTTP+SSE transport for older clients
+ */
+const MCP_PATH = "/mcp"
+const SSE_PATH = "/sse"
+const SSE_MESSAGES_PATH = "/messages"
+
+/** Maximum accepted request body size (4 MB) */
+const MAX_BODY_BYTES = 4 * 1024 * 1024
+
+/** Host names of the loopback interface */
+const LOOPBACK_HOSTS = ["localhost", "127.0.0.1", "[::1]"]
+
+/** Bind hosts that listen on every interface */
+const WILDCARD_HOSTS = ["0.0.0.0", "[::]"]
+
+/**
+ * Options for starting the HTTP transport.
+ */
+export interface HttpServerOptions {
+  /** Host interface to bind to */
+  host: string
+  /** Port to listen on (0 picks a free port) */
+  port: number
+  /** Reject sessions that don't send their own API key in the Authorization header */
+  requireApiKey?: boolean
+  /** Host names clients may use besides the bind host (e.g., a gateway's name) */
+  allowedHosts?: string[]
+  /** Close sessions without open requests for this long in milliseconds (0 or unset disables) */
+  sessionTimeoutMs?: number
+}
+
+/**
+ * Handle returned by startHttpServer for inspecting and stopping the server.
+ */
+export interface HttpServerHandle {
+  /** Base URL the server is listening on (e.g., http://127.0.0.1:3000) */
+  url: string
+  /** Number of currently open MCP sessions */
+  sessionCount(): number
+  /** Closes all sessions and stops accepting connections */
+  close(): Promise<void>
+}
+
+/**
+ * An open MCP session: one transport connected to its own McpServer instance.
+ * The SDK allows a server to be connected to a single transport, so every
+ * session gets a fresh server from the factory.
+ */
+interface Session {
+  transport: StreamableHTTPServerTransport | SSEServerTransport
+  server: McpServer
+  /** Superthread Personal Access Token sent by the client when the session was opened */
+  apiKey?: string
+  /** Requests and streams of the session that haven't finished */
+  openRequests: number
+  /** Closes the session once it has been idle for sessionTimeoutMs */
+  idleTimer?: NodeJS.Timeout
+}
+
+/**
+ * DNS rebinding protection settings, in the shape both SDK transports accept.
+ */
+interface DnsRebindingProtection {
+  enableDnsRebindingProtection: true
+  /** Accepted Host headers */
+  allowedHosts: string[]
+  /** Accepted Origin headers (requests without one, i.e. non-browser clients, are accepted) */
+  allowedOrigins: string[]
+}
+
+/**
+ * Incoming request carrying auth info for the SDK transports.
+ * The transports forward `req.auth` to tool handlers as `extra.authInfo`.
+ */
+type AuthenticatedRequest = IncomingMessage & { auth?: AuthInfo }
+
+/**
+ * Error raised while reading a request body.
+ */
+class RequestBodyError extends Error {
+  constructor(
+    message: string,
+    public status: number
+  ) {
+    super(message)
+    this.name = "RequestBodyError"
+  }
+}
+
+/**
+ * Reads and parses a JSON request body.
+ *
+ * @param req - Incoming HTTP request
+ * @returns Parsed JSON body, or undefined for an empty body
+ * @throws {RequestBodyError} If the body is too large or not valid JSON
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = []
+  let size = 0
+  for await (const chunk of req as AsyncIterable<Buffer>) {
+    size += chunk.length
+    if (size > MAX_BODY_BYTES) {
+      throw new RequestBodyError("Request body too large", 413)
+    }
+    chunks.push(chunk)
+  }
+
+  const text = Buffer.concat(chunks).toString("utf8")
+  if (text.trim() === "") {
+    return undefined
+  }
+
+  try {
+    return JSON.parse(text) as unknown
+  } catch {
+    throw new RequestBodyError("Request body is not valid JSON", 400)
+  }
+}
+
+/**
+ * Writes a JSON-RPC error response (used before a transport takes over the request).
+ */
+function sendJsonRpcError(res: ServerResponse, status: number, message: string): void {
+  if (res.headersSent) {
+    return
+  }
+  res.writeHead(status, { "Content-Type": "application/json" })
+  res.end(JSON.stringify({ jsonrpc: "2.0", error: { code: -32000, message }, id: null }))
+}
+
+/**
+ * Returns the value of a single-valued request header.
+ */
+function getHeader(req: IncomingMessage, name: string): string | undefined {
+  const value = req.headers[name]
+  return Array.isArray(value) ? value[0] : value
+}
+
+/**
+ * Extracts a bearer token from the Authorization header.
+ *
+ * @param req - Incoming HTTP request
+ * @returns The token, or undefined if no bearer token was sent
+ */
+function getBearerToken(req: IncomingMessage): string | undefined {
+  const match = /^Bearer\s+(.+)$/i.exec(getHeader(req, "authorization") || "")
+  return match?.[1].trim() || undefined
+}
+
+/**
+ * Attaches a session's API key to a request so tool handlers act as that user.
+ *
+ * A session opened with a token stays bound to it: every request must repeat the same
+ * token, so knowing the session ID alone isn't enough to act as its user. Sessions opened
+ * without a token may not switch to one.
+ *
+ * @param req - Incoming HTTP request for an existing session
+ * @param res - Response used to reject missing or mismatched credentials
+ * @param session - The session the request belongs to
+ * @returns False if the request was rejected
+ */
+function authorizeSessionRequest(
+  req: AuthenticatedRequest,
+  res: ServerResponse,
+  session: Session
+): boolean {
+  const token = getBearerToken(req)
+  if (!token && session.apiKey) {
+    sendJsonRpcError(res, 401, "Unauthorized: Authorization: Bearer <api key> is required")
+    return false
+  }
+  if (token && token !== session.apiKey) {
+    sendJsonRpcError(res, 403, "Authorization does not match the session's API key")
+    return false
+  }
+  if (session.apiKey) {
+    req.auth = toAuthInfo(session.apiKey)
+  }
+  return true
+}
+
+/**
+ * Builds the DNS rebinding protection for a listening server. A web page can make a browser
+ * resolve its own domain to 127.0.0.1 and call the server with the owner's API key, so only
+ * requests addressed to the bind host (the loopback names for loopback and wildcard binds)
+ * or one of `extraHosts` are accepted.
+ *
+ * @param bindHost - Host interface the server is bound to
+ * @param port - Port the server listens on
+ * @param extraHosts - Other host names clients may use
+ * @returns Options for the SDK transports
+ *
+ * @example
+ * dnsRebindingProtection("127.0.0.1", 3000, [])
+ * // { allowedHosts: ["localhost", "localhost:3000", ...],
+ * //   allowedOrigins: ["http://localhost", "https://localhost", "http://localhost:3000", ...] }
+ */
+function dnsRebindingProtection(
+  bindHost: string,
+  port: number,
+  extraHosts: string[]
+): DnsRebindingProtection {
+  // IPv6 addresses are bracketed in Host headers
+  const bracketed = bindHost.includes(":") && !bindHost.startsWith("[")
+  const host = (bracketed ? `[${bindHost}]` : bindHost).toLowerCase()
+  const names = new Set(extraHosts.map((name) => name.toLowerCase()))
+  if (LOOPBACK_HOSTS.includes(host) || WILDCARD_HOSTS.includes(host)) {
+    LOOPBACK_HOSTS.forEach((name) => names.add(name))
+  } else {
+    names.add(host)
+  }
+
+  const allowedHosts = [...names].flatMap((name) => [name, `${name}:${port}`])
+  return {
+    enableDnsRebindingProtection: true,
+    allowedHosts,
+    allowedOrigins: allowedHosts.flatMap((name) => [`http://${name}`, `https://${name}`]),
+  }
+}
+
+/**
+ * Checks the Host and Origin headers of a request against the DNS rebinding protection.
+ *
+ * @returns Error message if the request is rejected, undefined if it is accepted
+ */
+function checkHostAndOrigin(
+  req: IncomingMessage,
+  protection: DnsRebindingProtection
+): string | undefined {
+  const host = getHeader(req, "host")?.toLowerCase()
+  if (!host || !protection.allowedHosts.includes(host)) {
+    return `Invalid Host header: ${host}`
+  }
+  const origin = getHeader(req, "origin")?.toLowerCase()
+  if (origin && !protection.allowedOrigins.includes(origin)) {
+    return `Invalid Origin header: ${origin}`
+  }
+  return undefined
+}
+
+/**
+ * Wraps a Superthread Personal Access Token in the SDK's AuthInfo shape.
+ */
+function toAuthInfo(apiKey: string): AuthInfo {
+  return { token: apiKey, clientId: "superthread", scopes: [] }
+}
+
+/**
+ * Starts the HTTP transport and begins accepting MCP sessions.
+ *
+ * Each session (Streamable HTTP or SSE) is connected to its own McpServer created by
+ * `createServer`, so every client sees the same tool surface with isolated protocol state.
+ * Sessions are tracked by ID and closed when the client disconnects, sends a DELETE, has
+ * been idle for `sessionTimeoutMs`, or the server shuts down.
+ *
+ * Requests must be addressed to the bind host or one of `allowedHosts` (Host header), and
+ * browsers may only call the server from those origins (Origin header), which prevents DNS
+ * rebinding attacks from web pages.
+ *
+ * Multi-tenant deployments: a client may send its own Superthread Personal Access Token as
+ * `Authorization: Bearer <token>` when opening a session. The token is bound to the session
+ * and handed to every tool call, so actions are attributed to that user. Sessions without a
+ * token fall back to SUPERTHREAD_API_KEY unless `requireApiKey` is set.
+ *
+ * @param createServer - Factory that builds a fully registered McpServer for a session's API
+ *   key (undefined for sessions without a token)
+ * @param options - Host and port to listen on, and session settings
+ * @returns Handle with the listening URL and a close() function for graceful shutdown
+ */
+export async function startHttpServer(
+  createServer: (apiKey?: string) => McpServer,
+  options: HttpServerOptions
+): Promise<HttpServerHandle> {
+  const sessions = new Map<string, Session>()
+  // Set once the server listens and its port is known
+  let protection: DnsRebindingProtection
+
+  /**
+   * Counts a request or stream against its session. The idle timer of a session runs only
+   * while none are open; when it expires, the session's server is closed, which also ends
+   * its config reload listener and subscription polling.
+   */
+  function trackRequest(session: Session, res: ServerResponse) {
+    session.openRequests++
+    clearTimeout(session.idleTimer)
+    res.once("close", () => {
+      session.openRequests--
+      if (session.openRequests > 0 || !options.sessionTimeoutMs) {
+        return
+      }
+      session.idleTimer = setTimeout(() => {
+        session.server
+          .close()
+          .catch((error: unknown) => console.error("Error closing idle session:", error))
+      }, options.sessionTimeoutMs)
+      session.idleTimer.unref()
+    })
+  }
+
+  /**
+   * Handles Streamable HTTP requests on /mcp.
+   * New sessions are created on an initialize request without a session ID.
+   */
+  async function handleStreamableRequest(req: AuthenticatedRequest, res: ServerResponse) {
+    const sessionId = getHeader(req, "mcp-session-id")
+    const body = req.method === "POST" ? await readJsonBody(req) : undefined
+
+    if (sessionId) {
+      const session = sessions.get(sessionId)
+      if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+        sendJsonRpcError(res, 404, "Session not found")
+        return
+      }
+      if (authorizeSessionRequest(req, res, session)) {
+        trackRequest(session, res)
+        await session.transport.handleRequest(req, res, body)
+      }
+      return
+    }
+
+    if (req.method !== "POST" || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, "Bad Request: No valid session ID provided")
+      return
+    }
+
+    const apiKey = getBearerToken(req)
+    if (!apiKey && options.requireApiKey) {
+      sendJsonRpcError(res, 401, "Unauthorized: Authorization: Bearer <api key> is required")
+      return
+    }
+    if (apiKey) {
+      req.auth = toAuthInfo(apiKey)
+    }
+
+    const server = createServer(apiKey)
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        const session: Session = { transport, server, apiKey, openRequests: 0 }
+        sessions.set(id, session)
+        trackRequest(session, res)
+      },
+      ...protection,
+    })
+    transport.onclose = () => {
+      const id = transport.sessionId
+      if (id) {
+        clearTimeout(sessions.get(id)?.idleTimer)
+        sessions.delete(id)
+      }
+    }
+
+    await server.connect(transport)
+    await transport.handleRequest(req, res, body)
+
+    // The handshake was rejected, so no session will use this server
+    if (!transport.sessionId) {
+      await server.close()
+    }
+  }
+
+  /**
+   * Opens a legacy SSE stream on /sse. The client posts messages to /messages?sessionId=...
+   */
+  async function handleSseConnect(req: IncomingMessage, res: ServerResponse) {
+    const apiKey = getBearerToken(req)
+    if (!apiKey && options.requireApiKey) {
+      sendJsonRpcError(res, 401, "Unauthorized: Authorization: Bearer <api key> is required")
+      return
+    }
+
+    const server = createServer(apiKey)
+    const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res, protection)
+    const session: Session = { transport, server, apiKey, openRequests: 0 }
+    sessions.set(transport.sessionId, session)
+    trackRequest(session, res)
+    transport.onclose = () => {
+      clearTimeout(session.idleTimer)
+      sessions.delete(transport.sessionId)
+    }
+    await server.connect(transport)
+  }
+
+  /**
+   * Routes a legacy SSE client message to its session.
+   */
+  async function handleSseMessage(req: AuthenticatedRequest, res: ServerResponse, url: URL) {
+    const sessionId = url.searchParams.get("sessionId")
+    const session = sessionId ? sessions.get(sessionId) : undefined
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      sendJsonRpcError(res, 404, "Session not found")
+      return
+    }
+    if (!authorizeSessionRequest(req, res, session)) {
+      return
+    }
+    trackRequest(session, res)
+    const body = await readJsonBody(req)
+    await session.transport.handlePostMessage(req, res, body)
+  }
+
+  const httpServer = createHttpServer((req, res) => {
+    const url = new URL(req.url || "/", "http://localhost")
+
+    const route = async () => {
+      const rejected = checkHostAndOrigin(req, protection)
+      if (rejected) {
+        sendJsonRpcError(res, 403, rejected)
+        return
+      }
+
+      if (url.pathname === MCP_PATH) {
+        await handleStreamableRequest(req, res)
+      } else if (url.pathname === SSE_PATH && req.method === "GET") {
+        await handleSseConnect(req, res)
+      } else if (url.pathname === SSE_MESSAGES_PATH && req.method === "POST") {
+        await handleSseMessage(req, res, url)
+      } else {
+        sendJsonRpcError(res, 404, "Not Found")
+      }
+    }
+
+    route().catch((error: unknown) => {
+      if (error instanceof RequestBodyError) {
+        sendJsonRpcError(res, error.status, error.message)
+        return
+      }
+      console.error("HTTP transport error:", error)
+      sendJsonRpcError(res, 500, "Internal server error")
+    })
+  })
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject)
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off("error", reject)
+      resolve()
+    })
+  })
+
+  const address = httpServer.address() as AddressInfo
+  const host = address.family === "IPv6" ? `[${address.address}]` : address.address
+  protection = dnsRebindingProtection(options.host, address.port, options.allowedHosts ?? [])
+
+  return {
+    url: `http://${host}:${address.port}`,
+    sessionCount: () => sessions.size,
+    close: async () => {
+      // Close sessions first so open SSE streams end and the HTTP server can drain
+      const open = [...sessions.values()]
+      sessions.clear()
+      open.forEach((session) => clearTimeout(session.idleTimer))
+      await Promise.allSettled(open.map((session) => session.server.close()))
+
+      await new Promise<void>((resolve) => {
+        httpServer.close(() => resolve())
+        httpServer.closeAllConnections()
+      })
+    },
+  }
+}
@@ -5,10 +5,12 @@
  * Starts the Model Context Protocol server for Superthread project management operations.
  */
 
+import { ConfigFileError } from "./config-file.js"
 import { startServer } from "./server.js"
 
 // Start the MCP Superthread Plus server
 startServer().catch((error) => {
-  console.error("Fatal error:", error)
+  // Config file errors already explain what to fix, so skip the stack trace
+  console.error("Fatal error:", error instanceof ConfigFileError ? error.message : error)
   process.exit(1)
 })
@@ -0,0 +1,225 @@
+/**
+ * @fileoverview Entity lookups shared by resources, prompts, and completions.
+ * Wraps list endpoints whose responses need unwrapping (e.g., spaces come back as
+ * `projects`, workspaces as the user's `teams`) and reads them defensively, since API
+ * responses are not formally typed.
+ */
+
+import type { SuperthreadClient } from "./api/client.js"
+
+/**
+ * An API entity with an ID and a display name.
+ */
+export interface NamedEntity {
+  id: string
+  /** Title or name shown in the Superthread UI (falls back to the ID) */
+  name: string
+}
+
+type Entity = Record<string, unknown>
+
+/**
+ * Returns the objects in an array value, or an empty array if it isn't one.
+ *
+ * @param value - Value from an API response
+ * @returns Objects in the array
+ */
+export function asEntities(value: unknown): Entity[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is Entity => item !== null && typeof item === "object")
+    : []
+}
+
+/**
+ * Converts API entities to IDs and display names, skipping any without an ID.
+ *
+ * @param entities - API entities
+ * @param nameKeys - Properties to read the name from, in order of preference
+ * @param idKey - Property holding the ID
+ * @returns Named entities
+ */
+function toNamed(entities: Entity[], nameKeys: string[], idKey = "id"): NamedEntity[] {
+  return entities.flatMap((entity) => {
+    const id = entity[idKey]
+    if (typeof id !== "string") {
+      return []
+    }
+    const name = nameKeys
+      .map((key) => entity[key])
+      .find((value): value is string => typeof value === "string" && value !== "")
+    return [{ id, name: name ?? id }]
+  })
+}
+
+/**
+ * Gets the workspaces the user belongs to (called "teams" in the API).
+ * API: GET /users/me
+ *
+ * @param client - API client
+ * @returns Workspaces
+ */
+export async function getWorkspaces(client: SuperthreadClient): Promise<NamedEntity[]> {
+  const account = (await client.user.getMyAccount()) as { user?: Entity; teams?: unknown }
+  return toNamed(asEntities(account.user?.teams ?? account.teams), ["name", "title", "slug"])
+}
+
+/**
+ * Gets the spaces of a workspace.
+ * API: GET /:workspace/projects
+ *
+ * @param client - API client
+ * @param workspaceId - Workspace ID
+ * @returns Spaces
+ */
+export async function getSpaces(
+  client: SuperthreadClient,
+  workspaceId: string
+): Promise<NamedEntity[]> {
+  const response = (await client.spaces.list(workspaceId)) as { projects?: unknown }
+  return toNamed(asEntities(response.projects), ["title"])
+}
+
+/**
+ * Gets the boards of a space.
+ * API: GET /:workspace/boards?project_id=:space
+ *
+ * @param client - API client
+ * @param workspaceId - Workspace ID
+ * @param spaceId - Space ID
+ * @returns Boards
+ */
+export async function getBoards(
+  client: SuperthreadClient,
+  workspaceId: string,
+  spaceId: string
+): Promise<NamedEntity[]> {
+  const response = (await client.boards.list(workspaceId, { project_id: spaceId })) as {
+    boards?: unknown
+  }
+  return toNamed(asEntities(response.boards), ["title"])
+}
+
+/**
+ * Gets the lists (status columns) of a board.
+ * API: GET /:workspace/boards/:board
+ *
+ * @param client - API client
+ * @param workspaceId - Workspace ID
+ * @param boardId - Board ID
+ * @returns Lists, in board order
+ */
+export async function getLists(
+  client: SuperthreadClient,
+  workspaceId: string,
+  boardId: string
+): Promise<NamedEntity[]> {
+  const response = (await client.boards.get(workspaceId, boardId)) as { board?: Entity }
+  return toNamed(asEntities(response.board?.lists), ["title"])
+}
+
+/**
+ * Gets the lists (status columns) of a sprint.
+ * API: GET /:workspace/sprints/:sprint?project_id=:space
+ *
+ * @param client - API client
+ * @param workspaceId - Workspace ID
+ * @param sprintId - Sprint ID
+ * @param spaceId - Space ID of the sprint
+ * @returns Lists, in sprint order
+ */
+export async function getSprintLists(
+  client: SuperthreadClient,
+  workspaceId: string,
+  sprintId: string,
+  spaceId: string
+): Promise<NamedEntity[]> {
+  const response = (await client.sprints.get(workspaceId, sprintId, spaceId)) as {
+    sprint?: Entity
+  }
+  return toNamed(asEntities(response.sprint?.lists), ["title"])
+}
+
+/**
+ * Gets the status lists of the roadmap. The API has no endpoint for them, so they are
+ * collected from the lists the workspace's projects are in.
+ * API: GET /:workspace/epics
+ *
+ * @param client - API client
+ * @param workspaceId - Workspace ID
+ * @returns Roadmap lists that hold at least one project
+ */
+export async function getRoadmapLists(
+  client: SuperthreadClient,
+  workspaceId: string
+): Promise<NamedEntity[]> {
+  const response = (await client.projects.list(workspaceId)) as {
+    epics?: unknown
+    projects?: unknown
+  }
+  const lists = new Map<string, NamedEntity>()
+  for (const project of asEntities(response.epics ?? response.projects)) {
+    const [list] = toNamed([project], ["list_title", "list_name"], "list_id")
+    if (list && !lists.has(list.id)) {
+      lists.set(list.id, list)
+    }
+  }
+  return [...lists.values()]
+}
+
+/**
+ * Gets the sprints of a space.
+ * API: GET /:workspace/projects/:space
+ *
+ * @param client - API client
+ * @param workspaceId - Workspace ID
+ * @param spaceId - Space ID
+ * @returns Sprints
+ */
+export async function getSprints(
+  client: SuperthreadClient,
+  workspaceId: string,
+  spaceId: string
+): Promise<NamedEntity[]> {
+  const response = (await client.sprints.list(workspaceId, spaceId)) as {
+    project?: Entity
+    sprints?: unknown
+  }
+  return toNamed(asEntities(response.project?.sprints ?? response.sprints), ["title"])
+}
+
+/**
+ * Gets the members of a workspace. Members are identified by their user ID.
+ * API: GET /teams/:workspace/members
+ *
+ * @param client - API client
+ * @param workspaceId - Workspace ID
+ * @returns Members, named by display name, name, or email
+ */
+export async function getMembers(
+  client: SuperthreadClient,
+  workspaceId: string
+): Promise<NamedEntity[]> {
+  const response = (await client.user.getMembers(workspaceId)) as {
+    members?: unknown
+    users?: unknown
+  }
+  const members = asEntities(response.members ?? response.users)
+  const idKey = members.some((member) => typeof member.user_id === "string") ? "user_id" : "id"
+  return toNamed(members, ["display_name", "name", "full_name", "username", "email"], idKey)
+}
+
+/**
+ * Gets all tags of a workspace.
+ * API: GET /:workspace/tags?all=true
+ *
+ * @param client - API client
+ * @param workspaceId - Workspace ID
+ * @returns Tags
+ */
+export async function getTags(
+  client: SuperthreadClient,
+  workspaceId: string
+): Promise<NamedEntity[]> {
+  const response = (await client.cards.getTags(workspaceId, { all: true })) as { tags?: unknown }
+  return toNamed(asEntities(response.tags), ["name"])
+}
@@ -0,0 +1,278 @@
+/**
+ * @fileoverview MCP prompt registration.
+ * Provides prompts for common Superthread workflows (sprint planning, standups, backlog
+ * triage, release notes). Each prompt pre-fetches the data it needs, embeds it in the
+ * conversation, and tells the assistant which tools to call next.
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
+import { completable } from "@modelcontextprotocol/sdk/server/completable.js"
+import type { GetPromptResult, PromptMessage } from "@modelcontextprotocol/sdk/types.js"
+import { z } from "zod"
+import { createClient, type SuperthreadClient } from "../api/client.js"
+import type { Completers } from "../completions.js"
+import { ValidationError } from "../errors.js"
+import { readEntity, resourceUri, type ResourceType } from "../resources/uris.js"
+import type { ToolExtra } from "../tools/helpers.js"
+
+/**
+ * Wraps instructions as a user message.
+ */
+function instructions(text: string): PromptMessage {
+  return { role: "user", content: { type: "text", text } }
+}
+
+/**
+ * Fetches a resource and embeds it in a user message.
+ *
+ * @param client - API client
+ * @param workspaceId - Workspace ID
+ * @param type - Resource type
+ * @param id - Entity ID
+ * @returns Message with the resource's JSON
+ */
+async function embedResource(
+  client: SuperthreadClient,
+  workspaceId: string,
+  type: ResourceType,
+  id: string
+): Promise<PromptMessage> {
+  const uri = resourceUri(workspaceId, type, id)
+  return {
+    role: "user",
+    content: {
+      type: "resource",
+      resource: {
+        uri,
+        mimeType: "application/json",
+        text: JSON.stringify(await readEntity(client, uri), null, 2),
+      },
+    },
+  }
+}
+
+/**
+ * Embeds data that isn't exposed as a resource (e.g., a sprint) in a user message.
+ *
+ * @param label - What the data is
+ * @param data - API response
+ * @returns Message with the labeled JSON
+ */
+function embedJson(label: string, data: unknown): PromptMessage {
+  return instructions(`${label}:\n\n\`\`\`json\n${JSON.stringify(data, null, 2)}\n\`\`\``)
+}
+
+/**
+ * Creates an API client for a prompt request.
+ */
+function promptClient(extra: ToolExtra): SuperthreadClient {
+  return createClient(extra.authInfo?.token, extra.signal)
+}
+
+/**
+ * Registers all workflow prompts with the MCP server.
+ *
+ * @param server - The McpServer instance to register prompts with
+ * @param complete - Completers for ID arguments, bound to the server's session
+ */
+export function registerAllPrompts(server: McpServer, complete: Completers): void {
+  // Arguments with IDs complete from partial titles (see completions.ts)
+  const workspaceIdArg = completable(z.string().describe("Workspace ID"), complete.workspaceId)
+  const boardIdArg = completable(z.string().describe("Board ID"), complete.boardId)
+
+  // ============================================================================
+  // PROMPT: sprint_planning
+  // Plan a sprint from a backlog board
+  // ============================================================================
+  server.registerPrompt(
+    "sprint_planning",
+    {
+      title: "Sprint Planning",
+      description:
+        "Plan the next sprint: review the backlog board and propose which cards to commit to, with estimates and owners.",
+      argsSchema: {
+        workspace_id: workspaceIdArg,
+        board_id: completable(z.string().describe("Backlog board ID"), complete.boardId),
+        space_id: completable(
+          z.string().optional().describe("Space ID of the sprint (required with sprint_id)"),
+          complete.spaceId
+        ),
+        sprint_id: completable(
+          z.string().optional().describe("Sprint to plan into"),
+          complete.sprintId
+        ),
+      },
+    },
+    async (args, extra): Promise<GetPromptResult> => {
+      // Validate before fetching anything
+      if (args.sprint_id && !args.space_id) {
+        throw new ValidationError("space_id is required with sprint_id")
+      }
+      const client = promptClient(extra)
+      const messages = [
+        instructions(
+          [
+            "Help me plan the next sprint from the backlog board below.",
+            "",
+            "1. Summarize the backlog: how many cards per list, and which are unestimated, unassigned, or overdue.",
+            "2. Propose a sprint scope: the highest-priority cards that fit a realistic capacity, with a one-line reason for each.",
+            "3. Flag risks: blocked or oversized cards, and cards without an owner.",
+            "",
+            "Ask me to confirm the scope before changing anything. Then use card_update to set estimate, owner_id, and sprint_id (and list_id to move cards into the sprint), and card_add_member to assign people. Use user_get_members to look up user IDs.",
+          ].join("\n")
+        ),
+        await embedResource(client, args.workspace_id, "board", args.board_id),
+      ]
+
+      if (args.sprint_id && args.space_id) {
+        messages.push(
+          embedJson(
+            "Target sprint",
+            await client.sprints.get(args.workspace_id, args.sprint_id, args.space_id)
+          )
+        )
+      }
+
+      return { description: "Sprint planning", messages }
+    }
+  )
+
+  // ============================================================================
+  // PROMPT: standup
+  // Summarize a user's work for a standup
+  // ============================================================================
+  server.registerPrompt(
+    "standup",
+    {
+      title: "Standup Summary",
+      description:
+        "Write a standup update for a user from the cards assigned to them: done, in progress, and blocked.",
+      argsSchema: {
+        workspace_id: workspaceIdArg,
+        user_id: completable(
+          z.string().describe("User to summarize (see user_get_members)"),
+          complete.userId
+        ),
+        board_id: completable(
+          z.string().optional().describe("Only include cards on this board"),
+          complete.boardId
+        ),
+      },
+    },
+    async (args, extra): Promise<GetPromptResult> => {
+      const client = promptClient(extra)
+      const cards = await client.cards.getAssigned(args.workspace_id, {
+        user_id: args.user_id,
+        ...(args.board_id && { board_id: args.board_id }),
+      })
+
+      return {
+        description: "Standup summary",
+        messages: [
+          instructions(
+            [
+              `Write a short standup update for user ${args.user_id} from their assigned cards below.`,
+              "",
+              "Use three sections: **Done** (recently completed), **In progress** (with due dates), and **Blocked** (cards that are blocked or overdue, and why).",
+              "Keep each card to one line with its title, and mention the list it is in.",
+              "",
+              "If you need more detail on a card (checklist progress, comments), call card_get. To post the update, use comment_create on the relevant card or page_create for a standup page.",
+            ].join("\n")
+          ),
+          embedJson(`Cards assigned to ${args.user_id}`, cards),
+        ],
+      }
+    }
+  )
+
+  // ============================================================================
+  // PROMPT: triage
+  // Triage the cards on a backlog board
+  // ============================================================================
+  server.registerPrompt(
+    "triage",
+    {
+      title: "Backlog Triage",
+      description:
+        "Triage a backlog board: find duplicates, stale and unclear cards, and propose priorities, tags, and owners.",
+      argsSchema: {
+        workspace_id: workspaceIdArg,
+        board_id: boardIdArg,
+        tag_id: completable(
+          z.string().optional().describe("Only triage cards with this tag"),
+          complete.tagId
+        ),
+      },
+    },
+    async (args, extra): Promise<GetPromptResult> => {
+      const client = promptClient(extra)
+
+      return {
+        description: "Backlog triage",
+        messages: [
+          instructions(
+            [
+              `Triage the backlog board below${args.tag_id ? ` (only cards tagged ${args.tag_id})` : ""}. For each card that needs attention, propose one action:`,
+              "",
+              "- **Prioritize**: cards without a priority, or whose priority looks wrong",
+              "- **Clarify**: cards whose title or description is too vague to act on",
+              "- **Merge**: likely duplicates (name both cards)",
+              "- **Close**: stale cards that are no longer relevant",
+              "- **Assign**: important cards without an owner",
+              "",
+              "Present the proposals as a table and wait for my approval. Then apply them with card_update (priority, owner_id, list_id, archived), card_add_tags (see card_get_tags for tag IDs), card_add_related with linked_card_type 'duplicates', and comment_create to ask for clarification.",
+            ].join("\n")
+          ),
+          await embedResource(client, args.workspace_id, "board", args.board_id),
+        ],
+      }
+    }
+  )
+
+  // ============================================================================
+  // PROMPT: release_notes
+  // Write release notes from a board's completed cards
+  // ============================================================================
+  server.registerPrompt(
+    "release_notes",
+    {
+      title: "Release Notes",
+      description:
+        "Write release notes from the completed cards on a board, grouped into features, improvements, and fixes.",
+      argsSchema: {
+        workspace_id: workspaceIdArg,
+        board_id: boardIdArg,
+        version: z.string().optional().describe("Release version or name for the heading"),
+        list_id: completable(
+          z
+            .string()
+            .optional()
+            .describe("Completed list to include (default: lists like Done or Released)"),
+          complete.listId
+        ),
+      },
+    },
+    async (args, extra): Promise<GetPromptResult> => {
+      const client = promptClient(extra)
+      const scope = args.list_id
+        ? `Only include cards in list ${args.list_id}.`
+        : "Only include cards in completed lists (such as Done, Released, or Shipped)."
+
+      return {
+        description: "Release notes",
+        messages: [
+          instructions(
+            [
+              `Write release notes${args.version ? ` for ${args.version}` : ""} from the board below.`,
+              "",
+              `${scope} Group them under **New features**, **Improvements**, and **Bug fixes**, using tags and titles as hints. Write each entry for end users: one sentence on what changed and why it matters, without internal jargon or card IDs.`,
+              "",
+              "If a card's title isn't enough to describe the change, call card_get for its description. To publish the notes, use page_create.",
+            ].join("\n")
+          ),
+          await embedResource(client, args.workspace_id, "board", args.board_id),
+        ],
+      }
+    }
+  )
+}
@@ -0,0 +1,356 @@
+/**
+ * @fileoverview Name-based ID resolution for tool arguments.
+ * Lets tools accept titles in place of IDs (e.g., `list: "In Progress"`, `owner: "Sarah Chen"`,
+ * `tags: ["bug"]`) so the assistant doesn't have to look IDs up first. Names are matched
+ * case-insensitively, then by prefix, substring, and finally with a small typo tolerance; a
+ * name that matches several entities is rejected with the candidates listed.
+ */
+
+import type { SuperthreadClient } from "./api/client.js"
+import { ValidationError } from "./errors.js"
+import {
+  getBoards,
+  getLists,
+  getMembers,
+  getRoadmapLists,
+  getSpaces,
+  getSprintLists,
+  getTags,
+  type NamedEntity,
+} from "./lookups.js"
+
+/**
+ * Maximum number of available names listed when nothing matches.
+ */
+const MAX_LISTED_NAMES = 20
+
+/**
+ * Where to look up a list by name, as given in a tool's arguments.
+ */
+export interface ListContext {
+  board_id?: string
+  sprint_id?: string
+  project_id?: string
+  /** Card whose board or sprint holds the list (used when neither is given) */
+  card_id?: string
+}
+
+/**
+ * Card fields that can be given by name instead of ID (card_create, card_update).
+ * IDs take precedence when both are given.
+ */
+export interface CardNames extends ListContext {
+  workspace_id: string
+  board?: string
+  list_id?: string
+  list?: string
+  owner_id?: string
+  owner?: string
+}
+
+/**
+ * Lowercases a name and collapses punctuation and whitespace, so "in-progress" matches
+ * "In Progress".
+ */
+function normalize(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim()
+}
+
+/**
+ * Counts the single-character edits (insertions, deletions, substitutions, and swaps of
+ * adjacent characters) needed to turn one string into another.
+ */
+function editDistance(a: string, b: string): number {
+  const rows = [Array.from({ length: b.length + 1 }, (_, j) => j)]
+  for (let i = 1; i <= a.length; i++) {
+    rows[i] = [i]
+    for (let j = 1; j <= b.length; j++) {
+      rows[i][j] = Math.min(
+        rows[i - 1][j] + 1,
+        rows[i][j - 1] + 1,
+        rows[i - 1][j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      )
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1)
+      }
+    }
+  }
+  return rows[a.length][b.length]
+}
+
+/**
+ * Resolves a name (or ID) to the ID of the entity it refers to.
+ *
+ * Matching tries each rule in turn and stops at the first that matches anything: exact ID,
+ * exact name (ignoring case and punctuation), name prefix, name substring, and names within
+ * one typo per four characters.
+ *
+ * @param entities - Candidate entities
+ * @param name - Name or ID given by the user
+ * @param kind - What the entities are, for error messages (e.g., "list")
+ * @returns ID of the matching entity
+ * @throws {ValidationError} If no entity or more than one entity matches
+ *
+ * @example
+ * resolveName([{ id: "l1", name: "In Progress" }, { id: "l2", name: "Done" }], "in progress", "list")
+ * // "l1"
+ */
+export function resolveName(entities: NamedEntity[], name: string, kind: string): string {
+  const byId = entities.find((entity) => entity.id === name)
+  if (byId) {
+    return byId.id
+  }
+
+  const query = normalize(name)
+  if (!query) {
+    throw new ValidationError(`${kind} name must not be empty`)
+  }
+
+  const maxTypos = Math.floor(query.length / 4)
+  const rules: Array<(candidate: string) => boolean> = [
+    (candidate) => candidate === query,
+    (candidate) => candidate.startsWith(query),
+    (candidate) => candidate.includes(query),
+    (candidate) => maxTypos > 0 && editDistance(candidate, query) <= maxTypos,
+  ]
+
+  for (const matches of rules) {
+    const candidates = entities
+      .filter((entity) => matches(normalize(entity.name)))
+      .filter((entity, index, all) => all.findIndex((other) => other.id === entity.id) === index)
+
+    if (candidates.length === 1) {
+      return candidates[0].id
+    }
+    if (candidates.length > 1) {
+      throw new ValidationError(
+        `${kind} "${name}" is ambiguous: it matches ${candidates
+          .map((candidate) => `"${candidate.name}" (${candidate.id})`)
+          .join(", ")}. Use the ID or a more specific name.`,
+        { body: { candidates } }
+      )
+    }
+  }
+
+  const available = entities.slice(0, MAX_LISTED_NAMES).map((entity) => `"${entity.name}"`)
+  throw new ValidationError(
+    `No ${kind} matches "${name}".${
+      available.length > 0
+        ? ` Available: ${available.join(", ")}${entities.length > available.length ? ", ..." : ""}`
+        : ""
+    }`
+  )
+}
+
+/**
+ * Resolves names to IDs for one tool call.
+ *
+ * Lookups are cached for the lifetime of the resolver, so a batch that names the same list
+ * or member many times fetches it once. Create one resolver per tool call so names always
+ * resolve against current data.
+ *
+ * @example
+ * ```typescript
+ * const names = new NameResolver(client)
+ * const listId = await names.list(workspaceId, "In Progress", { board_id: boardId })
+ * const ownerId = await names.member(workspaceId, "Sarah Chen")
+ * ```
+ */
+export class NameResolver {
+  private lookups = new Map<string, Promise<NamedEntity[]>>()
+
+  constructor(private client: SuperthreadClient) {}
+
+  /**
+   * Resolves a board title, searching the given space or every space in the workspace.
+   *
+   * @param workspaceId - Workspace ID
+   * @param name - Board title or ID
+   * @param spaceId - Space to search (searching all spaces takes one request per space)
+   * @returns Board ID
+   * @throws {ValidationError} If no board or more than one board matches
+   */
+  async board(workspaceId: string, name: string, spaceId?: string): Promise<string> {
+    const boards = spaceId
+      ? this.lookup(`boards:${workspaceId}:${spaceId}`, () =>
+          getBoards(this.client, workspaceId, spaceId)
+        )
+      : this.lookup(`boards:${workspaceId}`, async () => {
+          const all: NamedEntity[] = []
+          for (const space of await getSpaces(this.client, workspaceId)) {
+            all.push(...(await getBoards(this.client, workspaceId, space.id)))
+          }
+          return all
+        })
+    return resolveName(await boards, name, "board")
+  }
+
+  /**
+   * Returns the board ID from a tool's arguments, resolving the board's title if no ID is
+   * given.
+   *
+   * @param args - Arguments with board_id or board (a title), and optionally the space
+   *   (project_id) to search
+   * @returns Board ID
+   * @throws {ValidationError} If neither is given or the title can't be resolved
+   */
+  async boardId(args: {
+    workspace_id: string
+    board_id?: string
+    board?: string
+    project_id?: string
+  }): Promise<string> {
+    if (args.board_id) {
+      return args.board_id
+    }
+    if (!args.board) {
+      throw new ValidationError("Either board_id or board must be provided")
+    }
+    return this.board(args.workspace_id, args.board, args.project_id)
+  }
+
+  /**
+   * Resolves a list title on a board or sprint. If neither is given, the list is looked up
+   * on the board or sprint of the card.
+   *
+   * @param workspaceId - Workspace ID
+   * @param name - List title or ID
+   * @param context - Board, sprint (with its space), or card holding the list
+   * @returns List ID
+   * @throws {ValidationError} If the context doesn't identify a board or sprint, or if no
+   *   list or more than one list matches
+   */
+  async list(workspaceId: string, name: string, context: ListContext): Promise<string> {
+    const {
+      board_id: boardId,
+      sprint_id: sprintId,
+      project_id: spaceId,
+    } = context.board_id || (context.sprint_id && context.project_id) || !context.card_id
+      ? context
+      : await this.cardLocation(workspaceId, context.card_id)
+
+    if (boardId) {
+      const lists = await this.lookup(`lists:${workspaceId}:${boardId}`, () =>
+        getLists(this.client, workspaceId, boardId)
+      )
+      return resolveName(lists, name, "list")
+    }
+    if (sprintId && spaceId) {
+      const lists = await this.lookup(`sprint-lists:${workspaceId}:${sprintId}`, () =>
+        getSprintLists(this.client, workspaceId, sprintId, spaceId)
+      )
+      return resolveName(lists, name, "list")
+    }
+    throw new ValidationError(
+      `Cannot resolve list "${name}" without a board: provide board_id (or board), or sprint_id with project_id`
+    )
+  }
+
+  /**
+   * Resolves a roadmap status list by title. Only lists that hold at least one project can
+   * be found (see getRoadmapLists).
+   *
+   * @param workspaceId - Workspace ID
+   * @param name - List title or ID
+   * @returns List ID
+   * @throws {ValidationError} If no list or more than one list matches
+   */
+  async roadmapList(workspaceId: string, name: string): Promise<string> {
+    const lists = await this.lookup(`roadmap-lists:${workspaceId}`, () =>
+      getRoadmapLists(this.client, workspaceId)
+    )
+    return resolveName(lists, name, "list")
+  }
+
+  /**
+   * Resolves a workspace member by name (their display name, or email if they have none).
+   *
+   * @param workspaceId - Workspace ID
+   * @param name - Member name or user ID
+   * @returns User ID
+   * @throws {ValidationError} If no member or more than one member matches
+   */
+  async member(workspaceId: string, name: string): Promise<string> {
+    const members = await this.lookup(`members:${workspaceId}`, () =>
+      getMembers(this.client, workspaceId)
+    )
+    return resolveName(members, name, "member")
+  }
+
+  /**
+   * Returns the user ID from a tool's arguments, resolving the user's name if no ID is given.
+   *
+   * @param args - Arguments with user_id or user (a name or email)
+   * @returns User ID
+   * @throws {ValidationError} If neither is given or the name can't be resolved
+   */
+  async user(args: { workspace_id: string; user_id?: string; user?: string }): Promise<string> {
+    if (args.user_id) {
+      return args.user_id
+    }
+    if (!args.user) {
+      throw new ValidationError("Either user_id or user must be provided")
+    }
+    return this.member(args.workspace_id, args.user)
+  }
+
+  /**
+   * Resolves tag names.
+   *
+   * @param workspaceId - Workspace ID
+   * @param names - Tag names or IDs
+   * @returns Tag IDs, in the same order
+   * @throws {ValidationError} If any name matches no tag or more than one tag
+   */
+  async tags(workspaceId: string, names: string[]): Promise<string[]> {
+    const tags = await this.lookup(`tags:${workspaceId}`, () => getTags(this.client, workspaceId))
+    return names.map((name) => resolveName(tags, name, "tag"))
+  }
+
+  /**
+   * Resolves a card's board, list, and owner names to board_id, list_id, and owner_id.
+   * A list name is looked up on the resolved board, the sprint, or the card's current board.
+   *
+   * @param card - Card fields from a tool's arguments
+   * @returns The card with IDs filled in
+   * @throws {ValidationError} If a name can't be resolved
+   */
+  async card<T extends CardNames>(card: T): Promise<T> {
+    const workspaceId = card.workspace_id
+    const boardId =
+      card.board_id ??
+      (card.board ? await this.board(workspaceId, card.board, card.project_id) : undefined)
+    const listId =
+      card.list_id ??
+      (card.list
+        ? await this.list(workspaceId, card.list, { ...card, board_id: boardId })
+        : undefined)
+    const ownerId =
+      card.owner_id ?? (card.owner ? await this.member(workspaceId, card.owner) : undefined)
+
+    return { ...card, board_id: boardId, list_id: listId, owner_id: ownerId }
+  }
+
+  /**
+   * Gets the board or sprint a card is on.
+   */
+  private async cardLocation(workspaceId: string, cardId: string): Promise<ListContext> {
+    const { card } = (await this.client.cards.get(workspaceId, cardId)) as { card?: ListContext }
+    return card ?? {}
+  }
+
+  /**
+   * Runs a lookup once per key.
+   */
+  private lookup(key: string, fetch: () => Promise<NamedEntity[]>): Promise<NamedEntity[]> {
+    let entities = this.lookups.get(key)
+    if (!entities) {
+      entities = fetch()
+      this.lookups.set(key, entities)
+    }
+    return entities
+  }
+}
@@ -0,0 +1,270 @@
+/**
+ * @fileoverview MCP resource registration.
+ * Exposes cards, boards, pages, and spaces as resources so clients can attach Superthread
+ * entities as context without a tool round-trip.
+ * See uris.ts for the URI format.
+ */
+
+import {
+  McpServer,
+  ResourceTemplate,
+  type RegisteredResourceTemplate,
+} from "@modelcontextprotocol/sdk/server/mcp.js"
+import {
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  type ListResourcesResult,
+  type ReadResourceResult,
+} from "@modelcontextprotocol/sdk/types.js"
+import { createClient } from "../api/client.js"
+import type { Completers } from "../completions.js"
+import { config, type ToolDomain } from "../config.js"
+import { ValidationError } from "../errors.js"
+import { getBoards, getSpaces, getWorkspaces } from "../lookups.js"
+import type { ToolExtra } from "../tools/helpers.js"
+import { isDomainEnabled, isToolAllowed } from "../tools/index.js"
+import { defaultWorkspaceId } from "../workspaces.js"
+import { ResourceSubscriptions } from "./subscriptions.js"
+import {
+  RESOURCE_SCHEME,
+  parseResourceUri,
+  readEntity,
+  resourceUri,
+  type ResourceType,
+} from "./uris.js"
+
+/**
+ * Wraps an API response as the contents of a resource.
+ */
+function jsonContents(uri: URL, response: unknown): ReadResourceResult {
+  return {
+    contents: [
+      { uri: uri.href, mimeType: "application/json", text: JSON.stringify(response, null, 2) },
+    ],
+  }
+}
+
+/**
+ * Lists the spaces of every workspace the user belongs to.
+ */
+async function listSpaces(extra: ToolExtra): Promise<ListResourcesResult> {
+  const client = createClient(extra.authInfo?.token, extra.signal)
+  const resources: ListResourcesResult["resources"] = []
+
+  for (const workspace of await getWorkspaces(client)) {
+    for (const space of await getSpaces(client, workspace.id)) {
+      resources.push({
+        uri: resourceUri(workspace.id, "space", space.id),
+        name: space.name,
+        mimeType: "application/json",
+      })
+    }
+  }
+
+  return { resources }
+}
+
+/**
+ * Lists the boards of every space in one workspace: the default workspace
+ * (SUPERTHREAD_DEFAULT_WORKSPACE), or the user's only workspace. The API only lists boards
+ * per space, so this makes one request per space; crawling every workspace on each
+ * resources/list would be too slow for users in several workspaces, who get no boards listed
+ * unless they set a default workspace.
+ */
+async function listBoards(extra: ToolExtra): Promise<ListResourcesResult> {
+  const client = createClient(extra.authInfo?.token, extra.signal)
+  const resources: ListResourcesResult["resources"] = []
+
+  let workspaceId = defaultWorkspaceId()
+  if (!workspaceId) {
+    const workspaces = await getWorkspaces(client)
+    workspaceId = workspaces.length === 1 ? workspaces[0].id : undefined
+  }
+  if (!workspaceId) {
+    return { resources }
+  }
+
+  for (const space of await getSpaces(client, workspaceId)) {
+    for (const board of await getBoards(client, workspaceId, space.id)) {
+      resources.push({
+        uri: resourceUri(workspaceId, "board", board.id),
+        name: board.name,
+        description: `Board in space "${space.name}"`,
+        mimeType: "application/json",
+      })
+    }
+  }
+
+  return { resources }
+}
+
+/**
+ * A resource template for one entity type.
+ */
+interface EntityResource {
+  type: ResourceType
+  /** Title and description shown to clients */
+  metadata: { title: string; description: string }
+  /** Domain and read tool whose filters also apply to the resource */
+  access: [ToolDomain, string]
+  /** Enumerates resources of this type, or undefined if there are too many */
+  list?: (extra: ToolExtra) => Promise<ListResourcesResult>
+  /** Completer for the `{id}` variable, if entities of this type can be looked up */
+  completeId?: keyof Completers
+}
+
+/**
+ * The resource templates, in registration order.
+ */
+const ENTITY_RESOURCES: EntityResource[] = [
+  {
+    type: "card",
+    metadata: {
+      title: "Superthread Card",
+      description: "A card with its details, checklists, and relations",
+    },
+    access: ["cards", "card_get"],
+  },
+  {
+    type: "board",
+    metadata: { title: "Superthread Board", description: "A board with its lists and cards" },
+    access: ["boards", "board_get"],
+    list: listBoards,
+    completeId: "boardId",
+  },
+  {
+    type: "page",
+    metadata: { title: "Superthread Page", description: "A documentation page with its content" },
+    access: ["pages", "page_get"],
+  },
+  {
+    type: "space",
+    metadata: {
+      title: "Superthread Space",
+      description: "A space with its boards, sprints, and members",
+    },
+    access: ["spaces", "space_get"],
+    list: listSpaces,
+    completeId: "spaceId",
+  },
+]
+
+/**
+ * Checks if resources of a type are exposed. Resources show the same data as the type's
+ * read tool, so they follow its domain and tool filters (SUPERTHREAD_ENABLED_TOOLS,
+ * SUPERTHREAD_ALLOWED_TOOLS, SUPERTHREAD_DENIED_TOOLS).
+ *
+ * @param type - Entity type
+ * @returns True if resources of this type are exposed
+ */
+export function isResourceTypeAllowed(type: ResourceType): boolean {
+  const resource = ENTITY_RESOURCES.find((candidate) => candidate.type === type)
+  if (!resource) {
+    return false
+  }
+  const [domain, tool] = resource.access
+  return isDomainEnabled(domain) && isToolAllowed(tool, true)
+}
+
+/**
+ * Registers the resource template for one entity type.
+ *
+ * @param server - The McpServer instance to register the resource with
+ * @param resource - Resource template to register
+ * @param complete - Completers for the template variables
+ * @returns Handle for removing the template
+ */
+function registerEntityResource(
+  server: McpServer,
+  { type, metadata, list, completeId }: EntityResource,
+  complete: Completers
+): RegisteredResourceTemplate {
+  return server.registerResource(
+    type,
+    new ResourceTemplate(`${RESOURCE_SCHEME}://{workspace}/${type}/{id}`, {
+      list,
+      complete: {
+        workspace: complete.workspaceId,
+        ...(completeId && { id: complete[completeId] }),
+      },
+    }),
+    { ...metadata, mimeType: "application/json" },
+    async (uri, _variables, extra) => {
+      const client = createClient(extra.authInfo?.token, extra.signal)
+      return jsonContents(uri, await readEntity(client, uri.href))
+    }
+  )
+}
+
+/**
+ * Handles resources/subscribe and resources/unsubscribe by polling subscribed resources.
+ * Subscriptions end when the session closes.
+ *
+ * @param server - The McpServer instance to enable subscriptions on
+ * @returns The session's subscriptions
+ */
+function registerSubscriptions(server: McpServer): ResourceSubscriptions {
+  const subscriptions = new ResourceSubscriptions(server.server, config.subscriptionPollMs)
+
+  server.server.registerCapabilities({ resources: { subscribe: true } })
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request, extra) => {
+    const { type } = parseResourceUri(request.params.uri)
+    if (!isResourceTypeAllowed(type)) {
+      throw new ValidationError(
+        `Resources of type "${type}" are disabled in the server configuration`
+      )
+    }
+    await subscriptions.subscribe(request.params.uri, extra.authInfo?.token)
+    return {}
+  })
+  server.server.setRequestHandler(UnsubscribeRequestSchema, (request) => {
+    subscriptions.unsubscribe(request.params.uri)
+    return {}
+  })
+
+  const onclose = server.server.onclose
+  server.server.onclose = () => {
+    subscriptions.close()
+    onclose?.()
+  }
+  return subscriptions
+}
+
+/**
+ * Registers all Superthread resources with the MCP server.
+ * Resource types whose read tool is hidden by the domain or tool filters are removed (see
+ * isResourceTypeAllowed). Clients can subscribe to resources unless
+ * SUPERTHREAD_SUBSCRIPTION_POLL_MS is 0.
+ *
+ * @param server - The McpServer instance to register resources with
+ * @param complete - Completers for template variables, bound to the server's session
+ * @returns Function that re-applies the filters after the configuration changes, adding and
+ *   removing resource templates (the server then notifies clients with
+ *   resources/list_changed) and cancelling subscriptions to resources of removed types
+ */
+export function registerAllResources(server: McpServer, complete: Completers): () => void {
+  // Every template is registered first so the SDK installs its resource handlers before the
+  // client connects, even if the filters remove all of them until a later reload
+  const templates = new Map<ResourceType, RegisteredResourceTemplate>()
+  for (const resource of ENTITY_RESOURCES) {
+    templates.set(resource.type, registerEntityResource(server, resource, complete))
+  }
+
+  const subscriptions = config.subscriptionPollMs > 0 ? registerSubscriptions(server) : undefined
+
+  const applyFilters = () => {
+    for (const resource of ENTITY_RESOURCES) {
+      const template = templates.get(resource.type)
+      const allowed = isResourceTypeAllowed(resource.type)
+      if (allowed && !template) {
+        templates.set(resource.type, registerEntityResource(server, resource, complete))
+      } else if (!allowed && template) {
+        template.remove()
+        templates.delete(resource.type)
+      }
+    }
+    subscriptions?.retain((uri) => isResourceTypeAllowed(parseResourceUri(uri).type))
+  }
+  applyFilters()
+  return applyFilters
+}
@@ -0,0 +1,156 @@
+/**
+ * @fileoverview Resource subscriptions for MCP clients.
+ * The Superthread API has no change feed, so subscribed resources are polled on an interval
+ * and clients are sent notifications/resources/updated when an entity's JSON changes.
+ */
+
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js"
+import { createClient } from "../api/client.js"
+import { NotFoundError } from "../errors.js"
+import { readEntity } from "./uris.js"
+
+/**
+ * State of one subscribed resource.
+ */
+interface Subscription {
+  /** Session API key used to poll the resource (defaults to SUPERTHREAD_API_KEY) */
+  apiKey?: string
+  /** JSON of the entity when it was last checked */
+  snapshot: string
+}
+
+/**
+ * Tracks a session's resource subscriptions and polls them for changes.
+ *
+ * One instance exists per MCP server (i.e., per client session). A single timer polls every
+ * subscribed resource in turn; it runs only while there are subscriptions, and a poll is
+ * skipped if the previous one is still in progress.
+ *
+ * @example
+ * ```typescript
+ * const subscriptions = new ResourceSubscriptions(server.server, 30000)
+ * await subscriptions.subscribe("superthread://ws123/card/abc")
+ * // The client receives notifications/resources/updated when the card changes
+ * ```
+ */
+export class ResourceSubscriptions {
+  private subscriptions = new Map<string, Subscription>()
+  private timer?: NodeJS.Timeout
+  private polling = false
+
+  constructor(
+    private server: Server,
+    private intervalMs: number
+  ) {}
+
+  /**
+   * Subscribes to a resource, recording its current state as the baseline.
+   *
+   * @param uri - Resource URI
+   * @param apiKey - Session API key to poll with
+   * @throws {ValidationError} If the URI isn't a Superthread resource URI
+   * @throws {SuperthreadError} If the resource can't be read
+   */
+  async subscribe(uri: string, apiKey?: string): Promise<void> {
+    const snapshot = JSON.stringify(await readEntity(createClient(apiKey), uri))
+    this.subscriptions.set(uri, { apiKey, snapshot })
+
+    if (!this.timer) {
+      this.timer = setInterval(() => {
+        this.poll().catch((error: unknown) => console.error("Failed to poll resources:", error))
+      }, this.intervalMs)
+      // Don't keep the process alive just to poll
+      this.timer.unref()
+    }
+  }
+
+  /**
+   * Unsubscribes from a resource. Unknown URIs are ignored.
+   *
+   * @param uri - Resource URI
+   */
+  unsubscribe(uri: string): void {
+    this.subscriptions.delete(uri)
+    if (this.subscriptions.size === 0) {
+      this.stop()
+    }
+  }
+
+  /**
+   * Unsubscribes from every resource that fails a check, e.g. resources whose type a
+   * configuration reload has disabled.
+   *
+   * @param keep - Returns true for resource URIs that stay subscribed
+   */
+  retain(keep: (uri: string) => boolean): void {
+    for (const uri of [...this.subscriptions.keys()]) {
+      if (!keep(uri)) {
+        this.unsubscribe(uri)
+      }
+    }
+  }
+
+  /**
+   * Drops all subscriptions and stops polling (called when the session closes).
+   */
+  close(): void {
+    this.subscriptions.clear()
+    this.stop()
+  }
+
+  /**
+   * Checks every subscribed resource once and notifies the client of changes.
+   *
+   * A resource that no longer exists gets a final notification (reading it then reports the
+   * error) and is unsubscribed. Other errors are logged and the resource is checked again on
+   * the next poll. Notifications that can't be sent (e.g., the session just closed) are
+   * logged too, so one failure doesn't stop the other resources from being checked.
+   */
+  async poll(): Promise<void> {
+    if (this.polling) {
+      return
+    }
+    this.polling = true
+
+    try {
+      for (const [uri, subscription] of this.subscriptions) {
+        try {
+          const snapshot = JSON.stringify(await readEntity(createClient(subscription.apiKey), uri))
+          // The subscription may have been removed while the request was in flight
+          if (snapshot !== subscription.snapshot && this.subscriptions.has(uri)) {
+            subscription.snapshot = snapshot
+            await this.notify(uri)
+          }
+        } catch (error) {
+          if (error instanceof NotFoundError) {
+            this.unsubscribe(uri)
+            await this.notify(uri)
+          } else {
+            console.error(`Failed to poll subscribed resource ${uri}:`, error)
+          }
+        }
+      }
+    } finally {
+      this.polling = false
+    }
+  }
+
+  /**
+   * Sends notifications/resources/updated for a resource, logging failures.
+   */
+  private async notify(uri: string): Promise<void> {
+    try {
+      await this.server.sendResourceUpdated({ uri })
+    } catch (error) {
+      console.error(`Failed to notify the client that ${uri} changed:`, error)
+    }
+  }
+
+  /**
+   * Stops the polling timer.
+   */
+  private stop(): void {
+    clearInterval(this.timer)
+    this.timer = undefined
+  }
+}
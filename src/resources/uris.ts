@@ -0,0 +1,89 @@
+/**
+ * @fileoverview Superthread resource URIs.
+ * Resource URIs have the form `superthread://{workspace}/{type}/{id}`, for example
+ * `superthread://ws123/card/abc`.
+ */
+
+import type { SuperthreadClient } from "../api/client.js"
+import { ValidationError } from "../errors.js"
+
+/**
+ * URI scheme of Superthread resources.
+ */
+export const RESOURCE_SCHEME = "superthread"
+
+/**
+ * Entity types exposed as resources.
+ */
+export const RESOURCE_TYPES = ["card", "board", "page", "space"] as const
+
+/**
+ * Type representing a resource entity type.
+ */
+export type ResourceType = (typeof RESOURCE_TYPES)[number]
+
+/**
+ * Fetches the entity behind each resource type.
+ */
+const ENTITY_GETTERS: Record<
+  ResourceType,
+  (client: SuperthreadClient, workspaceId: string, id: string) => Promise<unknown>
+> = {
+  card: (client, workspaceId, id) => client.cards.get(workspaceId, id),
+  board: (client, workspaceId, id) => client.boards.get(workspaceId, id),
+  page: (client, workspaceId, id) => client.pages.get(workspaceId, id),
+  space: (client, workspaceId, id) => client.spaces.get(workspaceId, id),
+}
+
+/**
+ * Builds the URI of a Superthread resource.
+ *
+ * @param workspaceId - Workspace ID
+ * @param type - Entity type
+ * @param id - Entity ID
+ * @returns Resource URI
+ *
+ * @example
+ * resourceUri("ws123", "card", "abc") // "superthread://ws123/card/abc"
+ */
+export function resourceUri(workspaceId: string, type: ResourceType, id: string): string {
+  return `${RESOURCE_SCHEME}://${workspaceId}/${type}/${id}`
+}
+
+/**
+ * Parses a Superthread resource URI.
+ *
+ * @param uri - Resource URI
+ * @returns Workspace, entity type, and ID
+ * @throws {ValidationError} If the URI isn't a Superthread resource URI
+ *
+ * @example
+ * parseResourceUri("superthread://ws123/card/abc") // { workspaceId: "ws123", type: "card", id: "abc" }
+ */
+export function parseResourceUri(uri: string): {
+  workspaceId: string
+  type: ResourceType
+  id: string
+} {
+  const match = new RegExp(`^${RESOURCE_SCHEME}://([^/]+)/([^/]+)/([^/?#]+)$`).exec(uri)
+  const type = match?.[2] as ResourceType | undefined
+  if (!match || !type || !RESOURCE_TYPES.includes(type)) {
+    throw new ValidationError(
+      `Unsupported resource URI "${uri}". Expected ${RESOURCE_SCHEME}://{workspace}/{${RESOURCE_TYPES.join("|")}}/{id}`
+    )
+  }
+  return { workspaceId: decodeURIComponent(match[1]), type, id: decodeURIComponent(match[3]) }
+}
+
+/**
+ * Fetches the entity behind a resource URI.
+ *
+ * @param client - API client
+ * @param uri - Resource URI
+ * @returns API response for the entity
+ * @throws {ValidationError} If the URI isn't a Superthread resource URI
+ */
+export async function readEntity(client: SuperthreadClient, uri: string): Promise<unknown> {
+  const { workspaceId, type, id } = parseResourceUri(uri)
+  return ENTITY_GETTERS[type](client, workspaceId, id)
+}
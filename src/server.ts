@@ -6,31 +6,117 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js"
 import { registerAllTools } from "./tools/index.js"
+import { registerAllResources } from "./resources/index.js"
+import { registerAllPrompts } from "./prompts/index.js"
+import { createCompleters } from "./completions.js"
+import { startHttpServer } from "./http.js"
+import { AVAILABLE_TRANSPORTS, config } from "./config.js"
+import { applyConfigFile, onConfigReload, watchConfigFile } from "./config-file.js"
 import packageJson from "../package.json" with { type: "json" }
 
 /**
- * MCP Server instance for Superthread project management.
+ * Creates an MCP Server instance for Superthread project management.
  * Handles cards, boards, spaces, projects, pages, notes, comments, and search.
+ *
+ * A new instance is created per connection: the stdio transport uses one, while the
+ * HTTP transport creates one for every client session.
+ *
+ * @param apiKey - API key of the HTTP session the server is for, used to complete prompt
+ *   and resource arguments (tool calls get it from each request). Defaults to
+ *   SUPERTHREAD_API_KEY.
+ * @returns McpServer with all enabled tools, resources, and prompts registered
  */
-const mcpServer = new McpServer({
-  name: "mcp-superthread-plus",
-  version: packageJson.version,
-})
+export function createServer(apiKey?: string): McpServer {
+  const mcpServer = new McpServer(
+    {
+      name: "mcp-superthread-plus",
+      version: packageJson.version,
+    },
+    // Coalesce the notifications sent for each tool enabled or disabled by a reload
+    { debouncedNotificationMethods: ["notifications/tools/list_changed"] }
+  )
+
+  // Register all tools with the server
+  const refreshTools = registerAllTools(mcpServer)
+
+  // Complete prompt and resource arguments with the session's API key
+  const complete = createCompleters(apiKey)
+
+  // Register card, board, page, and space resources
+  const refreshResources = registerAllResources(mcpServer, complete)
+
+  // Re-apply tool and resource filters when the config file changes
+  const stopRefreshing = onConfigReload(() => {
+    refreshTools()
+    refreshResources()
+  })
+  const onclose = mcpServer.server.onclose
+  mcpServer.server.onclose = () => {
+    stopRefreshing()
+    onclose?.()
+  }
+
+  // Register workflow prompts (sprint planning, standup, triage, release notes)
+  registerAllPrompts(mcpServer, complete)
 
-// Register all tools with the server
-registerAllTools(mcpServer)
+  return mcpServer
+}
 
 /**
- * Starts the MCP Superthread Plus server and connects it to stdio transport.
- * The server will handle tool requests for Superthread operations via stdin/stdout.
+ * Starts the MCP Superthread Plus server on the configured transport.
+ *
+ * - stdio (default): Handles tool requests for a single client via stdin/stdout
+ * - http: Serves Streamable HTTP at /mcp and legacy SSE at /sse for multiple remote clients
  *
- * @throws {Error} If server connection fails
+ * Settings from the config file (if any) are applied before the transport is chosen, and
+ * the file is watched for changes from then on.
+ *
+ * @throws {ConfigFileError} If the config file is invalid
+ * @throws {Error} If the transport is unknown or the server connection fails
  */
 export async function startServer() {
   // Log startup information
   console.error(`MCP Superthread Plus Server starting...`)
 
+  const configFile = applyConfigFile()
+  if (configFile) {
+    console.error(
+      `Loaded configuration from ${configFile.path}${configFile.profile ? ` (profile: ${configFile.profile})` : ""}`
+    )
+  }
+  watchConfigFile()
+
+  if (config.transport === "http") {
+    const httpServer = await startHttpServer(createServer, {
+      host: config.httpHost,
+      port: config.httpPort,
+      requireApiKey: config.httpRequireApiKey,
+      allowedHosts: config.httpAllowedHosts,
+      sessionTimeoutMs: config.httpSessionTimeoutMs,
+    })
+    console.error(`MCP Superthread Plus Server running on ${httpServer.url}/mcp (SSE: /sse)`)
+
+    // Graceful shutdown: close open sessions before exiting
+    const shutdown = (signal: string) => {
+      console.error(`Received ${signal}, shutting down...`)
+      httpServer
+        .close()
+        .catch((error) => console.error("Error during shutdown:", error))
+        .finally(() => process.exit(0))
+    }
+    process.once("SIGINT", () => shutdown("SIGINT"))
+    process.once("SIGTERM", () => shutdown("SIGTERM"))
+    return
+  }
+
+  if (config.transport !== "stdio") {
+    throw new Error(
+      `Unknown SUPERTHREAD_TRANSPORT "${config.transport}". ` +
+        `Expected one of: ${AVAILABLE_TRANSPORTS.join(", ")}`
+    )
+  }
+
   const transport = new StdioServerTransport()
-  await mcpServer.connect(transport)
+  await createServer().connect(transport)
   console.error("MCP Superthread Plus Server running on stdio")
 }
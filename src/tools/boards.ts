@@ -11,7 +11,27 @@ import type {
   UpdateBoardParams,
   UpdateListParams,
 } from "../api/boards.js"
-import { createToolHandler, buildParams } from "./helpers.js"
+import {
+  createToolHandler,
+  buildParams,
+  runBatch,
+  parallelSchema,
+  stopOnErrorSchema,
+  atomicSchema,
+  createdId,
+  dryRunSchema,
+  ANNOTATIONS,
+  fieldsSchema,
+  compactSchema,
+  formatSchema,
+  urlSchema,
+  workspaceIdSchema,
+  linkedWorkspaceIdSchema,
+} from "./helpers.js"
+import { formatBoards } from "./markdown.js"
+import { boardBatchOutputSchema, boardListOutputSchema } from "./schemas.js"
+import { linkedIds } from "../urls.js"
+import { NameResolver } from "../resolvers.js"
 
 /**
  * Registers board management tools with the MCP server.
@@ -33,7 +53,7 @@ export function registerBoardTools(server: McpServer) {
         boards: z
           .array(
             z.object({
-              workspace_id: z.string().describe("Workspace ID to create board in"),
+              workspace_id: workspaceIdSchema,
               project_id: z.string().describe("Space/project ID to associate the board with"),
               title: z.string().describe("Board title"),
               content: z.string().optional().describe("Board description/content"),
@@ -43,7 +63,12 @@ export function registerBoardTools(server: McpServer) {
             })
           )
           .describe("Array of boards to create (use single-element array for one board)"),
+        parallel: parallelSchema,
+        stop_on_error: stopOnErrorSchema,
+        atomic: atomicSchema,
+        dry_run: dryRunSchema,
       },
+      annotations: ANNOTATIONS.create,
     },
     createToolHandler(
       async (
@@ -58,23 +83,36 @@ export function registerBoardTools(server: McpServer) {
             color?: string
             layout?: string
           }>
+          parallel?: boolean
+          stop_on_error?: boolean
+          atomic?: boolean
         }
       ) => {
-        // Process boards sequentially
-        const results = []
-        for (const board of args.boards) {
-          const params = buildParams<CreateBoardParams>({
-            project_id: board.project_id,
-            title: board.title,
-            content: board.content,
-            icon: board.icon,
-            color: board.color,
-            layout: board.layout,
-          })
+        // Process boards (in parallel if requested)
+        const results = await runBatch(
+          args.boards,
+          async (board, _index, journal) => {
+            const params = buildParams<CreateBoardParams>({
+              project_id: board.project_id,
+              title: board.title,
+              content: board.content,
+              icon: board.icon,
+              color: board.color,
+              layout: board.layout,
+            })
 
-          const result = await client.boards.create(board.workspace_id, params as CreateBoardParams)
-          results.push(result)
-        }
+            const result = await client.boards.create(
+              board.workspace_id,
+              params as CreateBoardParams
+            )
+            const boardId = createdId(result, "board")
+            journal.record("board", boardId, () =>
+              client.boards.delete(board.workspace_id, boardId as string)
+            )
+            return result
+          },
+          { ...args, signal: client.signal }
+        )
 
         return { boards: results }
       }
@@ -95,8 +133,12 @@ export function registerBoardTools(server: McpServer) {
         lists: z
           .array(
             z.object({
-              workspace_id: z.string().describe("Workspace ID"),
-              board_id: z.string().describe("Board ID to create the list in"),
+              workspace_id: workspaceIdSchema,
+              board_id: z
+                .string()
+                .optional()
+                .describe("Board ID to create the list in (or use board)"),
+              board: z.string().optional().describe("Board title instead of board_id"),
               title: z.string().describe("List title (e.g., 'Backlog', 'To Do', 'Done')"),
               content: z.string().optional().describe("List description/content"),
               icon: z.string().optional().describe("Icon name for the list"),
@@ -108,7 +150,12 @@ export function registerBoardTools(server: McpServer) {
             })
           )
           .describe("Array of lists to create (use single-element array for one list)"),
+        parallel: parallelSchema,
+        stop_on_error: stopOnErrorSchema,
+        atomic: atomicSchema,
+        dry_run: dryRunSchema,
       },
+      annotations: ANNOTATIONS.create,
     },
     createToolHandler(
       async (
@@ -116,33 +163,46 @@ export function registerBoardTools(server: McpServer) {
         args: {
           lists: Array<{
             workspace_id: string
-            board_id: string
+            board_id?: string
+            board?: string
             title: string
             content?: string
             icon?: string
             color?: string
             behavior?: string
           }>
+          parallel?: boolean
+          stop_on_error?: boolean
+          atomic?: boolean
         }
       ) => {
-        // Process lists sequentially
-        const results = []
-        for (const list of args.lists) {
-          const params = buildParams<CreateListParams>({
-            board_id: list.board_id,
-            title: list.title,
-            content: list.content,
-            icon: list.icon,
-            color: list.color,
-            behavior: list.behavior,
-          })
+        const names = new NameResolver(client)
 
-          const result = await client.boards.createList(
-            list.workspace_id,
-            params as CreateListParams
-          )
-          results.push(result)
-        }
+        // Process lists (in parallel if requested)
+        const results = await runBatch(
+          args.lists,
+          async (list, _index, journal) => {
+            const params = buildParams<CreateListParams>({
+              board_id: await names.boardId(list),
+              title: list.title,
+              content: list.content,
+              icon: list.icon,
+              color: list.color,
+              behavior: list.behavior,
+            })
+
+            const result = await client.boards.createList(
+              list.workspace_id,
+              params as CreateListParams
+            )
+            const listId = createdId(result, "list")
+            journal.record("list", listId, () =>
+              client.boards.deleteList(list.workspace_id, listId as string)
+            )
+            return result
+          },
+          { ...args, signal: client.signal }
+        )
 
         return { lists: results }
       }
@@ -160,29 +220,38 @@ export function registerBoardTools(server: McpServer) {
       description:
         "Get all boards in a workspace. Boards contain kanban-style lists with cards for task management. By default returns non-archived boards.",
       inputSchema: {
-        workspace_id: z.string().describe("Workspace ID to get boards from"),
+        workspace_id: workspaceIdSchema,
         space_id: z.string().describe("Space/project ID to get boards from"),
         bookmarked: z.boolean().optional().describe("Optional: Also filter for bookmarked boards"),
         archived: z
           .boolean()
           .optional()
           .describe("Optional: Include archived boards (default: false)"),
+        fields: fieldsSchema,
+        compact: compactSchema,
       },
+      annotations: ANNOTATIONS.read,
+      outputSchema: boardListOutputSchema,
     },
-    createToolHandler(async (client, args) => {
-      const options = buildParams<{ project_id: string; bookmarked?: boolean; archived?: boolean }>(
-        {
+    createToolHandler(
+      async (client, args) => {
+        const options = buildParams<{
+          project_id: string
+          bookmarked?: boolean
+          archived?: boolean
+        }>({
           project_id: args.space_id,
           bookmarked: args.bookmarked,
           archived: args.archived,
-        }
-      )
+        })
 
-      return client.boards.list(
-        args.workspace_id,
-        options as { project_id: string; bookmarked?: boolean; archived?: boolean }
-      )
-    })
+        return client.boards.list(
+          args.workspace_id,
+          options as { project_id: string; bookmarked?: boolean; archived?: boolean }
+        )
+      },
+      { structured: true }
+    )
   )
 
   // ============================================================================
@@ -199,24 +268,43 @@ export function registerBoardTools(server: McpServer) {
         boards: z
           .array(
             z.object({
-              workspace_id: z.string().describe("Workspace ID"),
-              board_id: z.string().describe("Board ID to retrieve"),
+              url: urlSchema,
+              workspace_id: linkedWorkspaceIdSchema,
+              board_id: z.string().optional().describe("Board ID to retrieve (or use url)"),
             })
           )
           .describe("Array of boards to retrieve (use single-element array for one board)"),
+        parallel: parallelSchema,
+        stop_on_error: stopOnErrorSchema,
+        fields: fieldsSchema,
+        compact: compactSchema,
+        format: formatSchema,
       },
+      annotations: ANNOTATIONS.read,
+      outputSchema: boardBatchOutputSchema,
     },
     createToolHandler(
-      async (client, args: { boards: Array<{ workspace_id: string; board_id: string }> }) => {
-        // Process boards sequentially
-        const results = []
-        for (const board of args.boards) {
-          const result = await client.boards.get(board.workspace_id, board.board_id)
-          results.push(result)
+      async (
+        client,
+        args: {
+          boards: Array<{ url?: string; workspace_id?: string; board_id?: string }>
+          parallel?: boolean
+          stop_on_error?: boolean
         }
+      ) => {
+        // Process boards (in parallel if requested)
+        const results = await runBatch(
+          args.boards,
+          (board) => {
+            const ids = linkedIds(board, "board", "board_id")
+            return client.boards.get(ids.workspace_id, ids.board_id)
+          },
+          { ...args, signal: client.signal }
+        )
 
         return { boards: results }
-      }
+      },
+      { structured: true, markdown: formatBoards }
     )
   )
 
@@ -234,8 +322,9 @@ export function registerBoardTools(server: McpServer) {
         boards: z
           .array(
             z.object({
-              workspace_id: z.string().describe("Workspace ID"),
-              board_id: z.string().describe("Board ID to update"),
+              url: urlSchema,
+              workspace_id: linkedWorkspaceIdSchema,
+              board_id: z.string().optional().describe("Board ID to update (or use url)"),
               title: z.string().optional().describe("New board title"),
               content: z.string().optional().describe("New board description/content"),
               icon: z.string().optional().describe("New icon name"),
@@ -244,41 +333,47 @@ export function registerBoardTools(server: McpServer) {
             })
           )
           .describe("Array of boards to update (use single-element array for one board)"),
+        parallel: parallelSchema,
+        stop_on_error: stopOnErrorSchema,
+        dry_run: dryRunSchema,
       },
+      annotations: ANNOTATIONS.update,
     },
     createToolHandler(
       async (
         client,
         args: {
           boards: Array<{
-            workspace_id: string
-            board_id: string
+            url?: string
+            workspace_id?: string
+            board_id?: string
             title?: string
             content?: string
             icon?: string
             color?: string
             archived?: boolean
           }>
+          parallel?: boolean
+          stop_on_error?: boolean
         }
       ) => {
-        // Process boards sequentially
-        const results = []
-        for (const board of args.boards) {
-          const params = buildParams<UpdateBoardParams>({
-            title: board.title,
-            content: board.content,
-            icon: board.icon,
-            color: board.color,
-            archived: board.archived,
-          })
+        // Process boards (in parallel if requested)
+        const results = await runBatch(
+          args.boards,
+          async (board) => {
+            const params = buildParams<UpdateBoardParams>({
+              title: board.title,
+              content: board.content,
+              icon: board.icon,
+              color: board.color,
+              archived: board.archived,
+            })
 
-          const result = await client.boards.update(
-            board.workspace_id,
-            board.board_id,
-            params as UpdateBoardParams
-          )
-          results.push(result)
-        }
+            const ids = linkedIds(board, "board", "board_id")
+            return client.boards.update(ids.workspace_id, ids.board_id, params as UpdateBoardParams)
+          },
+          { ...args, signal: client.signal }
+        )
 
         return { boards: results }
       }
@@ -299,7 +394,7 @@ export function registerBoardTools(server: McpServer) {
         lists: z
           .array(
             z.object({
-              workspace_id: z.string().describe("Workspace ID"),
+              workspace_id: workspaceIdSchema,
               list_id: z.string().describe("List ID to update"),
               title: z.string().optional().describe("New list title"),
               content: z.string().optional().describe("New list description/content"),
@@ -312,7 +407,11 @@ export function registerBoardTools(server: McpServer) {
             })
           )
           .describe("Array of lists to update (use single-element array for one list)"),
+        parallel: parallelSchema,
+        stop_on_error: stopOnErrorSchema,
+        dry_run: dryRunSchema,
       },
+      annotations: ANNOTATIONS.update,
     },
     createToolHandler(
       async (
@@ -327,26 +426,30 @@ export function registerBoardTools(server: McpServer) {
             color?: string
             behavior?: string
           }>
+          parallel?: boolean
+          stop_on_error?: boolean
         }
       ) => {
-        // Process lists sequentially
-        const results = []
-        for (const list of args.lists) {
-          const params = buildParams<UpdateListParams>({
-            title: list.title,
-            content: list.content,
-            icon: list.icon,
-            color: list.color,
-            behavior: list.behavior,
-          })
+        // Process lists (in parallel if requested)
+        const results = await runBatch(
+          args.lists,
+          async (list) => {
+            const params = buildParams<UpdateListParams>({
+              title: list.title,
+              content: list.content,
+              icon: list.icon,
+              color: list.color,
+              behavior: list.behavior,
+            })
 
-          const result = await client.boards.updateList(
-            list.workspace_id,
-            list.list_id,
-            params as UpdateListParams
-          )
-          results.push(result)
-        }
+            return client.boards.updateList(
+              list.workspace_id,
+              list.list_id,
+              params as UpdateListParams
+            )
+          },
+          { ...args, signal: client.signal }
+        )
 
         return { lists: results }
       }
@@ -364,11 +467,13 @@ export function registerBoardTools(server: McpServer) {
       description:
         "Clone an existing board with all its lists and structure. Cards are not duplicated.",
       inputSchema: {
-        workspace_id: z.string().describe("Workspace ID"),
+        workspace_id: workspaceIdSchema,
         board_id: z.string().describe("Board ID to duplicate"),
         title: z.string().optional().describe("Title for the duplicated board"),
         project_id: z.string().optional().describe("Project/Space ID for the duplicated board"),
+        dry_run: dryRunSchema,
       },
+      annotations: ANNOTATIONS.create,
     },
     createToolHandler(async (client, args) => {
       const params = buildParams<{ title?: string; project_id?: string }>({
@@ -398,12 +503,16 @@ export function registerBoardTools(server: McpServer) {
         boards: z
           .array(
             z.object({
-              workspace_id: z.string().describe("Workspace ID"),
+              workspace_id: workspaceIdSchema,
               board_id: z.string().describe("Board ID to delete"),
             })
           )
           .describe("Array of boards to delete (use single-element array for one board)"),
+        parallel: parallelSchema,
+        stop_on_error: stopOnErrorSchema,
+        dry_run: dryRunSchema,
       },
+      annotations: ANNOTATIONS.delete,
     },
     createToolHandler(
       async (
@@ -413,14 +522,16 @@ export function registerBoardTools(server: McpServer) {
             workspace_id: string
             board_id: string
           }>
+          parallel?: boolean
+          stop_on_error?: boolean
         }
       ) => {
-        // Process boards sequentially
-        const results = []
-        for (const board of args.boards) {
-          const result = await client.boards.delete(board.workspace_id, board.board_id)
-          results.push(result)
-        }
+        // Process boards (in parallel if requested)
+        const results = await runBatch(
+          args.boards,
+          (board) => client.boards.delete(board.workspace_id, board.board_id),
+          { ...args, signal: client.signal }
+        )
 
         return { deleted: results }
       }
@@ -441,12 +552,16 @@ export function registerBoardTools(server: McpServer) {
         lists: z
           .array(
             z.object({
-              workspace_id: z.string().describe("Workspace ID"),
+              workspace_id: workspaceIdSchema,
               list_id: z.string().describe("List ID to delete"),
             })
           )
           .describe("Array of lists to delete (use single-element array for one list)"),
+        parallel: parallelSchema,
+        stop_on_error: stopOnErrorSchema,
+        dry_run: dryRunSchema,
       },
+      annotations: ANNOTATIONS.delete,
     },
     createToolHandler(
       async (
@@ -456,14 +571,16 @@ export function registerBoardTools(server: McpServer) {
             workspace_id: string
             list_id: string
           }>
+          parallel?: boolean
+          stop_on_error?: boolean
         }
       ) => {
-        // Process lists sequentially
-        const results = []
-        for (const list of args.lists) {
-          const result = await client.boards.deleteList(list.workspace_id, list.list_id)
-          results.push(result)
-        }
+        // Process lists (in parallel if requested)
+        const results = await runBatch(
+          args.lists,
+          (list) => client.boards.deleteList(list.workspace_id, list.list_id),
+          { ...args, signal: client.signal }
+        )
 
         return { deleted: results }
       }
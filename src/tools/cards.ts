@@ -12,9 +12,31 @@ import type {
   AddRelatedCardParams,
   AddTagsToCardParams,
 } from "../api/cards.js"
-import { createToolHandler, buildParams } from "./helpers.js"
+import {
+  createToolHandler,
+  buildParams,
+  runBatch,
+  parallelSchema,
+  stopOnErrorSchema,
+  atomicSchema,
+  createdId,
+  dryRunSchema,
+  ANNOTATIONS,
+  fieldsSchema,
+  compactSchema,
+  formatSchema,
+  urlSchema,
+  workspaceIdSchema,
+  linkedWorkspaceIdSchema,
+} from "./helpers.js"
+import { toToolError } from "./errors.js"
+import { formatCards } from "./markdown.js"
+import { cardBatchOutputSchema, tagListOutputSchema } from "./schemas.js"
 import { formatMentions, shouldPositionAtTop, getListTitle } from "../utils.js"
 import { config } from "../config.js"
+import { ValidationError } from "../errors.js"
+import { NameResolver } from "../resolvers.js"
+import { linkedIds } from "../urls.js"
 
 /**
  * Registers card management tools with the MCP server.
@@ -31,18 +53,29 @@ export function registerCardTools(server: McpServer) {
     {
       title: "Create Cards",
       description:
-        "Create one or more cards in a single operation. Each card is fully self-contained with all parameters. Always use an array, even for a single card.\n\nIMPORTANT LINKING RULES:\n- Use 'parent_card_id' to create parent-child relationships in your card hierarchy\n- Use 'epic_id' ONLY to link top-level cards to Roadmap Projects (epics)\n- Epic inheritance flows automatically from parent to child\n\nHIERARCHY CREATION:\n- Create top-level cards: Set parent_card_id=null (or omit), epic_id=Roadmap Project ID\n- Create child cards: Set parent_card_id=Parent Card ID, epic_id=null (or omit, will inherit from parent)\n- Epic inheritance flows automatically from parent to child\n\nCARDS ARE PROCESSED SEQUENTIALLY: This is critical for parent-child relationships. Parent cards must be created before their children can reference them.",
+        "Create one or more cards in a single operation. Each card is fully self-contained with all parameters. Always use an array, even for a single card.\n\nIMPORTANT LINKING RULES:\n- Use 'parent_card_id' to create parent-child relationships in your card hierarchy\n- Use 'epic_id' ONLY to link top-level cards to Roadmap Projects (epics)\n- Epic inheritance flows automatically from parent to child\n\nHIERARCHY CREATION:\n- Create top-level cards: Set parent_card_id=null (or omit), epic_id=Roadmap Project ID\n- Create child cards: Set parent_card_id=Parent Card ID, epic_id=null (or omit, will inherit from parent)\n- Epic inheritance flows automatically from parent to child\n\nCARDS ARE PROCESSED SEQUENTIALLY: This is critical for parent-child relationships. Parent cards must be created before their children can reference them. Set stop_on_error=true when later cards depend on earlier ones, or atomic=true to delete the cards already created if any card fails.\n\nPOSITIONING: The API places new cards at the bottom of the list, so a requested position is applied with a follow-up update. If that update fails, the card is still returned, with a 'warning' (with atomic=true, the item fails and is rolled back instead).",
       inputSchema: {
         cards: z
           .array(
             z.object({
-              workspace_id: z.string().describe("Workspace ID"),
+              workspace_id: workspaceIdSchema,
               title: z.string().describe("Card title"),
-              list_id: z.string().describe("List ID where the card will be placed"),
+              list_id: z
+                .string()
+                .optional()
+                .describe("List ID where the card will be placed (or use list)"),
+              list: z
+                .string()
+                .optional()
+                .describe("List title instead of list_id (e.g., 'In Progress')"),
               board_id: z
                 .string()
                 .optional()
                 .describe("Board ID (required if sprint_id not provided)"),
+              board: z
+                .string()
+                .optional()
+                .describe("Board title instead of board_id (searched in project_id if given)"),
               sprint_id: z
                 .string()
                 .optional()
@@ -70,10 +103,18 @@ export function registerCardTools(server: McpServer) {
                   "Epic/Roadmap Project ID. ONLY use for linking top-level cards to Roadmap Projects. Most cards inherit epic from their parent automatically. Only set this when creating top-level cards. Leave null (or omit) for child cards - they inherit from parent."
                 ),
               owner_id: z.string().optional().describe("Card owner user ID"),
+              owner: z
+                .string()
+                .optional()
+                .describe("Card owner's name or email instead of owner_id"),
             })
           )
           .describe("Array of cards to create (use single-element array for one card)"),
+        stop_on_error: stopOnErrorSchema,
+        atomic: atomicSchema,
+        dry_run: dryRunSchema,
       },
+      annotations: ANNOTATIONS.create,
     },
     createToolHandler(
       async (
@@ -82,8 +123,10 @@ export function registerCardTools(server: McpServer) {
           cards: Array<{
             workspace_id: string
             title: string
-            list_id: string
+            list_id?: string
+            list?: string
             board_id?: string
+            board?: string
             sprint_id?: string
             content?: string
             project_id?: string
@@ -95,58 +138,85 @@ export function registerCardTools(server: McpServer) {
             parent_card_id?: string
             epic_id?: string
             owner_id?: string
+            owner?: string
           }>
+          stop_on_error?: boolean
+          atomic?: boolean
         }
       ) => {
+        const names = new NameResolver(client)
+
         // Process cards sequentially (critical for parent-child relationships)
-        const results = []
-        for (const cardData of args.cards) {
-          // SMART POSITIONING IMPLEMENTATION:
-          // SuperThread API does NOT support 'position' during card creation, only during update.
-          // Therefore we: 1) Create card (goes to bottom), 2) Immediately update with position.
-          // This creates a small race condition window (unavoidable due to API limitation).
-          // Performance: Skips list title fetch when feature is not configured.
+        const results = await runBatch(
+          args.cards,
+          async (input, _index, journal) => {
+            const cardData = await names.card(input)
+            if (!cardData.list_id) {
+              throw new ValidationError("Either list_id or list must be provided")
+            }
+
+            // SMART POSITIONING IMPLEMENTATION:
+            // SuperThread API does NOT support 'position' during card creation, only during update.
+            // Therefore we: 1) Create card (goes to bottom), 2) Immediately update with position.
+            // This creates a small race condition window (unavoidable due to API limitation).
+            // Performance: Skips list title fetch when feature is not configured.
 
-          let listTitle: string | undefined
-          if (config.listsAddToTop.length > 0) {
-            listTitle = await getListTitle(client, cardData.workspace_id, cardData.list_id, {
+            let listTitle: string | undefined
+            if (config.listsAddToTop.length > 0) {
+              listTitle = await getListTitle(client, cardData.workspace_id, cardData.list_id, {
+                board_id: cardData.board_id,
+                sprint_id: cardData.sprint_id,
+                project_id: cardData.project_id,
+              })
+            }
+
+            const position = shouldPositionAtTop(listTitle, cardData.position)
+
+            const params = buildParams<CreateCardParams>({
+              title: cardData.title,
+              list_id: cardData.list_id,
               board_id: cardData.board_id,
               sprint_id: cardData.sprint_id,
+              content: cardData.content,
               project_id: cardData.project_id,
+              start_date: cardData.start_date,
+              due_date: cardData.due_date,
+              priority: cardData.priority,
+              estimate: cardData.estimate,
+              parent_card_id: cardData.parent_card_id,
+              epic_id: cardData.epic_id,
+              owner_id: cardData.owner_id,
             })
-          }
-
-          const position = shouldPositionAtTop(listTitle, cardData.position)
 
-          const params = buildParams<CreateCardParams>({
-            title: cardData.title,
-            list_id: cardData.list_id,
-            board_id: cardData.board_id,
-            sprint_id: cardData.sprint_id,
-            content: cardData.content,
-            project_id: cardData.project_id,
-            start_date: cardData.start_date,
-            due_date: cardData.due_date,
-            priority: cardData.priority,
-            estimate: cardData.estimate,
-            parent_card_id: cardData.parent_card_id,
-            epic_id: cardData.epic_id,
-            owner_id: cardData.owner_id,
-          })
+            const result = (await client.cards.create(
+              cardData.workspace_id,
+              params as CreateCardParams
+            )) as {
+              card: { id: string }
+            }
+            journal.record("card", createdId(result, "card"), () =>
+              client.cards.delete(cardData.workspace_id, result.card.id)
+            )
 
-          const result = (await client.cards.create(
-            cardData.workspace_id,
-            params as CreateCardParams
-          )) as {
-            card: { id: string }
-          }
+            if (position !== undefined) {
+              try {
+                await client.cards.update(cardData.workspace_id, result.card.id, { position })
+              } catch (error) {
+                // The card exists either way; an atomic batch fails the item so it's rolled back
+                if (args.atomic) {
+                  throw error
+                }
+                return {
+                  ...result,
+                  warning: `Card was created but could not be moved to position ${position}: ${toToolError(error).message}`,
+                }
+              }
+            }
 
-          if (position !== undefined) {
-            await client.cards.update(cardData.workspace_id, result.card.id, { position })
-          }
-
-          results.push(result)
-        }
+            return result
+          },
+          { ...args, signal: client.signal }
+        )
 
         return { cards: results }
       }
@@ -167,11 +237,17 @@ export function registerCardTools(server: McpServer) {
         cards: z
           .array(
             z.object({
-              workspace_id: z.string().describe("Workspace ID"),
-              card_id: z.string().describe("Card ID to update"),
+              url: urlSchema,
+              workspace_id: linkedWorkspaceIdSchema,
+              card_id: z.string().optional().describe("Card ID to update (or use url)"),
               title: z.string().optional().describe("New card title"),
               board_id: z.string().optional().describe("Move card to different board"),
+              board: z.string().optional().describe("Board title instead of board_id"),
               list_id: z.string().optional().describe("Move card to different list"),
+              list: z
+                .string()
+                .optional()
+                .describe("List title instead of list_id (on board_id, or the card's board)"),
               project_id: z.string().optional().describe("Change project/space association"),
               epic_id: z
                 .string()
@@ -181,6 +257,10 @@ export function registerCardTools(server: McpServer) {
                 ),
               sprint_id: z.string().optional().describe("Change sprint association"),
               owner_id: z.string().optional().describe("Change card owner"),
+              owner: z
+                .string()
+                .optional()
+                .describe("New owner's name or email instead of owner_id"),
               start_date: z
                 .number()
                 .optional()
@@ -199,22 +279,30 @@ export function registerCardTools(server: McpServer) {
             })
           )
           .describe("Array of cards to update (use single-element array for one card)"),
+        parallel: parallelSchema,
+        stop_on_error: stopOnErrorSchema,
+        dry_run: dryRunSchema,
       },
+      annotations: ANNOTATIONS.update,
     },
     createToolHandler(
       async (
         client,
         args: {
           cards: Array<{
-            workspace_id: string
-            card_id: string
+            url?: string
+            workspace_id?: string
+            card_id?: string
             title?: string
             board_id?: string
+            board?: string
             list_id?: string
+            list?: string
             project_id?: string
             epic_id?: string
             sprint_id?: string
             owner_id?: string
+            owner?: string
             start_date?: number
             due_date?: number
             position?: number
@@ -222,47 +310,58 @@ export function registerCardTools(server: McpServer) {
             estimate?: number
             archived?: boolean
           }>
+          parallel?: boolean
+          stop_on_error?: boolean
         }
       ) => {
-        // Process updates sequentially
-        const results = []
-        for (const cardData of args.cards) {
-          // Skip fetch if smart positioning is not configured (performance optimization)
-          let listTitle: string | undefined
-          if (cardData.list_id && config.listsAddToTop.length > 0) {
-            listTitle = await getListTitle(client, cardData.workspace_id, cardData.list_id, {
-              board_id: cardData.board_id,
-              sprint_id: cardData.sprint_id,
-              project_id: cardData.project_id,
-              card_id: cardData.card_id,
+        const names = new NameResolver(client)
+
+        // Process updates (in parallel if requested)
+        const results = await runBatch(
+          args.cards,
+          async (input) => {
+            const cardData = await names.card({
+              ...input,
+              ...linkedIds(input, "card", "card_id"),
             })
-          }
 
-          const position = shouldPositionAtTop(listTitle, cardData.position)
+            // Skip fetch if smart positioning is not configured (performance optimization)
+            let listTitle: string | undefined
+            if (cardData.list_id && config.listsAddToTop.length > 0) {
+              listTitle = await getListTitle(client, cardData.workspace_id, cardData.list_id, {
+                board_id: cardData.board_id,
+                sprint_id: cardData.sprint_id,
+                project_id: cardData.project_id,
+                card_id: cardData.card_id,
+              })
+            }
 
-          const params = buildParams<UpdateCardParams>({
-            title: cardData.title,
-            board_id: cardData.board_id,
-            list_id: cardData.list_id,
-            project_id: cardData.project_id,
-            epic_id: cardData.epic_id,
-            sprint_id: cardData.sprint_id,
-            owner_id: cardData.owner_id,
-            start_date: cardData.start_date,
-            due_date: cardData.due_date,
-            position,
-            priority: cardData.priority,
-            estimate: cardData.estimate,
-            archived: cardData.archived,
-          })
+            const position = shouldPositionAtTop(listTitle, cardData.position)
 
-          const result = await client.cards.update(
-            cardData.workspace_id,
-            cardData.card_id,
-            params as UpdateCardParams
-          )
-          results.push(result)
-        }
+            const params = buildParams<UpdateCardParams>({
+              title: cardData.title,
+              board_id: cardData.board_id,
+              list_id: cardData.list_id,
+              project_id: cardData.project_id,
+              epic_id: cardData.epic_id,
+              sprint_id: cardData.sprint_id,
+              owner_id: cardData.owner_id,
+              start_date: cardData.start_date,
+              due_date: cardData.due_date,
+              position,
+              priority: cardData.priority,
+              estimate: cardData.estimate,
+              archived: cardData.archived,
+            })
+
+            return client.cards.update(
+              cardData.workspace_id,
+              cardData.card_id,
+              params as UpdateCardParams
+            )
+          },
+          { ...args, signal: client.signal }
+        )
 
         return { cards: results }
       }
@@ -278,29 +377,48 @@ export function registerCardTools(server: McpServer) {
     {
       title: "Get Cards",
       description:
-        "Get detailed information about one or more cards in a single operation. Each card is fully self-contained with workspace_id and card_id. Always use an array, even for a single card.",
+        "Get detailed information about one or more cards in a single operation. Each card is fully self-contained with workspace_id and card_id, or a url. Always use an array, even for a single card.",
       inputSchema: {
         cards: z
           .array(
             z.object({
-              workspace_id: z.string().describe("Workspace ID"),
-              card_id: z.string().describe("Card ID to retrieve"),
+              url: urlSchema,
+              workspace_id: linkedWorkspaceIdSchema,
+              card_id: z.string().optional().describe("Card ID to retrieve (or use url)"),
             })
           )
           .describe("Array of cards to retrieve (use single-element array for one card)"),
+        parallel: parallelSchema,
+        stop_on_error: stopOnErrorSchema,
+        fields: fieldsSchema,
+        compact: compactSchema,
+        format: formatSchema,
       },
+      annotations: ANNOTATIONS.read,
+      outputSchema: cardBatchOutputSchema,
     },
     createToolHandler(
-      async (client, args: { cards: Array<{ workspace_id: string; card_id: string }> }) => {
-        // Retrieve cards sequentially
-        const results = []
-        for (const cardData of args.cards) {
-          const result = await client.cards.get(cardData.workspace_id, cardData.card_id)
-          results.push(result)
+      async (
+        client,
+        args: {
+          cards: Array<{ url?: string; workspace_id?: string; card_id?: string }>
+          parallel?: boolean
+          stop_on_error?: boolean
         }
+      ) => {
+        // Retrieve cards (in parallel if requested)
+        const results = await runBatch(
+          args.cards,
+          (cardData) => {
+            const ids = linkedIds(cardData, "card", "card_id")
+            return client.cards.get(ids.workspace_id, ids.card_id)
+          },
+          { ...args, signal: client.signal }
+        )
 
         return { cards: results }
-      }
+      },
+      { structured: true, markdown: formatCards }
     )
   )
 
@@ -315,11 +433,17 @@ export function registerCardTools(server: McpServer) {
       description:
         "Retrieve cards assigned to a specific user. Supports extensive filtering by project, board, list, sprint, dates, priority, statuses, and tags.",
       inputSchema: {
-        workspace_id: z.string().describe("Workspace ID"),
-        user_id: z.string().describe("User ID to get assigned cards for"),
+        workspace_id: workspaceIdSchema,
+        user_id: z.string().optional().describe("User ID to get assigned cards for (or use user)"),
+        user: z.string().optional().describe("User's name or email instead of user_id"),
         project_id: z.string().optional().describe("Filter by project/space ID"),
-        board_id: z.string().optional().describe("Filter by board ID"),
-        list_id: z.string().optional().describe("Filter by list ID"),
+        board_id: z.string().optional().describe("Filter by board ID (or use board)"),
+        board: z.string().optional().describe("Filter by board title instead of board_id"),
+        list_id: z.string().optional().describe("Filter by list ID (or use list)"),
+        list: z
+          .string()
+          .optional()
+          .describe("Filter by list title instead of list_id (needs the board, or a sprint)"),
         sprint_id: z.string().optional().describe("Filter by sprint ID"),
         parent_card_id: z.string().optional().describe("Filter by parent card ID"),
         archived: z.boolean().optional().describe("Filter by archived status"),
@@ -342,14 +466,27 @@ export function registerCardTools(server: McpServer) {
           .optional()
           .describe('Filter by statuses (e.g., ["started", "completed"])'),
         tags: z.array(z.string()).optional().describe("Filter by tag names"),
+        fields: fieldsSchema,
+        compact: compactSchema,
       },
+      annotations: ANNOTATIONS.read,
     },
     createToolHandler(async (client, args) => {
+      const names = new NameResolver(client)
+      const boardId =
+        args.board_id ??
+        (args.board ? await names.board(args.workspace_id, args.board, args.project_id) : undefined)
+      const listId =
+        args.list_id ??
+        (args.list
+          ? await names.list(args.workspace_id, args.list, { ...args, board_id: boardId })
+          : undefined)
+
       const params = buildParams<GetAssignedCardsParams>({
-        user_id: args.user_id,
+        user_id: await names.user(args),
         project_id: args.project_id,
-        board_id: args.board_id,
-        list_id: args.list_id,
+        board_id: boardId,
+        list_id: listId,
         sprint_id: args.sprint_id,
         parent_card_id: args.parent_card_id,
         archived: args.archived,
@@ -383,7 +520,7 @@ export function registerCardTools(server: McpServer) {
         relations: z
           .array(
             z.object({
-              workspace_id: z.string().describe("Workspace ID"),
+              workspace_id: workspaceIdSchema,
               card_id: z.string().describe("Source card ID"),
               related_card_id: z.string().describe("Related card ID to link"),
               relation_type: z
@@ -394,7 +531,11 @@ export function registerCardTools(server: McpServer) {
           .describe(
             "Array of card relationships to create (use single-element array for one relation)"
           ),
+        parallel: parallelSchema,
+        stop_on_error: stopOnErrorSchema,
+        dry_run: dryRunSchema,
       },
+      annotations: ANNOTATIONS.add,
     },
     createToolHandler(
       async (
@@ -406,18 +547,22 @@ export function registerCardTools(server: McpServer) {
             related_card_id: string
             relation_type: "blocks" | "blocked_by" | "related" | "duplicates"
           }>
+          parallel?: boolean
+          stop_on_error?: boolean
         }
       ) => {
-        // Create relationships sequentially
-        const results = []
-        for (const rel of args.relations) {
-          const params: AddRelatedCardParams = {
-            card_id: rel.related_card_id,
-            linked_card_type: rel.relation_type,
-          }
-          const result = await client.cards.addRelated(rel.workspace_id, rel.card_id, params)
-          results.push(result)
-        }
+        // Create relationships (in parallel if requested)
+        const results = await runBatch(
+          args.relations,
+          async (rel) => {
+            const params: AddRelatedCardParams = {
+              card_id: rel.related_card_id,
+              linked_card_type: rel.relation_type,
+            }
+            return client.cards.addRelated(rel.workspace_id, rel.card_id, params)
+          },
+          { ...args, signal: client.signal }
+        )
 
         return { relations: results }
       }
@@ -438,7 +583,7 @@ export function registerCardTools(server: McpServer) {
         relations: z
           .array(
             z.object({
-              workspace_id: z.string().describe("Workspace ID"),
+              workspace_id: workspaceIdSchema,
               card_id: z.string().describe("Source card ID"),
               linked_card_id: z.string().describe("Linked card ID to remove"),
             })
@@ -446,7 +591,11 @@ export function registerCardTools(server: McpServer) {
           .describe(
             "Array of card relationships to remove (use single-element array for one relation)"
           ),
+        parallel: parallelSchema,
+        stop_on_error: stopOnErrorSchema,
+        dry_run: dryRunSchema,
       },
+      annotations: ANNOTATIONS.delete,
     },
     createToolHandler(
       async (
@@ -457,18 +606,16 @@ export function registerCardTools(server: McpServer) {
             card_id: string
             linked_card_id: string
           }>
+          parallel?: boolean
+          stop_on_error?: boolean
         }
       ) => {
-        // Remove relationships sequentially
-        const results = []
-        for (const rel of args.relations) {
-          const result = await client.cards.removeRelated(
-            rel.workspace_id,
-            rel.card_id,
-            rel.linked_card_id
-          )
-          results.push(result)
-        }
+        // Remove relationships (in parallel if requested)
+        const results = await runBatch(
+          args.relations,
+          (rel) => client.cards.removeRelated(rel.workspace_id, rel.card_id, rel.linked_card_id),
+          { ...args, signal: client.signal }
+        )
 
         return { removed: results }
       }
@@ -489,21 +636,32 @@ export function registerCardTools(server: McpServer) {
         cards: z
           .array(
             z.object({
-              workspace_id: z.string().describe("Workspace ID"),
+              workspace_id: workspaceIdSchema,
               card_id: z.string().describe("Card ID to duplicate"),
             })
           )
           .describe("Array of cards to duplicate (use single-element array for one card)"),
+        parallel: parallelSchema,
+        stop_on_error: stopOnErrorSchema,
+        dry_run: dryRunSchema,
       },
+      annotations: ANNOTATIONS.create,
     },
     createToolHandler(
-      async (client, args: { cards: Array<{ workspace_id: string; card_id: string }> }) => {
-        // Duplicate cards sequentially
-        const results = []
-        for (const cardData of args.cards) {
-          const result = await client.cards.duplicate(cardData.workspace_id, cardData.card_id)
-          results.push(result)
+      async (
+        client,
+        args: {
+          cards: Array<{ workspace_id: string; card_id: string }>
+          parallel?: boolean
+          stop_on_error?: boolean
         }
+      ) => {
+        // Duplicate cards (in parallel if requested)
+        const results = await runBatch(
+          args.cards,
+          (cardData) => client.cards.duplicate(cardData.workspace_id, cardData.card_id),
+          { ...args, signal: client.signal }
+        )
 
         return { cards: results }
       }
@@ -524,21 +682,32 @@ export function registerCardTools(server: McpServer) {
         cards: z
           .array(
             z.object({
-              workspace_id: z.string().describe("Workspace ID"),
+              workspace_id: workspaceIdSchema,
               card_id: z.string().describe("Card ID to delete"),
             })
           )
           .describe("Array of cards to delete (use single-element array for one card)"),
+        parallel: parallelSchema,
+        stop_on_error: stopOnErrorSchema,
+        dry_run: dryRunSchema,
       },
+      annotations: ANNOTATIONS.delete,
     },
     createToolHandler(
-      async (client, args: { cards: Array<{ workspace_id: string; card_id: string }> }) => {
-        // Delete cards sequentially
-        const results = []
-        for (const cardData of args.cards) {
-          const result = await client.cards.delete(cardData.workspace_id, cardData.card_id)
-          results.push(result)
+      async (
+        client,
+        args: {
+          cards: Array<{ workspace_id: string; card_id: string }>
+          parallel?: boolean
+          stop_on_error?: boolean
         }
+      ) => {
+        // Delete cards (in parallel if requested)
+        const results = await runBatch(
+          args.cards,
+          (cardData) => client.cards.delete(cardData.workspace_id, cardData.card_id),
+          { ...args, signal: client.signal }
+        )
 
         return { deleted: results }
       }
@@ -556,22 +725,29 @@ export function registerCardTools(server: McpServer) {
       description:
         "Retrieve tags for a workspace or project (optionally). Returns a list of tags with their metadata including name, color, and card counts.",
       inputSchema: {
-        workspace_id: z.string().describe("Workspace ID"),
+        workspace_id: workspaceIdSchema,
         project_id: z.string().optional().describe("Project/Space ID to filter tags by project"),
         all: z.boolean().optional().describe("Return all tags in workspace"),
+        fields: fieldsSchema,
+        compact: compactSchema,
       },
+      annotations: ANNOTATIONS.read,
+      outputSchema: tagListOutputSchema,
     },
-    createToolHandler(async (client, args) => {
-      const params = buildParams<{ project_id?: string; all?: boolean }>({
-        project_id: args.project_id,
-        all: args.all,
-      })
+    createToolHandler(
+      async (client, args) => {
+        const params = buildParams<{ project_id?: string; all?: boolean }>({
+          project_id: args.project_id,
+          all: args.all,
+        })
 
-      return client.cards.getTags(
-        args.workspace_id,
-        Object.keys(params).length > 0 ? params : undefined
-      )
-    })
+        return client.cards.getTags(
+          args.workspace_id,
+          Object.keys(params).length > 0 ? params : undefined
+        )
+      },
+      { structured: true }
+    )
   )
 
   // ============================================================================
@@ -583,22 +759,38 @@ export function registerCardTools(server: McpServer) {
     {
       title: "Add Tags to Card",
       description:
-        "Add one or more tags to a card. Provide either a single tag ID (id) or multiple tag IDs (ids).",
+        "Add one or more tags to a card. Provide a single tag ID (id), multiple tag IDs (ids), or tag names (tags).",
       inputSchema: {
-        workspace_id: z.string().describe("Workspace ID"),
+        workspace_id: workspaceIdSchema,
         card_id: z.string().describe("Card ID to add tags to"),
         id: z.string().optional().describe("Single tag ID to add"),
         ids: z.array(z.string()).optional().describe("Array of tag IDs to add"),
+        tags: z
+          .array(z.string())
+          .optional()
+          .describe('Array of tag names to add instead of IDs (e.g., ["bug"])'),
+        dry_run: dryRunSchema,
       },
+      annotations: ANNOTATIONS.add,
     },
     createToolHandler(
       async (
         client,
-        args: { workspace_id: string; card_id: string; id?: string; ids?: string[] }
+        args: {
+          workspace_id: string
+          card_id: string
+          id?: string
+          ids?: string[]
+          tags?: string[]
+        }
       ) => {
+        const tagIds = args.tags?.length
+          ? await new NameResolver(client).tags(args.workspace_id, args.tags)
+          : []
+
         const params = buildParams<AddTagsToCardParams>({
           id: args.id,
-          ids: args.ids,
+          ids: tagIds.length > 0 ? [...(args.ids ?? []), ...tagIds] : args.ids,
         })
 
         return client.cards.addTags(args.workspace_id, args.card_id, params as AddTagsToCardParams)
@@ -620,13 +812,18 @@ export function registerCardTools(server: McpServer) {
         operations: z
           .array(
             z.object({
-              workspace_id: z.string().describe("Workspace ID"),
+              workspace_id: workspaceIdSchema,
               card_id: z.string().describe("Card ID to remove tag from"),
-              tag_id: z.string().describe("Tag ID to remove"),
+              tag_id: z.string().optional().describe("Tag ID to remove (or use tag)"),
+              tag: z.string().optional().describe("Tag name instead of tag_id"),
             })
           )
           .describe("Array of tag removals (use single-element array for one removal)"),
+        parallel: parallelSchema,
+        stop_on_error: stopOnErrorSchema,
+        dry_run: dryRunSchema,
       },
+      annotations: ANNOTATIONS.delete,
     },
     createToolHandler(
       async (
@@ -635,20 +832,31 @@ export function registerCardTools(server: McpServer) {
           operations: Array<{
             workspace_id: string
             card_id: string
-            tag_id: string
+            tag_id?: string
+            tag?: string
           }>
+          parallel?: boolean
+          stop_on_error?: boolean
         }
       ) => {
-        // Process operations sequentially
-        const results = []
-        for (const operation of args.operations) {
-          const result = await client.cards.removeTag(
-            operation.workspace_id,
-            operation.card_id,
-            operation.tag_id
-          )
-          results.push(result)
-        }
+        const names = new NameResolver(client)
+
+        // Process operations (in parallel if requested)
+        const results = await runBatch(
+          args.operations,
+          async (operation) => {
+            const tagId =
+              operation.tag_id ??
+              (operation.tag
+                ? (await names.tags(operation.workspace_id, [operation.tag]))[0]
+                : undefined)
+            if (!tagId) {
+              throw new ValidationError("Either tag_id or tag must be provided")
+            }
+            return client.cards.removeTag(operation.workspace_id, operation.card_id, tagId)
+          },
+          { ...args, signal: client.signal }
+        )
 
         return { removed: results }
       }
@@ -669,14 +877,19 @@ export function registerCardTools(server: McpServer) {
         operations: z
           .array(
             z.object({
-              workspace_id: z.string().describe("Workspace ID"),
+              workspace_id: workspaceIdSchema,
               card_id: z.string().describe("Card ID to add member to"),
-              user_id: z.string().describe("User ID to add as member"),
+              user_id: z.string().optional().describe("User ID to add as member (or use user)"),
+              user: z.string().optional().describe("User's name or email instead of user_id"),
               role: z.string().optional().describe("Member role (defaults to 'member')"),
             })
           )
           .describe("Array of member additions (use single-element array for one operation)"),
+        parallel: parallelSchema,
+        stop_on_error: stopOnErrorSchema,
+        dry_run: dryRunSchema,
       },
+      annotations: ANNOTATIONS.add,
     },
     createToolHandler(
       async (
@@ -685,22 +898,25 @@ export function registerCardTools(server: McpServer) {
           operations: Array<{
             workspace_id: string
             card_id: string
-            user_id: string
+            user_id?: string
+            user?: string
             role?: string
           }>
+          parallel?: boolean
+          stop_on_error?: boolean
         }
       ) => {
-        // Add members sequentially
-        const results = []
-        for (const op of args.operations) {
-          const result = await client.cards.addMember(
-            op.workspace_id,
-            op.card_id,
-            op.user_id,
-            op.role || "member"
-          )
-          results.push(result)
-        }
+        const names = new NameResolver(client)
+
+        // Add members (in parallel if requested)
+        const results = await runBatch(
+          args.operations,
+          async (op) => {
+            const userId = await names.user(op)
+            return client.cards.addMember(op.workspace_id, op.card_id, userId, op.role || "member")
+          },
+          { ...args, signal: client.signal }
+        )
 
         return { added: results }
       }
@@ -721,13 +937,18 @@ export function registerCardTools(server: McpServer) {
         operations: z
           .array(
             z.object({
-              workspace_id: z.string().describe("Workspace ID"),
+              workspace_id: workspaceIdSchema,
               card_id: z.string().describe("Card ID to remove member from"),
-              user_id: z.string().describe("User ID to remove"),
+              user_id: z.string().optional().describe("User ID to remove (or use user)"),
+              user: z.string().optional().describe("User's name or email instead of user_id"),
             })
           )
           .describe("Array of member removals (use single-element array for one operation)"),
+        parallel: parallelSchema,
+        stop_on_error: stopOnErrorSchema,
+        dry_run: dryRunSchema,
       },
+      annotations: ANNOTATIONS.delete,
     },
     createToolHandler(
       async (
@@ -736,16 +957,22 @@ export function registerCardTools(server: McpServer) {
           operations: Array<{
             workspace_id: string
             card_id: string
-            user_id: string
+            user_id?: string
+            user?: string
           }>
+          parallel?: boolean
+          stop_on_error?: boolean
         }
       ) => {
-        // Remove members sequentially
-        const results = []
-        for (const op of args.operations) {
-          const result = await client.cards.removeMember(op.workspace_id, op.card_id, op.user_id)
-          results.push(result)
-        }
+        const names = new NameResolver(client)
+
+        // Remove members (in parallel if requested)
+        const results = await runBatch(
+          args.operations,
+          async (op) =>
+            client.cards.removeMember(op.workspace_id, op.card_id, await names.user(op)),
+          { ...args, signal: client.signal }
+        )
 
         return { removed: results }
       }
@@ -766,13 +993,18 @@ export function registerCardTools(server: McpServer) {
         checklists: z
           .array(
             z.object({
-              workspace_id: z.string().describe("Workspace ID"),
+              workspace_id: workspaceIdSchema,
               card_id: z.string().describe("Card ID to add checklist to"),
               title: z.string().describe("Checklist title"),
             })
           )
           .describe("Array of checklists to create (use single-element array for one checklist)"),
+        parallel: parallelSchema,
+        stop_on_error: stopOnErrorSchema,
+        atomic: atomicSchema,
+        dry_run: dryRunSchema,
       },
+      annotations: ANNOTATIONS.create,
     },
     createToolHandler(
       async (
@@ -783,18 +1015,32 @@ export function registerCardTools(server: McpServer) {
             card_id: string
             title: string
           }>
+          parallel?: boolean
+          stop_on_error?: boolean
+          atomic?: boolean
         }
       ) => {
-        // Create checklists sequentially
-        const results = []
-        for (const checklist of args.checklists) {
-          const result = await client.cards.createChecklist(
-            checklist.workspace_id,
-            checklist.card_id,
-            checklist.title
-          )
-          results.push(result)
-        }
+        // Create checklists (in parallel if requested)
+        const results = await runBatch(
+          args.checklists,
+          async (checklist, _index, journal) => {
+            const result = await client.cards.createChecklist(
+              checklist.workspace_id,
+              checklist.card_id,
+              checklist.title
+            )
+            const checklistId = createdId(result, "checklist")
+            journal.record("checklist", checklistId, () =>
+              client.cards.deleteChecklist(
+                checklist.workspace_id,
+                checklist.card_id,
+                checklistId as string
+              )
+            )
+            return result
+          },
+          { ...args, signal: client.signal }
+        )
 
         return { checklists: results }
       }
@@ -812,7 +1058,7 @@ export function registerCardTools(server: McpServer) {
       description:
         "Add one or more items to a card's checklist. Item titles can include HTML formatting and support @mentions using {{@Username}} syntax. Always use an array, even for a single item.",
       inputSchema: {
-        workspace_id: z.string().describe("Workspace ID"),
+        workspace_id: workspaceIdSchema,
         card_id: z.string().describe("Card ID containing the checklist"),
         checklist_id: z.string().describe("Checklist ID to add items to"),
         items: z
@@ -827,7 +1073,12 @@ export function registerCardTools(server: McpServer) {
             })
           )
           .describe("Array of checklist items to add (use single-element array for one item)"),
+        parallel: parallelSchema,
+        stop_on_error: stopOnErrorSchema,
+        atomic: atomicSchema,
+        dry_run: dryRunSchema,
       },
+      annotations: ANNOTATIONS.create,
     },
     createToolHandler(
       async (
@@ -837,24 +1088,39 @@ export function registerCardTools(server: McpServer) {
           card_id: string
           checklist_id: string
           items: Array<{ title: string; checked?: boolean }>
+          parallel?: boolean
+          stop_on_error?: boolean
+          atomic?: boolean
         }
       ) => {
-        // Process items sequentially
-        const results = []
-        for (const item of args.items) {
-          // Process @mentions for this item
-          const processedTitle = await formatMentions(item.title, args.workspace_id, client)
+        // Process items (in parallel if requested)
+        const results = await runBatch(
+          args.items,
+          async (item, _index, journal) => {
+            // Process @mentions for this item
+            const processedTitle = await formatMentions(item.title, args.workspace_id, client)
 
-          // Call API for this item
-          const result = await client.cards.addChecklistItem(
-            args.workspace_id,
-            args.card_id,
-            args.checklist_id,
-            processedTitle,
-            item.checked
-          )
-          results.push(result)
-        }
+            // Call API for this item
+            const result = await client.cards.addChecklistItem(
+              args.workspace_id,
+              args.card_id,
+              args.checklist_id,
+              processedTitle,
+              item.checked
+            )
+            const itemId = createdId(result, "item")
+            journal.record("checklist_item", itemId, () =>
+              client.cards.deleteChecklistItem(
+                args.workspace_id,
+                args.card_id,
+                args.checklist_id,
+                itemId as string
+              )
+            )
+            return result
+          },
+          { ...args, signal: client.signal }
+        )
 
         return { items: results }
       }
@@ -872,7 +1138,7 @@ export function registerCardTools(server: McpServer) {
       description:
         "Update one or more checklist items' checked status or titles in a single operation. Each item is fully self-contained with all parameters. Always use an array, even for a single item. Title supports HTML formatting and @mentions using {{@Username}} syntax.",
       inputSchema: {
-        workspace_id: z.string().describe("Workspace ID"),
+        workspace_id: workspaceIdSchema,
         card_id: z.string().describe("Card ID containing the checklist"),
         checklist_id: z.string().describe("Checklist ID containing the items"),
         items: z
@@ -889,7 +1155,11 @@ export function registerCardTools(server: McpServer) {
             })
           )
           .describe("Array of checklist items to update (use single-element array for one item)"),
+        parallel: parallelSchema,
+        stop_on_error: stopOnErrorSchema,
+        dry_run: dryRunSchema,
       },
+      annotations: ANNOTATIONS.update,
     },
     createToolHandler(
       async (
@@ -899,31 +1169,35 @@ export function registerCardTools(server: McpServer) {
           card_id: string
           checklist_id: string
           items: Array<{ item_id: string; checked?: boolean; title?: string }>
+          parallel?: boolean
+          stop_on_error?: boolean
         }
       ) => {
-        // Process items sequentially
-        const results = []
-        for (const item of args.items) {
-          // Process @mentions in title if provided
-          const processedTitle = item.title
-            ? await formatMentions(item.title, args.workspace_id, client)
-            : undefined
+        // Process items (in parallel if requested)
+        const results = await runBatch(
+          args.items,
+          async (item) => {
+            // Process @mentions in title if provided
+            const processedTitle = item.title
+              ? await formatMentions(item.title, args.workspace_id, client)
+              : undefined
 
-          const updates = buildParams<{ checked?: boolean; title?: string }>({
-            checked: item.checked,
-            title: processedTitle,
-          })
+            const updates = buildParams<{ checked?: boolean; title?: string }>({
+              checked: item.checked,
+              title: processedTitle,
+            })
 
-          // Call API for this item
-          const result = await client.cards.updateChecklistItem(
-            args.workspace_id,
-            args.card_id,
-            args.checklist_id,
-            item.item_id,
-            updates
-          )
-          results.push(result)
-        }
+            // Call API for this item
+            return client.cards.updateChecklistItem(
+              args.workspace_id,
+              args.card_id,
+              args.checklist_id,
+              item.item_id,
+              updates
+            )
+          },
+          { ...args, signal: client.signal }
+        )
 
         return { items: results }
       }
@@ -941,11 +1215,15 @@ export function registerCardTools(server: McpServer) {
       description:
         "Permanently delete one or more checklist items. Always use an array, even for a single item.",
       inputSchema: {
-        workspace_id: z.string().describe("Workspace ID"),
+        workspace_id: workspaceIdSchema,
         card_id: z.string().describe("Card ID containing the checklist"),
         checklist_id: z.string().describe("Checklist ID containing the items"),
         item_ids: z.array(z.string()).describe("Array of item IDs to delete"),
+        parallel: parallelSchema,
+        stop_on_error: stopOnErrorSchema,
+        dry_run: dryRunSchema,
       },
+      annotations: ANNOTATIONS.delete,
     },
     createToolHandler(
       async (
@@ -955,19 +1233,22 @@ export function registerCardTools(server: McpServer) {
           card_id: string
           checklist_id: string
           item_ids: string[]
+          parallel?: boolean
+          stop_on_error?: boolean
         }
       ) => {
-        // Process deletions sequentially
-        const results = []
-        for (const itemId of args.item_ids) {
-          const result = await client.cards.deleteChecklistItem(
-            args.workspace_id,
-            args.card_id,
-            args.checklist_id,
-            itemId
-          )
-          results.push(result)
-        }
+        // Process deletions (in parallel if requested)
+        const results = await runBatch(
+          args.item_ids,
+          (itemId) =>
+            client.cards.deleteChecklistItem(
+              args.workspace_id,
+              args.card_id,
+              args.checklist_id,
+              itemId
+            ),
+          { ...args, signal: client.signal }
+        )
 
         return { deleted: results }
       }
@@ -988,14 +1269,18 @@ export function registerCardTools(server: McpServer) {
         checklists: z
           .array(
             z.object({
-              workspace_id: z.string().describe("Workspace ID"),
+              workspace_id: workspaceIdSchema,
               card_id: z.string().describe("Card ID containing the checklist"),
               checklist_id: z.string().describe("Checklist ID to update"),
               title: z.string().describe("New checklist title"),
             })
           )
           .describe("Array of checklists to update (use single-element array for one checklist)"),
+        parallel: parallelSchema,
+        stop_on_error: stopOnErrorSchema,
+        dry_run: dryRunSchema,
       },
+      annotations: ANNOTATIONS.update,
     },
     createToolHandler(
       async (
@@ -1007,19 +1292,22 @@ export function registerCardTools(server: McpServer) {
             checklist_id: string
             title: string
           }>
+          parallel?: boolean
+          stop_on_error?: boolean
         }
       ) => {
-        // Update checklists sequentially
-        const results = []
-        for (const checklist of args.checklists) {
-          const result = await client.cards.updateChecklist(
-            checklist.workspace_id,
-            checklist.card_id,
-            checklist.checklist_id,
-            checklist.title
-          )
-          results.push(result)
-        }
+        // Update checklists (in parallel if requested)
+        const results = await runBatch(
+          args.checklists,
+          (checklist) =>
+            client.cards.updateChecklist(
+              checklist.workspace_id,
+              checklist.card_id,
+              checklist.checklist_id,
+              checklist.title
+            ),
+          { ...args, signal: client.signal }
+        )
 
         return { checklists: results }
       }
@@ -1040,13 +1328,17 @@ export function registerCardTools(server: McpServer) {
         checklists: z
           .array(
             z.object({
-              workspace_id: z.string().describe("Workspace ID"),
+              workspace_id: workspaceIdSchema,
               card_id: z.string().describe("Card ID containing the checklist"),
               checklist_id: z.string().describe("Checklist ID to delete"),
             })
           )
           .describe("Array of checklists to delete (use single-element array for one checklist)"),
+        parallel: parallelSchema,
+        stop_on_error: stopOnErrorSchema,
+        dry_run: dryRunSchema,
       },
+      annotations: ANNOTATIONS.delete,
     },
     createToolHandler(
       async (
@@ -1057,18 +1349,21 @@ export function registerCardTools(server: McpServer) {
             card_id: string
             checklist_id: string
           }>
+          parallel?: boolean
+          stop_on_error?: boolean
         }
       ) => {
-        // Delete checklists sequentially
-        const results = []
-        for (const checklist of args.checklists) {
-          const result = await client.cards.deleteChecklist(
-            checklist.workspace_id,
-            checklist.card_id,
-            checklist.checklist_id
-          )
-          results.push(result)
-        }
+        // Delete checklists (in parallel if requested)
+        const results = await runBatch(
+          args.checklists,
+          (checklist) =>
+            client.cards.deleteChecklist(
+              checklist.workspace_id,
+              checklist.card_id,
+              checklist.checklist_id
+            ),
+          { ...args, signal: client.signal }
+        )
 
         return { deleted: results }
       }
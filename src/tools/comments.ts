@@ -11,7 +11,26 @@ import type {
   UpdateCommentParams,
   ReplyToCommentParams,
 } from "../api/comments.js"
-import { createToolHandler, buildParams } from "./helpers.js"
+import {
+  createToolHandler,
+  buildParams,
+  runBatch,
+  parallelSchema,
+  stopOnErrorSchema,
+  dryRunSchema,
+  ANNOTATIONS,
+  fieldsSchema,
+  compactSchema,
+  formatSchema,
+  urlSchema,
+  workspaceIdSchema,
+  linkedWorkspaceIdSchema,
+} from "./helpers.js"
+import { formatComments } from "./markdown.js"
+import { commentBatchOutputSchema, commentListOutputSchema } from "./schemas.js"
+import { ValidationError } from "../errors.js"
+import { parseSuperthreadUrl } from "../urls.js"
+import { defaultWorkspaceId } from "../workspaces.js"
 
 /**
  * Registers comment management tools with the MCP server.
@@ -33,7 +52,10 @@ export function registerCommentTools(server: McpServer) {
         comments: z
           .array(
             z.object({
-              workspace_id: z.string().describe("Workspace ID"),
+              url: urlSchema.describe(
+                "Superthread link to the card or page to comment on, e.g. pasted from the browser. Use instead of workspace_id and card_id or page_id."
+              ),
+              workspace_id: linkedWorkspaceIdSchema,
               content: z
                 .string()
                 .max(102400)
@@ -47,46 +69,59 @@ export function registerCommentTools(server: McpServer) {
             })
           )
           .describe("Array of comments to create (use single-element array for one comment)"),
+        parallel: parallelSchema,
+        stop_on_error: stopOnErrorSchema,
+        dry_run: dryRunSchema,
       },
+      annotations: ANNOTATIONS.create,
     },
     createToolHandler(
       async (
         client,
         args: {
           comments: Array<{
-            workspace_id: string
+            url?: string
+            workspace_id?: string
             content: string
             card_id?: string
             page_id?: string
             schema?: number
             context?: string
           }>
+          parallel?: boolean
+          stop_on_error?: boolean
         }
       ) => {
-        // Process comments sequentially
-        const results = []
-        for (const comment of args.comments) {
-          // Process @mentions in content
-          const processedContent = await formatMentions(
-            comment.content,
-            comment.workspace_id,
-            client
-          )
+        // Process comments (in parallel if requested)
+        const results = await runBatch(
+          args.comments,
+          async (comment) => {
+            const link = comment.url ? parseSuperthreadUrl(comment.url) : undefined
+            if (link && link.type !== "card" && link.type !== "page") {
+              throw new ValidationError(
+                `Comments can only be added to cards and pages, got a link to a ${link.type}`
+              )
+            }
+            const workspaceId = comment.workspace_id ?? link?.workspaceId ?? defaultWorkspaceId()
+            if (!workspaceId) {
+              throw new ValidationError("Either url or workspace_id must be provided")
+            }
 
-          const params = buildParams<CreateCommentParams>({
-            content: processedContent,
-            card_id: comment.card_id,
-            page_id: comment.page_id,
-            schema: comment.schema,
-            context: comment.context,
-          })
+            // Process @mentions in content
+            const processedContent = await formatMentions(comment.content, workspaceId, client)
 
-          const result = await client.comments.create(
-            comment.workspace_id,
-            params as CreateCommentParams
-          )
-          results.push(result)
-        }
+            const params = buildParams<CreateCommentParams>({
+              content: processedContent,
+              card_id: comment.card_id ?? (link?.type === "card" ? link.id : undefined),
+              page_id: comment.page_id ?? (link?.type === "page" ? link.id : undefined),
+              schema: comment.schema,
+              context: comment.context,
+            })
+
+            return client.comments.create(workspaceId, params as CreateCommentParams)
+          },
+          { ...args, signal: client.signal }
+        )
 
         return { comments: results }
       }
@@ -107,7 +142,7 @@ export function registerCommentTools(server: McpServer) {
         comments: z
           .array(
             z.object({
-              workspace_id: z.string().describe("Workspace ID"),
+              workspace_id: workspaceIdSchema,
               comment_id: z.string().describe("Comment ID to update"),
               content: z
                 .string()
@@ -125,7 +160,11 @@ export function registerCommentTools(server: McpServer) {
             })
           )
           .describe("Array of comments to update (use single-element array for one comment)"),
+        parallel: parallelSchema,
+        stop_on_error: stopOnErrorSchema,
+        dry_run: dryRunSchema,
       },
+      annotations: ANNOTATIONS.update,
     },
     createToolHandler(
       async (
@@ -139,30 +178,34 @@ export function registerCommentTools(server: McpServer) {
             context?: string
             schema?: number
           }>
+          parallel?: boolean
+          stop_on_error?: boolean
         }
       ) => {
-        // Process comments sequentially
-        const results = []
-        for (const comment of args.comments) {
-          // Process @mentions in content if provided
-          const processedContent = comment.content
-            ? await formatMentions(comment.content, comment.workspace_id, client)
-            : undefined
+        // Process comments (in parallel if requested)
+        const results = await runBatch(
+          args.comments,
+          async (comment) => {
+            // Process @mentions in content if provided
+            const processedContent = comment.content
+              ? await formatMentions(comment.content, comment.workspace_id, client)
+              : undefined
 
-          const params = buildParams<UpdateCommentParams>({
-            content: processedContent,
-            status: comment.status,
-            context: comment.context,
-            schema: comment.schema,
-          })
+            const params = buildParams<UpdateCommentParams>({
+              content: processedContent,
+              status: comment.status,
+              context: comment.context,
+              schema: comment.schema,
+            })
 
-          const result = await client.comments.update(
-            comment.workspace_id,
-            comment.comment_id,
-            params as UpdateCommentParams
-          )
-          results.push(result)
-        }
+            return client.comments.update(
+              comment.workspace_id,
+              comment.comment_id,
+              params as UpdateCommentParams
+            )
+          },
+          { ...args, signal: client.signal }
+        )
 
         return { comments: results }
       }
@@ -183,7 +226,7 @@ export function registerCommentTools(server: McpServer) {
         replies: z
           .array(
             z.object({
-              workspace_id: z.string().describe("Workspace ID"),
+              workspace_id: workspaceIdSchema,
               comment_id: z.string().describe("Parent comment ID to reply to"),
               content: z
                 .string()
@@ -195,7 +238,11 @@ export function registerCommentTools(server: McpServer) {
             })
           )
           .describe("Array of replies to create (use single-element array for one reply)"),
+        parallel: parallelSchema,
+        stop_on_error: stopOnErrorSchema,
+        dry_run: dryRunSchema,
       },
+      annotations: ANNOTATIONS.create,
     },
     createToolHandler(
       async (
@@ -207,26 +254,30 @@ export function registerCommentTools(server: McpServer) {
             content: string
             schema?: number
           }>
+          parallel?: boolean
+          stop_on_error?: boolean
         }
       ) => {
-        // Process replies sequentially
-        const results = []
-        for (const reply of args.replies) {
-          // Process @mentions in content
-          const processedContent = await formatMentions(reply.content, reply.workspace_id, client)
+        // Process replies (in parallel if requested)
+        const results = await runBatch(
+          args.replies,
+          async (reply) => {
+            // Process @mentions in content
+            const processedContent = await formatMentions(reply.content, reply.workspace_id, client)
 
-          const params = buildParams<ReplyToCommentParams>({
-            content: processedContent,
-            schema: reply.schema,
-          })
+            const params = buildParams<ReplyToCommentParams>({
+              content: processedContent,
+              schema: reply.schema,
+            })
 
-          const result = await client.comments.reply(
-            reply.workspace_id,
-            reply.comment_id,
-            params as ReplyToCommentParams
-          )
-          results.push(result)
-        }
+            return client.comments.reply(
+              reply.workspace_id,
+              reply.comment_id,
+              params as ReplyToCommentParams
+            )
+          },
+          { ...args, signal: client.signal }
+        )
 
         return { replies: results }
       }
@@ -247,24 +298,38 @@ export function registerCommentTools(server: McpServer) {
         comments: z
           .array(
             z.object({
-              workspace_id: z.string().describe("Workspace ID"),
+              workspace_id: workspaceIdSchema,
               comment_id: z.string().describe("Comment ID to retrieve"),
             })
           )
           .describe("Array of comments to retrieve (use single-element array for one comment)"),
+        parallel: parallelSchema,
+        stop_on_error: stopOnErrorSchema,
+        fields: fieldsSchema,
+        compact: compactSchema,
       },
+      annotations: ANNOTATIONS.read,
+      outputSchema: commentBatchOutputSchema,
     },
     createToolHandler(
-      async (client, args: { comments: Array<{ workspace_id: string; comment_id: string }> }) => {
-        // Process comments sequentially
-        const results = []
-        for (const comment of args.comments) {
-          const result = await client.comments.get(comment.workspace_id, comment.comment_id)
-          results.push(result)
+      async (
+        client,
+        args: {
+          comments: Array<{ workspace_id: string; comment_id: string }>
+          parallel?: boolean
+          stop_on_error?: boolean
         }
+      ) => {
+        // Process comments (in parallel if requested)
+        const results = await runBatch(
+          args.comments,
+          (comment) => client.comments.get(comment.workspace_id, comment.comment_id),
+          { ...args, signal: client.signal }
+        )
 
         return { comments: results }
-      }
+      },
+      { structured: true }
     )
   )
 
@@ -282,12 +347,16 @@ export function registerCommentTools(server: McpServer) {
         comments: z
           .array(
             z.object({
-              workspace_id: z.string().describe("Workspace ID"),
+              workspace_id: workspaceIdSchema,
               comment_id: z.string().describe("Comment ID to delete"),
             })
           )
           .describe("Array of comments to delete (use single-element array for one comment)"),
+        parallel: parallelSchema,
+        stop_on_error: stopOnErrorSchema,
+        dry_run: dryRunSchema,
       },
+      annotations: ANNOTATIONS.delete,
     },
     createToolHandler(
       async (
@@ -297,14 +366,16 @@ export function registerCommentTools(server: McpServer) {
             workspace_id: string
             comment_id: string
           }>
+          parallel?: boolean
+          stop_on_error?: boolean
         }
       ) => {
-        // Process comments sequentially
-        const results = []
-        for (const comment of args.comments) {
-          const result = await client.comments.delete(comment.workspace_id, comment.comment_id)
-          results.push(result)
-        }
+        // Process comments (in parallel if requested)
+        const results = await runBatch(
+          args.comments,
+          (comment) => client.comments.delete(comment.workspace_id, comment.comment_id),
+          { ...args, signal: client.signal }
+        )
 
         return { deleted: results }
       }
@@ -322,13 +393,21 @@ export function registerCommentTools(server: McpServer) {
       description:
         "Retrieves a list of comments (child comments or replies) associated with a parent comment. The response includes nested metadata and pagination details.",
       inputSchema: {
-        workspace_id: z.string().describe("Workspace ID"),
+        workspace_id: workspaceIdSchema,
         comment_id: z.string().describe("Parent comment ID to get replies from"),
+        fields: fieldsSchema,
+        compact: compactSchema,
+        format: formatSchema,
       },
+      annotations: ANNOTATIONS.read,
+      outputSchema: commentListOutputSchema,
     },
-    createToolHandler(async (client, args) => {
-      return client.comments.getReplies(args.workspace_id, args.comment_id)
-    })
+    createToolHandler(
+      async (client, args) => {
+        return client.comments.getReplies(args.workspace_id, args.comment_id)
+      },
+      { structured: true, markdown: formatComments }
+    )
   )
 
   // ============================================================================
@@ -345,7 +424,7 @@ export function registerCommentTools(server: McpServer) {
         replies: z
           .array(
             z.object({
-              workspace_id: z.string().describe("Workspace ID"),
+              workspace_id: workspaceIdSchema,
               comment_id: z.string().describe("Parent comment ID"),
               child_comment_id: z.string().describe("Child comment ID to update"),
               content: z
@@ -364,7 +443,11 @@ export function registerCommentTools(server: McpServer) {
             })
           )
           .describe("Array of replies to update (use single-element array for one reply)"),
+        parallel: parallelSchema,
+        stop_on_error: stopOnErrorSchema,
+        dry_run: dryRunSchema,
       },
+      annotations: ANNOTATIONS.update,
     },
     createToolHandler(
       async (
@@ -379,31 +462,35 @@ export function registerCommentTools(server: McpServer) {
             context?: string
             schema?: number
           }>
+          parallel?: boolean
+          stop_on_error?: boolean
         }
       ) => {
-        // Process replies sequentially
-        const results = []
-        for (const reply of args.replies) {
-          // Process @mentions in content if provided
-          const processedContent = reply.content
-            ? await formatMentions(reply.content, reply.workspace_id, client)
-            : undefined
+        // Process replies (in parallel if requested)
+        const results = await runBatch(
+          args.replies,
+          async (reply) => {
+            // Process @mentions in content if provided
+            const processedContent = reply.content
+              ? await formatMentions(reply.content, reply.workspace_id, client)
+              : undefined
 
-          const params = buildParams<UpdateCommentParams>({
-            content: processedContent,
-            status: reply.status,
-            context: reply.context,
-            schema: reply.schema,
-          })
+            const params = buildParams<UpdateCommentParams>({
+              content: processedContent,
+              status: reply.status,
+              context: reply.context,
+              schema: reply.schema,
+            })
 
-          const result = await client.comments.updateReply(
-            reply.workspace_id,
-            reply.comment_id,
-            reply.child_comment_id,
-            params as UpdateCommentParams
-          )
-          results.push(result)
-        }
+            return client.comments.updateReply(
+              reply.workspace_id,
+              reply.comment_id,
+              reply.child_comment_id,
+              params as UpdateCommentParams
+            )
+          },
+          { ...args, signal: client.signal }
+        )
 
         return { replies: results }
       }
@@ -424,13 +511,17 @@ export function registerCommentTools(server: McpServer) {
         replies: z
           .array(
             z.object({
-              workspace_id: z.string().describe("Workspace ID"),
+              workspace_id: workspaceIdSchema,
               comment_id: z.string().describe("Parent comment ID"),
               child_comment_id: z.string().describe("Child comment ID to delete"),
             })
           )
           .describe("Array of replies to delete (use single-element array for one reply)"),
+        parallel: parallelSchema,
+        stop_on_error: stopOnErrorSchema,
+        dry_run: dryRunSchema,
       },
+      annotations: ANNOTATIONS.delete,
     },
     createToolHandler(
       async (
@@ -441,18 +532,21 @@ export function registerCommentTools(server: McpServer) {
             comment_id: string
             child_comment_id: string
           }>
+          parallel?: boolean
+          stop_on_error?: boolean
         }
       ) => {
-        // Process replies sequentially
-        const results = []
-        for (const reply of args.replies) {
-          const result = await client.comments.deleteReply(
-            reply.workspace_id,
-            reply.comment_id,
-            reply.child_comment_id
-          )
-          results.push(result)
-        }
+        // Process replies (in parallel if requested)
+        const results = await runBatch(
+          args.replies,
+          (reply) =>
+            client.comments.deleteReply(
+              reply.workspace_id,
+              reply.comment_id,
+              reply.child_comment_id
+            ),
+          { ...args, signal: client.signal }
+        )
 
         return { deleted: results }
       }
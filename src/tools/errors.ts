@@ -0,0 +1,137 @@
+/**
+ * @fileoverview Structured error reporting for tool results.
+ * Converts thrown errors into a machine-readable payload with remediation hints,
+ * so the LLM can recover (e.g., look up a valid ID) instead of guessing.
+ */
+
+import { SuperthreadError, type SuperthreadErrorCode } from "../errors.js"
+
+/**
+ * Structured error returned to MCP clients alongside the error message.
+ */
+export interface ToolError {
+  /** Machine-readable error code (e.g., "not_found", "rate_limited") */
+  code: SuperthreadErrorCode | "internal_error"
+  message: string
+  /** HTTP status returned by the API, if the request got a response */
+  status?: number
+  /** Request that failed, as "METHOD /path" */
+  endpoint?: string
+  /** Parsed API response body */
+  details?: unknown
+  /** Suggested next steps for recovering from the error */
+  hints: string[]
+}
+
+/**
+ * Hints for finding valid IDs, keyed by API path segment.
+ * API terminology differs from the UI: "projects" are spaces and "epics" are projects.
+ */
+const DISCOVERY_HINTS: Record<string, string> = {
+  boards: "Call board_get_all with a space_id to discover board IDs.",
+  lists: "Call board_get to discover list IDs.",
+  cards: "Call search_get or card_get_assigned to find card IDs.",
+  checklists: "Call card_get to discover the card's checklist and item IDs.",
+  items: "Call card_get to discover the card's checklist and item IDs.",
+  members: "Call user_get_members to discover user IDs.",
+  tags: "Call card_get_tags to discover tag IDs.",
+  projects: "Call space_get_all to discover space IDs.",
+  epics: "Call project_get_all to discover project IDs.",
+  pages: "Call page_get_all to discover page IDs.",
+  notes: "Call note_get_all to discover note IDs.",
+  comments: "Call card_get or page_get to discover comment IDs.",
+  children: "Call comment_get_replies to discover reply IDs.",
+  sprints: "Call sprint_get_all with a space_id to discover sprint IDs.",
+}
+
+/**
+ * Returns discovery hints for the resources named in an endpoint, most specific first.
+ *
+ * @param endpoint - Failed request as "METHOD /path"
+ * @returns Unique hints for each resource segment in the path
+ *
+ * @example
+ * discoveryHints("GET /ws1/cards/c1/checklists/x")
+ * // ["Call card_get to discover the card's checklist and item IDs.", "Call search_get or ..."]
+ */
+function discoveryHints(endpoint?: string): string[] {
+  const path = endpoint?.split(" ")[1] ?? ""
+  const hints = path
+    .split("/")
+    .reverse()
+    .map((segment) => DISCOVERY_HINTS[segment])
+    .filter((hint): hint is string => !!hint)
+  return [...new Set(hints)]
+}
+
+/**
+ * Returns remediation hints for an error.
+ *
+ * @param error - Typed Superthread error
+ * @returns Suggested next steps (may be empty)
+ */
+function remediationHints(error: SuperthreadError): string[] {
+  switch (error.code) {
+    case "not_found":
+      return [
+        ...discoveryHints(error.endpoint),
+        "Check that workspace_id is correct; user_get_my_account lists your workspaces.",
+      ]
+    case "auth_error":
+      return [
+        "Check that the API key (SUPERTHREAD_API_KEY or the session's bearer token) is valid.",
+        "Confirm the key's user is a member of the workspace, space, or board being accessed.",
+      ]
+    case "rate_limited":
+      return [
+        "Wait before retrying, and avoid parallel batch mode for large batches.",
+        "Lower SUPERTHREAD_RATE_LIMIT_RPS if this happens often.",
+      ]
+    case "validation_error":
+      return [
+        "Check the arguments against the tool's input schema and the API error details.",
+        ...(error.endpoint?.includes("/cards") ? [DISCOVERY_HINTS.lists] : []),
+      ]
+    case "invalid_id":
+      return ["IDs may only contain letters, numbers, hyphens, and underscores."]
+    case "timeout":
+      return [
+        "Retry the call; increase SUPERTHREAD_REQUEST_TIMEOUT_MS if the API is consistently slow.",
+      ]
+    case "network_error":
+      return ["Check network connectivity to the Superthread API and retry."]
+    default:
+      return error.status !== undefined && error.status >= 500
+        ? ["The Superthread API had a server error; retry later."]
+        : []
+  }
+}
+
+/**
+ * Converts a thrown error into a structured tool error.
+ *
+ * @param error - Error thrown by a tool handler
+ * @returns Structured error with code, API context, and remediation hints
+ *
+ * @example
+ * toToolError(new NotFoundError("Superthread API error (404): ...", { endpoint: "GET /ws/lists/l1" }))
+ * // { code: "not_found", hints: ["Call board_get to discover list IDs.", ...], ... }
+ */
+export function toToolError(error: unknown): ToolError {
+  if (error instanceof SuperthreadError) {
+    return {
+      code: error.code,
+      message: error.message,
+      status: error.status,
+      endpoint: error.endpoint,
+      details: error.body,
+      hints: remediationHints(error),
+    }
+  }
+
+  return {
+    code: "internal_error",
+    message: error instanceof Error ? error.message : String(error),
+    hints: [],
+  }
+}
@@ -3,7 +3,21 @@
  * Provides utilities to reduce boilerplate in tool handlers.
  */
 
+import { createHash } from "node:crypto"
+import { z } from "zod"
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js"
+import type {
+  ServerNotification,
+  ServerRequest,
+  ToolAnnotations,
+} from "@modelcontextprotocol/sdk/types.js"
 import { createClient, type SuperthreadClient } from "../api/client.js"
+import { config } from "../config.js"
+import { toToolError, type ToolError } from "./errors.js"
+import type { MarkdownFormatter } from "./markdown.js"
+import { shapeResponse } from "./shaping.js"
+import { limitResponse, truncationNotice } from "./truncation.js"
+import { resolveWorkspaceAlias, resolveWorkspaceId } from "../workspaces.js"
 
 /**
  * Tool response type for MCP tool handlers
@@ -14,18 +28,83 @@ export interface ToolResponse {
     type: "text"
     text: string
   }>
+  structuredContent?: Record<string, unknown>
   isError?: boolean
 }
 
+/**
+ * Options for createToolHandler.
+ */
+export interface ToolHandlerOptions {
+  /** Also return the result as structuredContent (required for tools with an outputSchema) */
+  structured?: boolean
+  /** Renders the result as Markdown when the caller passes `format: "markdown"` */
+  markdown?: MarkdownFormatter
+  /** Truncate results larger than SUPERTHREAD_MAX_RESPONSE_CHARS (default: true) */
+  truncate?: boolean
+}
+
+/**
+ * Tool arguments read by createToolHandler itself rather than the tool's handler.
+ */
+interface HandlerArgs {
+  /** Per-call dry-run flag (see dryRunSchema) */
+  dry_run?: boolean
+  /** Entity field projection (see fieldsSchema) */
+  fields?: string[]
+  /** Compact mode override (see compactSchema) */
+  compact?: boolean
+  /** Text output format (see formatSchema) */
+  format?: "json" | "markdown"
+}
+
+/**
+ * Extra request context the MCP SDK passes to tool handlers (session, auth, abort signal).
+ */
+export type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>
+
+/**
+ * Identifies the caller of a tool: its MCP session (HTTP transport) and API key. Hashed, so
+ * state kept per caller (e.g., truncated results) doesn't hold the API key itself.
+ *
+ * @param extra - Request context from the MCP SDK
+ * @returns Opaque caller ID
+ */
+export function callerId(extra?: ToolExtra): string {
+  return createHash("sha256")
+    .update(`${extra?.sessionId ?? ""}:${extra?.authInfo?.token || config.apiKey}`)
+    .digest("hex")
+}
+
 /**
  * Wraps a tool handler with standard error handling, client creation, and response formatting.
  *
- * This handler transparently returns the full JSON API response to the LLM without filtering
- * or transformation. This approach allows the LLM to see all available data and intelligently
- * decide which fields are relevant to the user's query, rather than us pre-filtering and
- * potentially losing useful context.
+ * The client is resolved per session: if the session was opened with its own API key
+ * (HTTP transport with an Authorization header), calls are made as that user. The client
+ * is also bound to the MCP request's abort signal, so cancelling the tool call aborts
+ * in-flight API requests and stops any remaining batch items.
+ *
+ * The handler's result then goes through these steps, in order:
+ *
+ * 1. Shaping (see shapeResponse): read tools accept `fields` to project entities and
+ *    `compact` to strip noise; SUPERTHREAD_VERBOSITY=compact makes compact the default.
+ * 2. Truncation (see limitResponse, skipped with `truncate: false`): results larger than
+ *    SUPERTHREAD_MAX_RESPONSE_CHARS have their top-level arrays cut, and the rest can be
+ *    fetched by the same caller with the returned continuation token.
+ * 3. Dry-run wrapping: in dry-run mode (SUPERTHREAD_DRY_RUN or the tool's `dry_run`
+ *    argument), mutating requests are not sent, and the result, which contains placeholder
+ *    data, is returned alongside the planned requests.
+ * 4. Output: the text content is JSON, or Markdown when the tool has a `markdown` formatter
+ *    and the caller passes `format: "markdown"` (not for dry-run plans). With `structured`,
+ *    the same output is also returned as `structuredContent`, which tools that declare an
+ *    `outputSchema` must provide.
  *
- * @param handler - The handler function that receives the API client and arguments
+ * Failures return the error message followed by a structured error object (code, status,
+ * endpoint, API response body, and remediation hints) as JSON.
+ *
+ * @param handler - The handler function that receives the API client, arguments, and request
+ *   context
+ * @param options - Response options
  * @returns A wrapped handler with consistent error handling and response formatting
  *
  * @example
@@ -40,34 +119,463 @@ export interface ToolResponse {
  * ```
  */
 export function createToolHandler<TArgs, TResult>(
-  handler: (client: SuperthreadClient, args: TArgs) => Promise<TResult>
-): (args: TArgs) => Promise<ToolResponse> {
-  return async (args: TArgs): Promise<ToolResponse> => {
+  handler: (client: SuperthreadClient, args: TArgs, extra?: ToolExtra) => Promise<TResult>,
+  options: ToolHandlerOptions = {}
+): (args: TArgs, extra?: ToolExtra) => Promise<ToolResponse> {
+  return async (args: TArgs, extra?: ToolExtra): Promise<ToolResponse> => {
     try {
-      const client = createClient()
-      const result = await handler(client, args)
+      const { dry_run, fields, compact, format } = args as HandlerArgs
+      const client = createClient(extra?.authInfo?.token, extra?.signal, config.dryRun || !!dry_run)
+      const shaped = shapeResponse(await handler(client, args, extra), {
+        fields,
+        compact: compact ?? config.verbosity === "compact",
+      })
+      const result =
+        options.truncate === false
+          ? shaped
+          : limitResponse(shaped, config.maxResponseChars, callerId(extra))
+
+      // Reads are sent even in dry-run mode, so only report a plan if something was planned
+      const output =
+        client.plannedRequests.length > 0
+          ? { dry_run: true, requests: client.plannedRequests, result }
+          : result
+
+      const text =
+        format === "markdown" && options.markdown && output === result
+          ? [options.markdown(result), truncationNotice(result)].filter(Boolean).join("\n\n")
+          : JSON.stringify(output, null, 2)
 
       return {
         content: [
           {
             type: "text",
-            text: JSON.stringify(result, null, 2),
+            text,
           },
         ],
+        ...(options.structured && { structuredContent: output as Record<string, unknown> }),
       }
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error)
-      return {
+      return errorResponse(error)
+    }
+  }
+}
+
+/**
+ * Wraps a tool handler that doesn't call the Superthread API, such as the lazy mode
+ * meta-tools. No API client is created, so these tools work before an API key is configured.
+ * The result is returned as JSON and failures are reported as in createToolHandler.
+ *
+ * @param handler - The handler function that receives the arguments
+ * @returns A wrapped handler with consistent error handling and response formatting
+ *
+ * @example
+ * ```typescript
+ * server.registerTool(
+ *   "superthread_list_domains",
+ *   { title, description, inputSchema: {} },
+ *   createLocalToolHandler(() => ({ domains: AVAILABLE_DOMAINS }))
+ * )
+ * ```
+ */
+export function createLocalToolHandler<TArgs, TResult>(
+  handler: (args: TArgs) => TResult
+): (args: TArgs) => Promise<ToolResponse> {
+  return (args: TArgs): Promise<ToolResponse> => {
+    try {
+      return Promise.resolve({
         content: [
           {
             type: "text",
-            text: `Error: ${errorMessage}`,
+            text: JSON.stringify(handler(args), null, 2),
           },
         ],
-        isError: true,
+      })
+    } catch (error) {
+      return Promise.resolve(errorResponse(error))
+    }
+  }
+}
+
+/**
+ * Builds the response for a failed tool call: the error message followed by the structured
+ * error as JSON.
+ */
+function errorResponse(error: unknown): ToolResponse {
+  const toolError = toToolError(error)
+  return {
+    content: [
+      {
+        type: "text",
+        text: `Error: ${toolError.message}`,
+      },
+      {
+        type: "text",
+        text: JSON.stringify({ error: toolError }, null, 2),
+      },
+    ],
+    isError: true,
+  }
+}
+
+/**
+ * MCP tool annotations shared by tools with the same kind of side effects.
+ * Every tool declares one of these so clients can warn before destructive calls.
+ *
+ * All tools act only on the user's Superthread workspace, a closed domain, so
+ * openWorldHint is false throughout.
+ */
+export const ANNOTATIONS = {
+  /** Reads data without changing anything */
+  read: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: false },
+  /** Creates new entities; repeating the call creates duplicates */
+  create: {
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: false,
+  },
+  /** Adds an association (tag, member, relation); repeating it has no further effect */
+  add: { readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: false },
+  /** Overwrites existing fields */
+  update: {
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+  /** Deletes, archives, or removes data */
+  delete: {
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+} satisfies Record<string, ToolAnnotations>
+
+/**
+ * Input schema for previewing a mutating tool call.
+ * Offered on every tool that creates, changes, or deletes data.
+ */
+export const dryRunSchema = z
+  .boolean()
+  .optional()
+  .describe(
+    "Preview only (default: false). Returns the HTTP method, path, and JSON body of each request that would be sent, without changing anything. Lookups needed to plan the requests are still made."
+  )
+
+/**
+ * Input schema for the workspace of a tool call.
+ * Accepts a workspace ID or alias and falls back to the default workspace, so handlers always
+ * receive a workspace ID. Without a default workspace, omitting it fails validation.
+ */
+export const workspaceIdSchema = z
+  .string()
+  .optional()
+  .describe("Workspace ID or alias (optional if a default workspace is configured)")
+  .transform((workspace, ctx) => {
+    try {
+      return resolveWorkspaceId(workspace)
+    } catch (error) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: (error as Error).message })
+      return z.NEVER
+    }
+  })
+
+/**
+ * Input schema for the workspace of tools that also accept a `url` (see urlSchema).
+ * Resolves aliases only; the handler falls back to the link's workspace, then the default.
+ */
+export const linkedWorkspaceIdSchema = z
+  .string()
+  .optional()
+  .describe("Workspace ID or alias (or use url)")
+  .transform((workspace) => (workspace ? resolveWorkspaceAlias(workspace) : undefined))
+
+/**
+ * Input schema for identifying an entity by its Superthread web link (see urls.ts).
+ * Offered on get and update tools as an alternative to workspace_id and the entity ID.
+ */
+export const urlSchema = z
+  .string()
+  .optional()
+  .describe(
+    "Superthread link to the entity, e.g. pasted from the browser (https://app.superthread.com/<workspace>/card/<id>). Use instead of workspace_id and the entity ID."
+  )
+
+/**
+ * Input schema for choosing the text format of read tools that support Markdown rendering.
+ */
+export const formatSchema = z
+  .enum(["json", "markdown"])
+  .optional()
+  .describe(
+    "Text output format (default: json). 'markdown' returns a human-readable rendering that can be quoted directly to the user."
+  )
+
+/**
+ * Input schema for projecting read tool results to selected fields.
+ */
+export const fieldsSchema = z
+  .array(z.string())
+  .optional()
+  .describe(
+    "Only return these fields on each entity (any object with an id), e.g. ['title', 'list_id', 'due_date']. 'id' is always included. Nested entities are kept only if their field is listed, e.g. ['title', 'lists', 'cards'] for a board's lists and cards. Omit for all fields."
+  )
+
+/**
+ * Input schema for compact mode on read tools.
+ */
+export const compactSchema = z
+  .boolean()
+  .optional()
+  .describe(
+    "Strip null values, empty strings, and display-only fields such as blurhashes and avatar URLs to save tokens. Defaults to the server's configured verbosity."
+  )
+
+/**
+ * Input schema for the opt-in parallel mode of batch tools.
+ * Only offered on tools whose items don't depend on each other.
+ */
+export const parallelSchema = z
+  .boolean()
+  .optional()
+  .describe(
+    "Process items in parallel instead of one after another (default: false). Only use when items don't depend on each other. Requests are still rate limited."
+  )
+
+/**
+ * Input schema for stopping a batch at its first failure.
+ * Offered on every batch tool; by default batches continue past failed items.
+ */
+export const stopOnErrorSchema = z
+  .boolean()
+  .optional()
+  .describe(
+    "Stop processing at the first failed item instead of continuing (default: false). Remaining items are reported as skipped. Has no effect on items already started in parallel mode."
+  )
+
+/**
+ * Input schema for transactional batches.
+ * Offered on batch tools that create entities, since only creations can be undone by deleting.
+ */
+export const atomicSchema = z
+  .boolean()
+  .optional()
+  .describe(
+    "All-or-nothing mode (default: false). If any item fails, entities this call already created are deleted in reverse order. Implies sequential processing and stop_on_error. Rollback is best-effort: each item reports what was rolled back and what could not be."
+  )
+
+/**
+ * Options controlling how a batch is processed.
+ */
+export interface BatchOptions {
+  /** Process items concurrently instead of sequentially */
+  parallel?: boolean
+  /** Skip the remaining items after the first failure */
+  stop_on_error?: boolean
+  /** Undo journaled creations if any item fails (forces sequential processing) */
+  atomic?: boolean
+  /** Stops the batch when aborted (e.g., the client's signal, when the tool call is cancelled) */
+  signal?: AbortSignal
+}
+
+/**
+ * Journal of entities created by a batch item, used to roll them back in atomic mode.
+ */
+export interface BatchJournal {
+  /**
+   * Records a created entity and how to delete it.
+   *
+   * @param entity - Entity type for the rollback report (e.g., "card")
+   * @param id - ID of the created entity (undefined if the API response didn't include one)
+   * @param undo - Deletes the entity
+   */
+  record(entity: string, id: string | undefined, undo: () => Promise<unknown>): void
+}
+
+/**
+ * Outcome of undoing one journaled entity.
+ */
+export interface RollbackEntry {
+  entity: string
+  id?: string
+  status: "rolled_back" | "failed"
+  error?: ToolError
+}
+
+/**
+ * Outcome of one batch item, reported at the item's position in the input array.
+ *
+ * After an atomic batch is rolled back, items that had succeeded are reported as
+ * "rolled_back" (or "rollback_failed" if any of their entities could not be deleted).
+ */
+export type BatchItemResult<TResult> =
+  | { index: number; status: "success"; result: TResult }
+  | {
+      index: number
+      status: "rolled_back" | "rollback_failed"
+      result: TResult
+      rollback: RollbackEntry[]
+    }
+  | { index: number; status: "error"; error: ToolError; rollback?: RollbackEntry[] }
+  | { index: number; status: "skipped" }
+
+/**
+ * A journaled creation awaiting possible rollback.
+ */
+interface JournalEntry {
+  index: number
+  entity: string
+  id?: string
+  undo: () => Promise<unknown>
+}
+
+/**
+ * Runs a batch tool's operation over each item, recording each item's outcome.
+ *
+ * Items are processed sequentially by default, which batch tools rely on when later items
+ * depend on earlier ones (e.g., child cards referencing parents). With `parallel`, all
+ * items start at once; the client's shared rate limiter still caps requests per second
+ * and in flight, so large batches can't flood the API.
+ *
+ * A failed item doesn't abort the batch: its error is recorded and processing continues,
+ * so the caller always learns which items succeeded. With `stop_on_error`, the items after
+ * the first failure are reported as skipped instead (sequential mode only). Once `signal`
+ * is aborted, items that haven't started are reported as skipped as well.
+ *
+ * With `atomic`, items run sequentially and stop at the first failure, then every entity
+ * recorded in the journal is deleted in reverse creation order (children before parents).
+ * Rollback continues past failed deletions and reports each one on its item.
+ *
+ * Results are returned in input order either way.
+ *
+ * @param items - Batch items from the tool arguments
+ * @param operation - Operation to run for each item; creating tools record what they create in the journal
+ * @param options - Batch options (usually the tool arguments, which carry `parallel`, `stop_on_error` and `atomic`, with the client's signal)
+ * @returns Per-item results in the same order as the items
+ *
+ * @example
+ * ```typescript
+ * const results = await runBatch(
+ *   args.cards,
+ *   (card) => client.cards.get(card.workspace_id, card.card_id),
+ *   { ...args, signal: client.signal }
+ * )
+ * // [{ index: 0, status: "success", result: {...} }, { index: 1, status: "error", error: {...} }]
+ * ```
+ */
+export async function runBatch<TItem, TResult>(
+  items: TItem[],
+  operation: (item: TItem, index: number, journal: BatchJournal) => Promise<TResult>,
+  options: BatchOptions = {}
+): Promise<Array<BatchItemResult<TResult>>> {
+  const entries: JournalEntry[] = []
+
+  const runItem = async (item: TItem, index: number): Promise<BatchItemResult<TResult>> => {
+    if (options.signal?.aborted) {
+      return { index, status: "skipped" }
+    }
+    const journal: BatchJournal = {
+      record: (entity, id, undo) => entries.push({ index, entity, id, undo }),
+    }
+    try {
+      return { index, status: "success", result: await operation(item, index, journal) }
+    } catch (error) {
+      return { index, status: "error", error: toToolError(error) }
+    }
+  }
+
+  if (options.parallel && !options.atomic) {
+    return Promise.all(items.map(runItem))
+  }
+
+  const stopOnError = options.stop_on_error || options.atomic
+  const results: Array<BatchItemResult<TResult>> = []
+  for (const [index, item] of items.entries()) {
+    const failed = results.some((result) => result.status === "error")
+    results.push(failed && stopOnError ? { index, status: "skipped" } : await runItem(item, index))
+  }
+
+  if (options.atomic && results.some((result) => result.status === "error")) {
+    return applyRollback(results, await rollBack(entries))
+  }
+  return results
+}
+
+/**
+ * Deletes journaled entities in reverse creation order.
+ *
+ * @param entries - Journal entries in creation order
+ * @returns Rollback outcomes grouped by item index
+ */
+async function rollBack(entries: JournalEntry[]): Promise<Map<number, RollbackEntry[]>> {
+  const outcomes = new Map<number, RollbackEntry[]>()
+
+  for (const entry of [...entries].reverse()) {
+    const { index, entity, id } = entry
+    let outcome: RollbackEntry
+    if (!id) {
+      outcome = {
+        entity,
+        status: "failed",
+        error: {
+          code: "internal_error",
+          message: `The API response did not include the created ${entity}'s ID`,
+          hints: [],
+        },
+      }
+    } else {
+      try {
+        await entry.undo()
+        outcome = { entity, id, status: "rolled_back" }
+      } catch (error) {
+        outcome = { entity, id, status: "failed", error: toToolError(error) }
       }
     }
+    outcomes.set(index, [...(outcomes.get(index) ?? []), outcome])
   }
+
+  return outcomes
+}
+
+/**
+ * Attaches rollback outcomes to the batch results.
+ *
+ * @param results - Results of the failed atomic batch
+ * @param outcomes - Rollback outcomes by item index
+ * @returns Results with succeeded items marked as rolled back
+ */
+function applyRollback<TResult>(
+  results: Array<BatchItemResult<TResult>>,
+  outcomes: Map<number, RollbackEntry[]>
+): Array<BatchItemResult<TResult>> {
+  return results.map((result): BatchItemResult<TResult> => {
+    const rollback = outcomes.get(result.index) ?? []
+    if (result.status === "success") {
+      const complete = rollback.every((entry) => entry.status === "rolled_back")
+      return { ...result, status: complete ? "rolled_back" : "rollback_failed", rollback }
+    }
+    if (result.status === "error" && rollback.length > 0) {
+      return { ...result, rollback }
+    }
+    return result
+  })
+}
+
+/**
+ * Extracts the ID of a created entity from an API response (e.g., `{ card: { id } }`).
+ *
+ * @param response - API response from a create call
+ * @param key - Response property holding the entity
+ * @returns The entity's ID, or undefined if the response doesn't contain one
+ *
+ * @example
+ * createdId({ card: { id: "abc" } }, "card") // "abc"
+ */
+export function createdId(response: unknown, key: string): string | undefined {
+  const entity = (response as Record<string, { id?: unknown } | undefined> | null)?.[key]
+  return typeof entity?.id === "string" ? entity.id : undefined
 }
 
 /**
@@ -3,7 +3,8 @@
  * Registers all available tools with the MCP server.
  */
 
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
+import { McpServer, type RegisteredTool } from "@modelcontextprotocol/sdk/server/mcp.js"
+import type { ToolAnnotations } from "@modelcontextprotocol/sdk/types.js"
 import { registerUserTools } from "./user.js"
 import { registerProjectTools } from "./projects.js"
 import { registerSpaceTools } from "./spaces.js"
@@ -15,7 +16,10 @@ import { registerPageTools } from "./pages.js"
 import { registerCommentTools } from "./comments.js"
 import { registerNoteTools } from "./notes.js"
 import { registerTagTools } from "./tags.js"
+import { registerResponseTools } from "./responses.js"
+import { registerMetaTools } from "./meta.js"
 import { config, type ToolDomain } from "../config.js"
+import { matchesPattern } from "../utils.js"
 
 /**
  * Checks if a tool domain should be enabled.
@@ -25,7 +29,7 @@ import { config, type ToolDomain } from "../config.js"
  * @param domain - The domain name to check (type-safe with IntelliSense)
  * @returns True if the domain should be enabled
  */
-function isDomainEnabled(domain: ToolDomain): boolean {
+export function isDomainEnabled(domain: ToolDomain): boolean {
   // If no domains are specified, enable all (backward compatible)
   if (config.enabledTools.size === 0) {
     return true
@@ -34,44 +38,196 @@ function isDomainEnabled(domain: ToolDomain): boolean {
 }
 
 /**
- * Registers all tools with the MCP server.
- * Only registers tool domains that are enabled via SUPERTHREAD_ENABLED_TOOLS configuration.
- * If SUPERTHREAD_ENABLED_TOOLS is not set, all domains are enabled (backward compatible).
+ * Checks if a tool passes the tool-level filters.
+ * Applied after domain filtering: read-only mode hides mutating tools, then the tool must
+ * match SUPERTHREAD_ALLOWED_TOOLS (if set) and must not match SUPERTHREAD_DENIED_TOOLS.
  *
- * @param server - The McpServer instance to register tools with
+ * @param name - Tool name (e.g., "card_delete")
+ * @param readOnly - Whether the tool only reads data
+ * @returns True if the tool should be exposed
+ *
+ * @example
+ * // With SUPERTHREAD_DENIED_TOOLS="*_delete"
+ * isToolAllowed("card_get", true) // true
+ * isToolAllowed("card_delete", false) // false
  */
-export function registerAllTools(server: McpServer): void {
-  if (isDomainEnabled("users")) {
-    registerUserTools(server)
-  }
-  if (isDomainEnabled("projects")) {
-    registerProjectTools(server)
-  }
-  if (isDomainEnabled("spaces")) {
-    registerSpaceTools(server)
+export function isToolAllowed(name: string, readOnly: boolean): boolean {
+  if (config.readOnly && !readOnly) {
+    return false
   }
-  if (isDomainEnabled("boards")) {
-    registerBoardTools(server)
+  if (
+    config.allowedTools.length > 0 &&
+    !config.allowedTools.some((pattern) => matchesPattern(name, pattern))
+  ) {
+    return false
   }
-  if (isDomainEnabled("cards")) {
-    registerCardTools(server)
+  return !config.deniedTools.some((pattern) => matchesPattern(name, pattern))
+}
+
+/**
+ * Checks if a tool only reads data, based on its MCP annotations.
+ * Tools without annotations are treated as mutating, so read-only mode fails safe.
+ *
+ * @param toolConfig - Config passed to registerTool
+ * @returns True if the tool is read-only
+ */
+function isReadOnlyTool(toolConfig: { annotations?: ToolAnnotations }): boolean {
+  return toolConfig.annotations?.readOnlyHint === true
+}
+
+/**
+ * Tool registration functions of each domain, in registration order.
+ */
+const DOMAIN_REGISTRARS: Array<[ToolDomain, (server: McpServer) => void]> = [
+  ["users", registerUserTools],
+  ["projects", registerProjectTools],
+  ["spaces", registerSpaceTools],
+  ["boards", registerBoardTools],
+  ["cards", registerCardTools],
+  ["sprints", registerSprintTools],
+  ["search", registerSearchTools],
+  ["pages", registerPageTools],
+  ["comments", registerCommentTools],
+  ["notes", registerNoteTools],
+  ["tags", registerTagTools],
+]
+
+/**
+ * A registered tool and the settings that decide whether it is exposed.
+ */
+export interface FilteredTool {
+  name: string
+  /** Domain the tool belongs to (response_continue and the meta-tools belong to none) */
+  domain?: ToolDomain
+  readOnly: boolean
+  /** Lazy mode meta-tool (see meta.ts), exposed only in lazy mode */
+  meta: boolean
+  handle: RegisteredTool
+}
+
+/**
+ * The tools registered with one server, and which of them are exposed.
+ *
+ * Every tool is registered up front; the registry enables those that pass the domain and
+ * tool filters and disables the rest. In lazy mode (SUPERTHREAD_LAZY_TOOLS), a domain's
+ * tools are only enabled once the session enables the domain with superthread_enable_domain,
+ * so clients start with a short tool list.
+ */
+export class ToolRegistry {
+  private tools: FilteredTool[] = []
+  /** Domains enabled on demand in lazy mode */
+  private activeDomains = new Set<ToolDomain>()
+
+  /**
+   * Adds a registered tool.
+   */
+  add(tool: FilteredTool): void {
+    this.tools.push(tool)
   }
-  if (isDomainEnabled("sprints")) {
-    registerSprintTools(server)
+
+  /**
+   * Returns the tools the configuration allows, whether or not their domain is enabled in
+   * lazy mode. Meta-tools are not included.
+   *
+   * @param domain - Only return tools of this domain
+   * @returns Tools in registration order
+   */
+  available(domain?: ToolDomain): FilteredTool[] {
+    return this.tools.filter(
+      (tool) =>
+        !tool.meta &&
+        (!domain || tool.domain === domain) &&
+        (!tool.domain || isDomainEnabled(tool.domain)) &&
+        isToolAllowed(tool.name, tool.readOnly)
+    )
   }
-  if (isDomainEnabled("search")) {
-    registerSearchTools(server)
+
+  /**
+   * Checks if a domain's tools are exposed: always outside lazy mode, and in lazy mode once
+   * the domain was enabled on demand.
+   *
+   * @param domain - Domain to check
+   * @returns True if the domain is active
+   */
+  isActive(domain: ToolDomain): boolean {
+    return !config.lazyTools || this.activeDomains.has(domain)
   }
-  if (isDomainEnabled("pages")) {
-    registerPageTools(server)
+
+  /**
+   * Enables a domain's tools in lazy mode.
+   *
+   * @param domain - Domain to enable
+   */
+  activate(domain: ToolDomain): void {
+    this.activeDomains.add(domain)
+    this.applyFilters()
   }
-  if (isDomainEnabled("comments")) {
-    registerCommentTools(server)
+
+  /**
+   * Enables the tools that should be exposed and disables the rest. Call after the
+   * configuration changes; the server then notifies clients with tools/list_changed.
+   */
+  applyFilters(): void {
+    const available = new Set(this.available())
+    for (const tool of this.tools) {
+      const enabled = tool.meta
+        ? config.lazyTools
+        : available.has(tool) && (!tool.domain || this.isActive(tool.domain))
+
+      // Only touch tools whose state changes, since each change notifies clients
+      if (tool.handle.enabled !== enabled) {
+        if (enabled) {
+          tool.handle.enable()
+        } else {
+          tool.handle.disable()
+        }
+      }
+    }
   }
-  if (isDomainEnabled("notes")) {
-    registerNoteTools(server)
+}
+
+/**
+ * Registers all tools with the MCP server.
+ * Tools of every domain are registered, but only those in domains enabled via
+ * SUPERTHREAD_ENABLED_TOOLS are enabled. If SUPERTHREAD_ENABLED_TOOLS is not set, all
+ * domains are enabled (backward compatible).
+ *
+ * Tools filtered out by their domain, read-only mode, or the allow/deny lists (see
+ * isToolAllowed) are disabled, so they are neither advertised nor callable. In lazy mode,
+ * only the meta-tools are enabled at first (see ToolRegistry).
+ *
+ * @param server - The McpServer instance to register tools with
+ * @returns Function that re-applies the filters after the configuration changes, enabling
+ *   and disabling tools (the server then notifies clients with tools/list_changed)
+ */
+export function registerAllTools(server: McpServer): () => void {
+  const registry = new ToolRegistry()
+  let domain: ToolDomain | undefined
+  let meta = false
+
+  // Intercept registrations while the domain modules run to record each tool's domain
+  const registerTool = server.registerTool.bind(server)
+  const filteredRegisterTool: McpServer["registerTool"] = (name, toolConfig, callback) => {
+    const handle = registerTool(name, toolConfig, callback)
+    registry.add({ name, domain, readOnly: isReadOnlyTool(toolConfig), meta, handle })
+    return handle
   }
-  if (isDomainEnabled("tags")) {
-    registerTagTools(server)
+  server.registerTool = filteredRegisterTool
+
+  try {
+    for (const [toolDomain, registerDomainTools] of DOMAIN_REGISTRARS) {
+      domain = toolDomain
+      registerDomainTools(server)
+    }
+    // response_continue continues the results of any tool
+    domain = undefined
+    registerResponseTools(server)
+    meta = true
+    registerMetaTools(server, registry)
+  } finally {
+    server.registerTool = registerTool
   }
+
+  registry.applyFilters()
+  return () => registry.applyFilters()
 }
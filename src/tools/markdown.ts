@@ -0,0 +1,298 @@
+/**
+ * @fileoverview Markdown rendering of read tool results.
+ * Formatters turn API responses into human-readable Markdown that assistants can quote
+ * directly. Tools opt in via createToolHandler's `markdown` option and callers select it
+ * with `format: "markdown"`.
+ *
+ * API responses are not formally typed, so formatters read fields defensively and skip
+ * anything missing (for example fields removed by `fields` projection).
+ */
+
+/**
+ * Formats a tool result as Markdown.
+ */
+export type MarkdownFormatter = (result: unknown) => string
+
+type Entity = Record<string, unknown>
+
+/**
+ * Returns the value as an object, or undefined if it isn't one.
+ */
+function asEntity(value: unknown): Entity | undefined {
+  return value !== null && typeof value === "object" && !Array.isArray(value)
+    ? (value as Entity)
+    : undefined
+}
+
+/**
+ * Returns the objects in an array value, or an empty array if it isn't one.
+ */
+function asEntities(value: unknown): Entity[] {
+  return Array.isArray(value)
+    ? value.map(asEntity).filter((entity): entity is Entity => !!entity)
+    : []
+}
+
+/**
+ * Returns the value if it is a non-empty string.
+ */
+function asText(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() !== "" ? value.trim() : undefined
+}
+
+/**
+ * Formats a Unix timestamp (seconds) as an ISO date.
+ *
+ * @param value - Timestamp from the API
+ * @returns Date as YYYY-MM-DD, or undefined if not set
+ *
+ * @example
+ * formatDate(1735689600) // "2025-01-01"
+ */
+function formatDate(value: unknown): string | undefined {
+  if (typeof value !== "number" || !Number.isFinite(value) || value <= 0) {
+    return undefined
+  }
+  return new Date(value * 1000).toISOString().slice(0, 10)
+}
+
+/**
+ * Converts Superthread rich-text HTML to Markdown.
+ * Handles the elements the editor produces (headings, paragraphs, lists, emphasis, code,
+ * links, line breaks); any other tags are dropped and their text kept.
+ *
+ * @param html - HTML content
+ * @returns Markdown text
+ *
+ * @example
+ * htmlToMarkdown('<p>See <a href="https://x.io">docs</a></p><ul><li>One</li></ul>')
+ * // "See [docs](https://x.io)\n\n- One"
+ */
+export function htmlToMarkdown(html: string): string {
+  return html
+    .replace(/\r?\n/g, " ")
+    .replace(/<h([1-6])[^>]*>(.*?)<\/h\1>/gi, (_, level, text) => {
+      return `\n\n${"#".repeat(Number(level))} ${text}\n\n`
+    })
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<li[^>]*>/gi, "\n- ")
+    .replace(/<\/(p|div|ul|ol|blockquote|pre)>/gi, "\n\n")
+    .replace(/<(strong|b)(\s[^>]*)?>(.*?)<\/\1>/gi, "**$3**")
+    .replace(/<(em|i)(\s[^>]*)?>(.*?)<\/\1>/gi, "_$3_")
+    .replace(/<code[^>]*>(.*?)<\/code>/gi, "`$1`")
+    .replace(/<a\s[^>]*href="([^"]*)"[^>]*>(.*?)<\/a>/gi, "[$2]($1)")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&")
+    .split("\n")
+    .map((line) => line.trimEnd())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim()
+}
+
+/**
+ * Formats an entity's ID as inline code.
+ */
+function formatId(entity: Entity): string {
+  return `\`${String(entity.id)}\``
+}
+
+/**
+ * Returns the user IDs assigned to a card (owner first, then members).
+ */
+function assignees(card: Entity): string[] {
+  const ids = [
+    asText(card.owner_id),
+    ...asEntities(card.members).map((member) => asText(member.user_id)),
+  ].filter((id): id is string => !!id)
+  return [...new Set(ids)]
+}
+
+/**
+ * Formats a card as a single list line with its assignees and due date.
+ *
+ * @example
+ * formatCardLine({ id: "c1", title: "Fix login", owner_id: "u1", due_date: 1735689600 })
+ * // "- Fix login (`c1`) — assignees: u1 — due 2025-01-01"
+ */
+function formatCardLine(card: Entity): string {
+  const parts = [`- ${asText(card.title) ?? "Untitled"} (${formatId(card)})`]
+  const users = assignees(card)
+  if (users.length > 0) {
+    parts.push(`assignees: ${users.join(", ")}`)
+  }
+  const due = formatDate(card.due_date)
+  if (due) {
+    parts.push(`due ${due}`)
+  }
+  return parts.join(" — ")
+}
+
+/**
+ * Formats a card with its details, content, and checklists as task lists.
+ */
+function formatCard(card: Entity): string {
+  const lines = [`## ${asText(card.title) ?? "Untitled"}`, ""]
+
+  const details: Array<[string, string | undefined]> = [
+    ["ID", formatId(card)],
+    ["Status", asText(card.list_title) ?? asText(card.status)],
+    ["Board", asText(card.board_title) ?? asText(card.board_id)],
+    ["Assignees", assignees(card).join(", ") || undefined],
+    ["Priority", typeof card.priority === "number" ? String(card.priority) : undefined],
+    ["Start", formatDate(card.start_date)],
+    ["Due", formatDate(card.due_date)],
+    [
+      "Tags",
+      asEntities(card.tags)
+        .map((tag) => asText(tag.name))
+        .filter(Boolean)
+        .join(", ") || undefined,
+    ],
+  ]
+  for (const [label, value] of details) {
+    if (value) {
+      lines.push(`- **${label}:** ${value}`)
+    }
+  }
+
+  const content = asText(card.content)
+  if (content) {
+    lines.push("", htmlToMarkdown(content))
+  }
+
+  for (const checklist of asEntities(card.checklists)) {
+    lines.push("", `### ${asText(checklist.title) ?? "Checklist"}`, "")
+    for (const item of asEntities(checklist.items)) {
+      lines.push(`- [${item.checked ? "x" : " "}] ${asText(item.title) ?? ""}`.trimEnd())
+    }
+  }
+
+  return lines.join("\n")
+}
+
+/**
+ * Formats a board as headed lists of cards.
+ */
+function formatBoard(board: Entity): string {
+  const lines = [`## ${asText(board.title) ?? "Untitled"} (${formatId(board)})`]
+
+  for (const list of asEntities(board.lists)) {
+    const cards = asEntities(list.cards)
+    lines.push("", `### ${asText(list.title) ?? "Untitled"} (${cards.length})`, "")
+    lines.push(...(cards.length > 0 ? cards.map(formatCardLine) : ["_No cards_"]))
+  }
+
+  return lines.join("\n")
+}
+
+/**
+ * Formats a page with its content.
+ */
+function formatPage(page: Entity): string {
+  const lines = [`## ${asText(page.title) ?? "Untitled"}`, "", `- **ID:** ${formatId(page)}`]
+  const updated = formatDate(page.time_updated)
+  if (updated) {
+    lines.push(`- **Updated:** ${updated}`)
+  }
+  const content = asText(page.content)
+  if (content) {
+    lines.push("", htmlToMarkdown(content))
+  }
+  return lines.join("\n")
+}
+
+/**
+ * Formats a comment as a quoted block with its author and date.
+ */
+function formatComment(comment: Entity): string {
+  const header = [asText(comment.user_id) ?? "Unknown user", formatDate(comment.time_created)]
+    .filter(Boolean)
+    .join(" on ")
+  const body = htmlToMarkdown(asText(comment.content) ?? "")
+    .split("\n")
+    .map((line) => `> ${line}`.trimEnd())
+  return [`**${header}** (${formatId(comment)})`, ...body].join("\n")
+}
+
+/**
+ * Formats the per-item results of a batch get tool.
+ *
+ * @param items - Batch item results (see BatchItemResult)
+ * @param key - Response property holding the entity (e.g., "card")
+ * @param format - Formatter for a successfully retrieved entity
+ * @returns One section per item, in input order
+ */
+function formatBatch(items: unknown, key: string, format: (entity: Entity) => string): string {
+  const sections = asEntities(items).map((item) => {
+    const entity = asEntity(asEntity(item.result)?.[key])
+    if (item.status === "success" && entity) {
+      return format(entity)
+    }
+    if (item.status === "skipped") {
+      return `> Item ${String(item.index)} skipped after an earlier failure.`
+    }
+    const message = asText(asEntity(item.error)?.message) ?? `status ${String(item.status)}`
+    return `> Item ${String(item.index)} failed: ${message}`
+  })
+  return sections.join("\n\n---\n\n")
+}
+
+/**
+ * Formats card_get results: each card's details, content, and checklists as task lists.
+ */
+export const formatCards: MarkdownFormatter = (result) => {
+  return formatBatch(asEntity(result)?.cards, "card", formatCard)
+}
+
+/**
+ * Formats board_get results: each board as headed lists of cards.
+ */
+export const formatBoards: MarkdownFormatter = (result) => {
+  return formatBatch(asEntity(result)?.boards, "board", formatBoard)
+}
+
+/**
+ * Formats page_get results: each page's title and content.
+ */
+export const formatPages: MarkdownFormatter = (result) => {
+  return formatBatch(asEntity(result)?.pages, "page", formatPage)
+}
+
+/**
+ * Formats comment_get_replies results as a thread of quoted replies.
+ */
+export const formatComments: MarkdownFormatter = (result) => {
+  const comments = asEntities(asEntity(result)?.comments)
+  return comments.length > 0 ? comments.map(formatComment).join("\n\n") : "_No replies_"
+}
+
+/**
+ * Formats search_get results as one headed list per entity type.
+ * Ungrouped results are listed under a single "Results" heading.
+ */
+export const formatSearch: MarkdownFormatter = (result) => {
+  const sections = Object.entries(asEntity(result) ?? {})
+    .filter(([, value]) => Array.isArray(value))
+    .map(([type, value]) => {
+      const heading = type === "results" ? "Results" : type[0].toUpperCase() + type.slice(1)
+      const items = asEntities(value).map((item) => {
+        // Ungrouped results wrap each match in its type (e.g., { type: "card", card: {...} })
+        const entity = asEntity(item[String(item.type)]) ?? item
+        const kind = asText(item.type) ? ` [${String(item.type)}]` : ""
+        return `- ${asText(entity.title) ?? asText(entity.name) ?? "Untitled"}${kind} (${formatId(entity)})`
+      })
+      return [`## ${heading}`, "", ...(items.length > 0 ? items : ["_No matches_"])].join("\n")
+    })
+
+  const cursor = asText(asEntity(result)?.cursor)
+  if (cursor) {
+    sections.push(`_More results available: pass cursor \`${cursor}\`._`)
+  }
+  return sections.length > 0 ? sections.join("\n\n") : "_No matches_"
+}
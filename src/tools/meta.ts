@@ -0,0 +1,146 @@
+/**
+ * @fileoverview Meta-tools for lazy mode (SUPERTHREAD_LAZY_TOOLS).
+ * With over 70 tools, some clients degrade or hit tool-count limits. In lazy mode the
+ * server starts with only these tools, which let the assistant discover the tool domains
+ * and enable the ones it needs for the session.
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
+import { normalizeObjectSchema } from "@modelcontextprotocol/sdk/server/zod-compat.js"
+import { toJsonSchemaCompat } from "@modelcontextprotocol/sdk/server/zod-json-schema-compat.js"
+import { z } from "zod"
+import { AVAILABLE_DOMAINS, type ToolDomain } from "../config.js"
+import { ValidationError } from "../errors.js"
+import { createLocalToolHandler, ANNOTATIONS } from "./helpers.js"
+import { isDomainEnabled, type ToolRegistry } from "./index.js"
+
+/**
+ * What each domain's tools are for, so the assistant can pick domains without listing
+ * every tool.
+ */
+const DOMAIN_DESCRIPTIONS: Record<ToolDomain, string> = {
+  users: "Your account, workspaces, and workspace members",
+  cards: "Cards (tasks): create, update, move, assign, checklists, tags, and relations",
+  boards: "Boards and their lists (status columns)",
+  projects: "Roadmap projects (epics)",
+  spaces: "Spaces and their members",
+  sprints: "Sprints and their lists",
+  pages: "Documentation pages",
+  comments: "Comments and replies on cards and pages",
+  notes: "Meeting notes",
+  tags: "Workspace tags",
+  search: "Search across cards, pages, projects, and more",
+}
+
+/**
+ * Registers the lazy mode meta-tools with the MCP server.
+ * They are enabled only in lazy mode (see ToolRegistry).
+ *
+ * @param server - The McpServer instance to register tools with
+ * @param registry - Tools registered with the server
+ */
+export function registerMetaTools(server: McpServer, registry: ToolRegistry) {
+  // ============================================================================
+  // TOOL: superthread_list_domains
+  // List the tool domains and the tools in each
+  // ============================================================================
+  server.registerTool(
+    "superthread_list_domains",
+    {
+      title: "List Tool Domains",
+      description:
+        "List the Superthread tool domains (cards, boards, pages, ...) with the tools in each and whether they are enabled for this session. Call superthread_enable_domain to enable a domain's tools, and superthread_describe_tool to see a tool's parameters first.",
+      inputSchema: {},
+      annotations: ANNOTATIONS.read,
+    },
+    createLocalToolHandler(() => {
+      const domains = AVAILABLE_DOMAINS.filter(isDomainEnabled).flatMap((domain) => {
+        const tools = registry.available(domain).map((tool) => tool.name)
+        return tools.length > 0
+          ? [
+              {
+                domain,
+                description: DOMAIN_DESCRIPTIONS[domain],
+                enabled: registry.isActive(domain),
+                tools,
+              },
+            ]
+          : []
+      })
+      return { domains }
+    })
+  )
+
+  // ============================================================================
+  // TOOL: superthread_enable_domain
+  // Enable a domain's tools for this session
+  // ============================================================================
+  server.registerTool(
+    "superthread_enable_domain",
+    {
+      title: "Enable Tool Domain",
+      description:
+        "Enable the tools of a domain (see superthread_list_domains) for the rest of this session. The tool list is updated right away; clients are notified with tools/list_changed.",
+      inputSchema: {
+        domain: z.enum(AVAILABLE_DOMAINS).describe("Domain to enable"),
+      },
+      // Changes only which tools this session sees, not any Superthread data
+      annotations: ANNOTATIONS.add,
+    },
+    createLocalToolHandler((args: { domain: ToolDomain }) => {
+      if (!isDomainEnabled(args.domain)) {
+        throw new ValidationError(
+          `Domain "${args.domain}" is disabled in the server configuration (SUPERTHREAD_ENABLED_TOOLS)`
+        )
+      }
+      const tools = registry.available(args.domain).map((tool) => tool.name)
+      if (tools.length === 0) {
+        throw new ValidationError(
+          `All tools of domain "${args.domain}" are hidden by the server's tool filters`
+        )
+      }
+
+      registry.activate(args.domain)
+      return { domain: args.domain, enabled: true, tools }
+    })
+  )
+
+  // ============================================================================
+  // TOOL: superthread_describe_tool
+  // Describe a tool, including tools of domains that aren't enabled yet
+  // ============================================================================
+  server.registerTool(
+    "superthread_describe_tool",
+    {
+      title: "Describe Tool",
+      description:
+        "Get a tool's description, annotations, and input schema, including tools of domains that aren't enabled yet.",
+      inputSchema: {
+        name: z.string().describe("Tool name (e.g., 'card_create')"),
+      },
+      annotations: ANNOTATIONS.read,
+    },
+    createLocalToolHandler((args: { name: string }) => {
+      const name = args.name.trim().toLowerCase()
+      const tool = registry.available().find((candidate) => candidate.name === name)
+      if (!tool) {
+        throw new ValidationError(
+          `Unknown tool "${args.name}". Call superthread_list_domains to see the available tools.`
+        )
+      }
+
+      const inputSchema = normalizeObjectSchema(tool.handle.inputSchema)
+      return {
+        name: tool.name,
+        title: tool.handle.title,
+        description: tool.handle.description,
+        domain: tool.domain,
+        enabled: tool.handle.enabled,
+        annotations: tool.handle.annotations,
+        input_schema: inputSchema
+          ? toJsonSchemaCompat(inputSchema, { strictUnions: true, pipeStrategy: "input" })
+          : { type: "object", properties: {} },
+      }
+    })
+  )
+}
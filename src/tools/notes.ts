@@ -6,7 +6,22 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
 import { z } from "zod"
 import type { CreateNoteParams } from "../api/notes.js"
-import { createToolHandler, buildParams } from "./helpers.js"
+import {
+  createToolHandler,
+  buildParams,
+  runBatch,
+  parallelSchema,
+  stopOnErrorSchema,
+  dryRunSchema,
+  ANNOTATIONS,
+  fieldsSchema,
+  compactSchema,
+  urlSchema,
+  workspaceIdSchema,
+  linkedWorkspaceIdSchema,
+} from "./helpers.js"
+import { noteBatchOutputSchema, noteListOutputSchema } from "./schemas.js"
+import { linkedIds } from "../urls.js"
 
 /**
  * Registers note management tools with the MCP server.
@@ -28,7 +43,7 @@ export function registerNoteTools(server: McpServer): void {
         notes: z
           .array(
             z.object({
-              workspace_id: z.string().describe("Workspace ID"),
+              workspace_id: workspaceIdSchema,
               title: z.string().describe("Note title"),
               transcript: z.string().optional().describe("Note transcript"),
               transcripts: z
@@ -89,7 +104,11 @@ export function registerNoteTools(server: McpServer): void {
             })
           )
           .describe("Array of notes to create (use single-element array for one note)"),
+        parallel: parallelSchema,
+        stop_on_error: stopOnErrorSchema,
+        dry_run: dryRunSchema,
       },
+      annotations: ANNOTATIONS.create,
     },
     createToolHandler(
       async (
@@ -132,26 +151,30 @@ export function registerNoteTools(server: McpServer): void {
               location?: string
             }
           }>
+          parallel?: boolean
+          stop_on_error?: boolean
         }
       ) => {
-        // Process notes sequentially
-        const results = []
-        for (const note of args.notes) {
-          const params = buildParams<CreateNoteParams>({
-            title: note.title,
-            transcript: note.transcript,
-            transcripts: note.transcripts,
-            user_notes: note.user_notes,
-            is_public: note.is_public,
-            attendees: note.attendees,
-            metadata_date: note.metadata_date,
-            metadata_time: note.metadata_time,
-            google_calendar_event: note.google_calendar_event,
-          })
+        // Process notes (in parallel if requested)
+        const results = await runBatch(
+          args.notes,
+          async (note) => {
+            const params = buildParams<CreateNoteParams>({
+              title: note.title,
+              transcript: note.transcript,
+              transcripts: note.transcripts,
+              user_notes: note.user_notes,
+              is_public: note.is_public,
+              attendees: note.attendees,
+              metadata_date: note.metadata_date,
+              metadata_time: note.metadata_time,
+              google_calendar_event: note.google_calendar_event,
+            })
 
-          const result = await client.notes.create(note.workspace_id, params as CreateNoteParams)
-          results.push(result)
-        }
+            return client.notes.create(note.workspace_id, params as CreateNoteParams)
+          },
+          { ...args, signal: client.signal }
+        )
 
         return { notes: results }
       }
@@ -172,24 +195,42 @@ export function registerNoteTools(server: McpServer): void {
         notes: z
           .array(
             z.object({
-              workspace_id: z.string().describe("Workspace ID"),
-              note_id: z.string().describe("Note ID to retrieve"),
+              url: urlSchema,
+              workspace_id: linkedWorkspaceIdSchema,
+              note_id: z.string().optional().describe("Note ID to retrieve (or use url)"),
             })
           )
           .describe("Array of notes to retrieve (use single-element array for one note)"),
+        parallel: parallelSchema,
+        stop_on_error: stopOnErrorSchema,
+        fields: fieldsSchema,
+        compact: compactSchema,
       },
+      annotations: ANNOTATIONS.read,
+      outputSchema: noteBatchOutputSchema,
     },
     createToolHandler(
-      async (client, args: { notes: Array<{ workspace_id: string; note_id: string }> }) => {
-        // Process notes sequentially
-        const results = []
-        for (const note of args.notes) {
-          const result = await client.notes.get(note.workspace_id, note.note_id)
-          results.push(result)
+      async (
+        client,
+        args: {
+          notes: Array<{ url?: string; workspace_id?: string; note_id?: string }>
+          parallel?: boolean
+          stop_on_error?: boolean
         }
+      ) => {
+        // Process notes (in parallel if requested)
+        const results = await runBatch(
+          args.notes,
+          (note) => {
+            const ids = linkedIds(note, "note", "note_id")
+            return client.notes.get(ids.workspace_id, ids.note_id)
+          },
+          { ...args, signal: client.signal }
+        )
 
         return { notes: results }
-      }
+      },
+      { structured: true }
     )
   )
 
@@ -203,12 +244,19 @@ export function registerNoteTools(server: McpServer): void {
       title: "Get All Notes",
       description: "Retrieves all notes within the specified workspace.",
       inputSchema: {
-        workspace_id: z.string().describe("Workspace ID"),
+        workspace_id: workspaceIdSchema,
+        fields: fieldsSchema,
+        compact: compactSchema,
       },
+      annotations: ANNOTATIONS.read,
+      outputSchema: noteListOutputSchema,
     },
-    createToolHandler(async (client, args) => {
-      return client.notes.list(args.workspace_id)
-    })
+    createToolHandler(
+      async (client, args) => {
+        return client.notes.list(args.workspace_id)
+      },
+      { structured: true }
+    )
   )
 
   // ============================================================================
@@ -225,21 +273,32 @@ export function registerNoteTools(server: McpServer): void {
         notes: z
           .array(
             z.object({
-              workspace_id: z.string().describe("Workspace ID"),
+              workspace_id: workspaceIdSchema,
               note_id: z.string().describe("Note ID to delete"),
             })
           )
           .describe("Array of notes to delete (use single-element array for one note)"),
+        parallel: parallelSchema,
+        stop_on_error: stopOnErrorSchema,
+        dry_run: dryRunSchema,
       },
+      annotations: ANNOTATIONS.delete,
     },
     createToolHandler(
-      async (client, args: { notes: Array<{ workspace_id: string; note_id: string }> }) => {
-        // Process notes sequentially
-        const results = []
-        for (const note of args.notes) {
-          const result = await client.notes.delete(note.workspace_id, note.note_id)
-          results.push(result)
+      async (
+        client,
+        args: {
+          notes: Array<{ workspace_id: string; note_id: string }>
+          parallel?: boolean
+          stop_on_error?: boolean
         }
+      ) => {
+        // Process notes (in parallel if requested)
+        const results = await runBatch(
+          args.notes,
+          (note) => client.notes.delete(note.workspace_id, note.note_id),
+          { ...args, signal: client.signal }
+        )
 
         return { deleted: results }
       }
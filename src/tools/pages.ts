@@ -6,7 +6,24 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
 import { z } from "zod"
 import type { CreatePageParams, UpdatePageParams, DuplicatePageParams } from "../api/pages.js"
-import { createToolHandler, buildParams } from "./helpers.js"
+import {
+  createToolHandler,
+  buildParams,
+  runBatch,
+  parallelSchema,
+  stopOnErrorSchema,
+  dryRunSchema,
+  ANNOTATIONS,
+  fieldsSchema,
+  compactSchema,
+  formatSchema,
+  urlSchema,
+  workspaceIdSchema,
+  linkedWorkspaceIdSchema,
+} from "./helpers.js"
+import { formatPages } from "./markdown.js"
+import { pageBatchOutputSchema, pageListOutputSchema } from "./schemas.js"
+import { linkedIds } from "../urls.js"
 
 /**
  * Registers page management tools with the MCP server.
@@ -28,7 +45,7 @@ export function registerPageTools(server: McpServer): void {
         pages: z
           .array(
             z.object({
-              workspace_id: z.string().describe("Workspace ID"),
+              workspace_id: workspaceIdSchema,
               project_id: z.string().describe("Project/Space ID (required)"),
               title: z.string().optional().describe("Page title"),
               content: z.string().optional().describe("Page content (max 102400 chars)"),
@@ -65,7 +82,11 @@ export function registerPageTools(server: McpServer): void {
             })
           )
           .describe("Array of pages to create (use single-element array for one page)"),
+        parallel: parallelSchema,
+        stop_on_error: stopOnErrorSchema,
+        dry_run: dryRunSchema,
       },
+      annotations: ANNOTATIONS.create,
     },
     createToolHandler(
       async (
@@ -98,27 +119,31 @@ export function registerPageTools(server: McpServer): void {
             position?: number
             is_public?: boolean
           }>
+          parallel?: boolean
+          stop_on_error?: boolean
         }
       ) => {
-        // Process pages sequentially
-        const results = []
-        for (const page of args.pages) {
-          const params = buildParams<CreatePageParams>({
-            project_id: page.project_id,
-            title: page.title,
-            content: page.content,
-            schema: page.schema,
-            font: page.font,
-            cover_image: page.cover_image,
-            icon: page.icon,
-            parent_page_id: page.parent_page_id,
-            position: page.position,
-            is_public: page.is_public,
-          })
+        // Process pages (in parallel if requested)
+        const results = await runBatch(
+          args.pages,
+          async (page) => {
+            const params = buildParams<CreatePageParams>({
+              project_id: page.project_id,
+              title: page.title,
+              content: page.content,
+              schema: page.schema,
+              font: page.font,
+              cover_image: page.cover_image,
+              icon: page.icon,
+              parent_page_id: page.parent_page_id,
+              position: page.position,
+              is_public: page.is_public,
+            })
 
-          const result = await client.pages.create(page.workspace_id, params as CreatePageParams)
-          results.push(result)
-        }
+            return client.pages.create(page.workspace_id, params as CreatePageParams)
+          },
+          { ...args, signal: client.signal }
+        )
 
         return { pages: results }
       }
@@ -139,8 +164,9 @@ export function registerPageTools(server: McpServer): void {
         pages: z
           .array(
             z.object({
-              workspace_id: z.string().describe("Workspace ID"),
-              page_id: z.string().describe("Page ID to update"),
+              url: urlSchema,
+              workspace_id: linkedWorkspaceIdSchema,
+              page_id: z.string().optional().describe("Page ID to update (or use url)"),
               title: z.string().optional().describe("New page title"),
               font: z.string().optional().describe("New font setting"),
               project_id: z.string().optional().describe("Move page to different project/space"),
@@ -188,15 +214,20 @@ export function registerPageTools(server: McpServer): void {
             })
           )
           .describe("Array of pages to update (use single-element array for one page)"),
+        parallel: parallelSchema,
+        stop_on_error: stopOnErrorSchema,
+        dry_run: dryRunSchema,
       },
+      annotations: ANNOTATIONS.update,
     },
     createToolHandler(
       async (
         client,
         args: {
           pages: Array<{
-            workspace_id: string
-            page_id: string
+            url?: string
+            workspace_id?: string
+            page_id?: string
             title?: string
             font?: string
             project_id?: string
@@ -227,33 +258,34 @@ export function registerPageTools(server: McpServer): void {
             hide_table_of_contents?: boolean
             hide_subpages?: boolean
           }>
+          parallel?: boolean
+          stop_on_error?: boolean
         }
       ) => {
-        // Process pages sequentially
-        const results = []
-        for (const page of args.pages) {
-          const params = buildParams<UpdatePageParams>({
-            title: page.title,
-            font: page.font,
-            project_id: page.project_id,
-            cover_image: page.cover_image,
-            icon: page.icon,
-            is_public: page.is_public,
-            parent_page_id: page.parent_page_id,
-            position: page.position,
-            public_settings: page.public_settings,
-            archived: page.archived,
-            hide_table_of_contents: page.hide_table_of_contents,
-            hide_subpages: page.hide_subpages,
-          })
+        // Process pages (in parallel if requested)
+        const results = await runBatch(
+          args.pages,
+          async (page) => {
+            const params = buildParams<UpdatePageParams>({
+              title: page.title,
+              font: page.font,
+              project_id: page.project_id,
+              cover_image: page.cover_image,
+              icon: page.icon,
+              is_public: page.is_public,
+              parent_page_id: page.parent_page_id,
+              position: page.position,
+              public_settings: page.public_settings,
+              archived: page.archived,
+              hide_table_of_contents: page.hide_table_of_contents,
+              hide_subpages: page.hide_subpages,
+            })
 
-          const result = await client.pages.update(
-            page.workspace_id,
-            page.page_id,
-            params as UpdatePageParams
-          )
-          results.push(result)
-        }
+            const ids = linkedIds(page, "page", "page_id")
+            return client.pages.update(ids.workspace_id, ids.page_id, params as UpdatePageParams)
+          },
+          { ...args, signal: client.signal }
+        )
 
         return { pages: results }
       }
@@ -274,24 +306,43 @@ export function registerPageTools(server: McpServer): void {
         pages: z
           .array(
             z.object({
-              workspace_id: z.string().describe("Workspace ID"),
-              page_id: z.string().describe("Page ID to retrieve"),
+              url: urlSchema,
+              workspace_id: linkedWorkspaceIdSchema,
+              page_id: z.string().optional().describe("Page ID to retrieve (or use url)"),
             })
           )
           .describe("Array of pages to retrieve (use single-element array for one page)"),
+        parallel: parallelSchema,
+        stop_on_error: stopOnErrorSchema,
+        fields: fieldsSchema,
+        compact: compactSchema,
+        format: formatSchema,
       },
+      annotations: ANNOTATIONS.read,
+      outputSchema: pageBatchOutputSchema,
     },
     createToolHandler(
-      async (client, args: { pages: Array<{ workspace_id: string; page_id: string }> }) => {
-        // Process pages sequentially
-        const results = []
-        for (const page of args.pages) {
-          const result = await client.pages.get(page.workspace_id, page.page_id)
-          results.push(result)
+      async (
+        client,
+        args: {
+          pages: Array<{ url?: string; workspace_id?: string; page_id?: string }>
+          parallel?: boolean
+          stop_on_error?: boolean
         }
+      ) => {
+        // Process pages (in parallel if requested)
+        const results = await runBatch(
+          args.pages,
+          (page) => {
+            const ids = linkedIds(page, "page", "page_id")
+            return client.pages.get(ids.workspace_id, ids.page_id)
+          },
+          { ...args, signal: client.signal }
+        )
 
         return { pages: results }
-      }
+      },
+      { structured: true, markdown: formatPages }
     )
   )
 
@@ -306,31 +357,38 @@ export function registerPageTools(server: McpServer): void {
       description:
         "Returns a list of all available pages for the workspace. Pages are organized by spaces (projects) and can be filtered by archived or updated_recently.",
       inputSchema: {
-        workspace_id: z.string().describe("Workspace ID"),
+        workspace_id: workspaceIdSchema,
         project_id: z.string().optional().describe("Filter by specific project/space ID"),
         archived: z.boolean().optional().describe("Include archived pages (default: false)"),
         updated_recently: z
           .boolean()
           .optional()
           .describe("Filter by recently updated pages (default: false)"),
+        fields: fieldsSchema,
+        compact: compactSchema,
       },
+      annotations: ANNOTATIONS.read,
+      outputSchema: pageListOutputSchema,
     },
-    createToolHandler(async (client, args) => {
-      const params = buildParams<{
-        project_id?: string
-        archived?: boolean
-        updated_recently?: boolean
-      }>({
-        project_id: args.project_id,
-        archived: args.archived,
-        updated_recently: args.updated_recently,
-      })
+    createToolHandler(
+      async (client, args) => {
+        const params = buildParams<{
+          project_id?: string
+          archived?: boolean
+          updated_recently?: boolean
+        }>({
+          project_id: args.project_id,
+          archived: args.archived,
+          updated_recently: args.updated_recently,
+        })
 
-      return client.pages.list(
-        args.workspace_id,
-        Object.keys(params).length > 0 ? params : undefined
-      )
-    })
+        return client.pages.list(
+          args.workspace_id,
+          Object.keys(params).length > 0 ? params : undefined
+        )
+      },
+      { structured: true }
+    )
   )
 
   // ============================================================================
@@ -344,13 +402,15 @@ export function registerPageTools(server: McpServer): void {
       description:
         "Clone an existing page with its content and structure. The new page can be placed under a parent page or at the root of a space (project).",
       inputSchema: {
-        workspace_id: z.string().describe("Workspace ID"),
+        workspace_id: workspaceIdSchema,
         page_id: z.string().describe("Page ID to duplicate"),
         project_id: z.string().describe("Project/Space ID for the duplicated page (required)"),
         title: z.string().optional().describe("Title for the duplicated page"),
         parent_page_id: z.string().optional().describe("Parent page ID (empty string for root)"),
         position: z.number().optional().describe("Position relative to siblings"),
+        dry_run: dryRunSchema,
       },
+      annotations: ANNOTATIONS.create,
     },
     createToolHandler(async (client, args) => {
       const params = buildParams<DuplicatePageParams>({
@@ -378,21 +438,32 @@ export function registerPageTools(server: McpServer): void {
         pages: z
           .array(
             z.object({
-              workspace_id: z.string().describe("Workspace ID"),
+              workspace_id: workspaceIdSchema,
               page_id: z.string().describe("Page ID to archive"),
             })
           )
           .describe("Array of pages to archive (use single-element array for one page)"),
+        parallel: parallelSchema,
+        stop_on_error: stopOnErrorSchema,
+        dry_run: dryRunSchema,
       },
+      annotations: ANNOTATIONS.delete,
     },
     createToolHandler(
-      async (client, args: { pages: Array<{ workspace_id: string; page_id: string }> }) => {
-        // Process pages sequentially
-        const results = []
-        for (const page of args.pages) {
-          const result = await client.pages.archive(page.workspace_id, page.page_id)
-          results.push(result)
+      async (
+        client,
+        args: {
+          pages: Array<{ workspace_id: string; page_id: string }>
+          parallel?: boolean
+          stop_on_error?: boolean
         }
+      ) => {
+        // Process pages (in parallel if requested)
+        const results = await runBatch(
+          args.pages,
+          (page) => client.pages.archive(page.workspace_id, page.page_id),
+          { ...args, signal: client.signal }
+        )
 
         return { archived: results }
       }
@@ -413,21 +484,32 @@ export function registerPageTools(server: McpServer): void {
         pages: z
           .array(
             z.object({
-              workspace_id: z.string().describe("Workspace ID"),
+              workspace_id: workspaceIdSchema,
               page_id: z.string().describe("Page ID to delete"),
             })
           )
           .describe("Array of pages to delete (use single-element array for one page)"),
+        parallel: parallelSchema,
+        stop_on_error: stopOnErrorSchema,
+        dry_run: dryRunSchema,
       },
+      annotations: ANNOTATIONS.delete,
     },
     createToolHandler(
-      async (client, args: { pages: Array<{ workspace_id: string; page_id: string }> }) => {
-        // Process pages sequentially
-        const results = []
-        for (const page of args.pages) {
-          const result = await client.pages.delete(page.workspace_id, page.page_id)
-          results.push(result)
+      async (
+        client,
+        args: {
+          pages: Array<{ workspace_id: string; page_id: string }>
+          parallel?: boolean
+          stop_on_error?: boolean
         }
+      ) => {
+        // Process pages (in parallel if requested)
+        const results = await runBatch(
+          args.pages,
+          (page) => client.pages.delete(page.workspace_id, page.page_id),
+          { ...args, signal: client.signal }
+        )
 
         return { deleted: results }
       }
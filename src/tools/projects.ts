@@ -6,7 +6,23 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
 import { z } from "zod"
 import type { CreateProjectParams, UpdateProjectParams } from "../api/projects.js"
-import { createToolHandler, buildParams } from "./helpers.js"
+import {
+  createToolHandler,
+  buildParams,
+  runBatch,
+  parallelSchema,
+  stopOnErrorSchema,
+  dryRunSchema,
+  ANNOTATIONS,
+  fieldsSchema,
+  compactSchema,
+  urlSchema,
+  workspaceIdSchema,
+  linkedWorkspaceIdSchema,
+} from "./helpers.js"
+import { ValidationError } from "../errors.js"
+import { NameResolver } from "../resolvers.js"
+import { linkedIds } from "../urls.js"
 
 /**
  * Registers project (roadmap) management tools with the MCP server.
@@ -26,8 +42,11 @@ export function registerProjectTools(server: McpServer) {
       description:
         "Get all roadmap projects (epics) in a workspace. Use this to see high-level initiatives and their status.",
       inputSchema: {
-        workspace_id: z.string().describe("Workspace ID to get projects from"),
+        workspace_id: workspaceIdSchema,
+        fields: fieldsSchema,
+        compact: compactSchema,
       },
+      annotations: ANNOTATIONS.read,
     },
     createToolHandler(async (client, args) => {
       return client.projects.list(args.workspace_id)
@@ -48,21 +67,40 @@ export function registerProjectTools(server: McpServer) {
         projects: z
           .array(
             z.object({
-              workspace_id: z.string().describe("Workspace ID"),
-              project_id: z.string().describe("Project ID (epic) to retrieve"),
+              url: urlSchema,
+              workspace_id: linkedWorkspaceIdSchema,
+              project_id: z
+                .string()
+                .optional()
+                .describe("Project ID (epic) to retrieve (or use url)"),
             })
           )
           .describe("Array of projects to retrieve (use single-element array for one project)"),
+        parallel: parallelSchema,
+        stop_on_error: stopOnErrorSchema,
+        fields: fieldsSchema,
+        compact: compactSchema,
       },
+      annotations: ANNOTATIONS.read,
     },
     createToolHandler(
-      async (client, args: { projects: Array<{ workspace_id: string; project_id: string }> }) => {
-        // Process projects sequentially
-        const results = []
-        for (const project of args.projects) {
-          const result = await client.projects.get(project.workspace_id, project.project_id)
-          results.push(result)
+      async (
+        client,
+        args: {
+          projects: Array<{ url?: string; workspace_id?: string; project_id?: string }>
+          parallel?: boolean
+          stop_on_error?: boolean
         }
+      ) => {
+        // Process projects (in parallel if requested)
+        const results = await runBatch(
+          args.projects,
+          (project) => {
+            const ids = linkedIds(project, "project", "project_id")
+            return client.projects.get(ids.workspace_id, ids.project_id)
+          },
+          { ...args, signal: client.signal }
+        )
 
         return { projects: results }
       }
@@ -83,19 +121,28 @@ export function registerProjectTools(server: McpServer) {
         projects: z
           .array(
             z.object({
-              workspace_id: z.string().describe("Workspace ID"),
+              workspace_id: workspaceIdSchema,
               title: z.string().describe("Project title (required)"),
-              list_id: z.string().describe("Status list ID (required)"),
+              list_id: z.string().optional().describe("Status list ID (required, or use list)"),
+              list: z
+                .string()
+                .optional()
+                .describe("Status list title instead of list_id (e.g., 'Planned')"),
               content: z.string().optional().describe("Project description/content"),
               schema: z.number().optional().describe("Schema version"),
               start_date: z.number().optional().describe("Start date (Unix timestamp)"),
               due_date: z.number().optional().describe("Due date (Unix timestamp)"),
               owner_id: z.string().optional().describe("Owner user ID"),
+              owner: z.string().optional().describe("Owner's name or email instead of owner_id"),
               priority: z.number().optional().describe("Priority level"),
             })
           )
           .describe("Array of projects to create (use single-element array for one project)"),
+        parallel: parallelSchema,
+        stop_on_error: stopOnErrorSchema,
+        dry_run: dryRunSchema,
       },
+      annotations: ANNOTATIONS.create,
     },
     createToolHandler(
       async (
@@ -104,36 +151,53 @@ export function registerProjectTools(server: McpServer) {
           projects: Array<{
             workspace_id: string
             title: string
-            list_id: string
+            list_id?: string
+            list?: string
             content?: string
             schema?: number
             start_date?: number
             due_date?: number
             owner_id?: string
+            owner?: string
             priority?: number
           }>
+          parallel?: boolean
+          stop_on_error?: boolean
         }
       ) => {
-        // Process projects sequentially
-        const results = []
-        for (const project of args.projects) {
-          const params = buildParams<CreateProjectParams>({
-            title: project.title,
-            list_id: project.list_id,
-            content: project.content,
-            schema: project.schema,
-            start_date: project.start_date,
-            due_date: project.due_date,
-            owner_id: project.owner_id,
-            priority: project.priority,
-          })
+        const names = new NameResolver(client)
 
-          const result = await client.projects.create(
-            project.workspace_id,
-            params as CreateProjectParams
-          )
-          results.push(result)
-        }
+        // Process projects (in parallel if requested)
+        const results = await runBatch(
+          args.projects,
+          async (project) => {
+            const ownerId =
+              project.owner_id ??
+              (project.owner ? await names.member(project.workspace_id, project.owner) : undefined)
+            const listId =
+              project.list_id ??
+              (project.list
+                ? await names.roadmapList(project.workspace_id, project.list)
+                : undefined)
+            if (!listId) {
+              throw new ValidationError("Either list_id or list must be provided")
+            }
+
+            const params = buildParams<CreateProjectParams>({
+              title: project.title,
+              list_id: listId,
+              content: project.content,
+              schema: project.schema,
+              start_date: project.start_date,
+              due_date: project.due_date,
+              owner_id: ownerId,
+              priority: project.priority,
+            })
+
+            return client.projects.create(project.workspace_id, params as CreateProjectParams)
+          },
+          { ...args, signal: client.signal }
+        )
 
         return { projects: results }
       }
@@ -154,11 +218,17 @@ export function registerProjectTools(server: McpServer) {
         projects: z
           .array(
             z.object({
-              workspace_id: z.string().describe("Workspace ID"),
-              project_id: z.string().describe("Project ID (epic) to update"),
+              url: urlSchema,
+              workspace_id: linkedWorkspaceIdSchema,
+              project_id: z
+                .string()
+                .optional()
+                .describe("Project ID (epic) to update (or use url)"),
               title: z.string().optional().describe("Project title"),
-              list_id: z.string().optional().describe("Status list ID"),
+              list_id: z.string().optional().describe("Status list ID (or use list)"),
+              list: z.string().optional().describe("Status list title instead of list_id"),
               owner_id: z.string().optional().describe("Owner user ID"),
+              owner: z.string().optional().describe("Owner's name or email instead of owner_id"),
               start_date: z.number().optional().describe("Start date (Unix timestamp)"),
               due_date: z.number().optional().describe("Due date (Unix timestamp)"),
               position: z.number().optional().describe("Position in list"),
@@ -167,47 +237,68 @@ export function registerProjectTools(server: McpServer) {
             })
           )
           .describe("Array of projects to update (use single-element array for one project)"),
+        parallel: parallelSchema,
+        stop_on_error: stopOnErrorSchema,
+        dry_run: dryRunSchema,
       },
+      annotations: ANNOTATIONS.update,
     },
     createToolHandler(
       async (
         client,
         args: {
           projects: Array<{
-            workspace_id: string
-            project_id: string
+            url?: string
+            workspace_id?: string
+            project_id?: string
             title?: string
             list_id?: string
+            list?: string
             owner_id?: string
+            owner?: string
             start_date?: number
             due_date?: number
             position?: number
             priority?: number
             archived?: boolean
           }>
+          parallel?: boolean
+          stop_on_error?: boolean
         }
       ) => {
-        // Process projects sequentially
-        const results = []
-        for (const project of args.projects) {
-          const params = buildParams<UpdateProjectParams>({
-            title: project.title,
-            list_id: project.list_id,
-            owner_id: project.owner_id,
-            start_date: project.start_date,
-            due_date: project.due_date,
-            position: project.position,
-            priority: project.priority,
-            archived: project.archived,
-          })
+        const names = new NameResolver(client)
 
-          const result = await client.projects.update(
-            project.workspace_id,
-            project.project_id,
-            params as UpdateProjectParams
-          )
-          results.push(result)
-        }
+        // Process projects (in parallel if requested)
+        const results = await runBatch(
+          args.projects,
+          async (project) => {
+            const ids = linkedIds(project, "project", "project_id")
+            const ownerId =
+              project.owner_id ??
+              (project.owner ? await names.member(ids.workspace_id, project.owner) : undefined)
+            const listId =
+              project.list_id ??
+              (project.list ? await names.roadmapList(ids.workspace_id, project.list) : undefined)
+
+            const params = buildParams<UpdateProjectParams>({
+              title: project.title,
+              list_id: listId,
+              owner_id: ownerId,
+              start_date: project.start_date,
+              due_date: project.due_date,
+              position: project.position,
+              priority: project.priority,
+              archived: project.archived,
+            })
+
+            return client.projects.update(
+              ids.workspace_id,
+              ids.project_id,
+              params as UpdateProjectParams
+            )
+          },
+          { ...args, signal: client.signal }
+        )
 
         return { projects: results }
       }
@@ -228,21 +319,32 @@ export function registerProjectTools(server: McpServer) {
         projects: z
           .array(
             z.object({
-              workspace_id: z.string().describe("Workspace ID"),
+              workspace_id: workspaceIdSchema,
               project_id: z.string().describe("Project ID (epic) to delete"),
             })
           )
           .describe("Array of projects to delete (use single-element array for one project)"),
+        parallel: parallelSchema,
+        stop_on_error: stopOnErrorSchema,
+        dry_run: dryRunSchema,
       },
+      annotations: ANNOTATIONS.delete,
     },
     createToolHandler(
-      async (client, args: { projects: Array<{ workspace_id: string; project_id: string }> }) => {
-        // Process projects sequentially
-        const results = []
-        for (const project of args.projects) {
-          const result = await client.projects.delete(project.workspace_id, project.project_id)
-          results.push(result)
+      async (
+        client,
+        args: {
+          projects: Array<{ workspace_id: string; project_id: string }>
+          parallel?: boolean
+          stop_on_error?: boolean
         }
+      ) => {
+        // Process projects (in parallel if requested)
+        const results = await runBatch(
+          args.projects,
+          (project) => client.projects.delete(project.workspace_id, project.project_id),
+          { ...args, signal: client.signal }
+        )
 
         return { deleted: results }
       }
@@ -263,7 +365,7 @@ export function registerProjectTools(server: McpServer) {
         operations: z
           .array(
             z.object({
-              workspace_id: z.string().describe("Workspace ID"),
+              workspace_id: workspaceIdSchema,
               project_id: z.string().describe("Project ID (epic) to link card to"),
               card_id: z.string().describe("Card ID to link to the project"),
             })
@@ -271,7 +373,11 @@ export function registerProjectTools(server: McpServer) {
           .describe(
             "Array of card-project links to create (use single-element array for one link)"
           ),
+        parallel: parallelSchema,
+        stop_on_error: stopOnErrorSchema,
+        dry_run: dryRunSchema,
       },
+      annotations: ANNOTATIONS.add,
     },
     createToolHandler(
       async (
@@ -282,18 +388,21 @@ export function registerProjectTools(server: McpServer) {
             project_id: string
             card_id: string
           }>
+          parallel?: boolean
+          stop_on_error?: boolean
         }
       ) => {
-        // Process operations sequentially
-        const results = []
-        for (const operation of args.operations) {
-          const result = await client.projects.addRelatedCard(
-            operation.workspace_id,
-            operation.project_id,
-            operation.card_id
-          )
-          results.push(result)
-        }
+        // Process operations (in parallel if requested)
+        const results = await runBatch(
+          args.operations,
+          (operation) =>
+            client.projects.addRelatedCard(
+              operation.workspace_id,
+              operation.project_id,
+              operation.card_id
+            ),
+          { ...args, signal: client.signal }
+        )
 
         return { linked: results }
       }
@@ -314,7 +423,7 @@ export function registerProjectTools(server: McpServer) {
         operations: z
           .array(
             z.object({
-              workspace_id: z.string().describe("Workspace ID"),
+              workspace_id: workspaceIdSchema,
               project_id: z.string().describe("Project ID (epic) to unlink card from"),
               card_id: z.string().describe("Card ID to unlink from the project"),
             })
@@ -322,7 +431,11 @@ export function registerProjectTools(server: McpServer) {
           .describe(
             "Array of card-project links to remove (use single-element array for one unlink)"
           ),
+        parallel: parallelSchema,
+        stop_on_error: stopOnErrorSchema,
+        dry_run: dryRunSchema,
       },
+      annotations: ANNOTATIONS.delete,
     },
     createToolHandler(
       async (
@@ -333,18 +446,21 @@ export function registerProjectTools(server: McpServer) {
             project_id: string
             card_id: string
           }>
+          parallel?: boolean
+          stop_on_error?: boolean
         }
       ) => {
-        // Process operations sequentially
-        const results = []
-        for (const operation of args.operations) {
-          const result = await client.projects.removeRelatedCard(
-            operation.workspace_id,
-            operation.project_id,
-            operation.card_id
-          )
-          results.push(result)
-        }
+        // Process operations (in parallel if requested)
+        const results = await runBatch(
+          args.operations,
+          (operation) =>
+            client.projects.removeRelatedCard(
+              operation.workspace_id,
+              operation.project_id,
+              operation.card_id
+            ),
+          { ...args, signal: client.signal }
+        )
 
         return { unlinked: results }
       }
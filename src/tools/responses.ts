@@ -0,0 +1,46 @@
+/**
+ * @fileoverview Response continuation tools.
+ * Provides tools for fetching the rest of results truncated by the output size budget.
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
+import { z } from "zod"
+import { config } from "../config.js"
+import { callerId, createToolHandler, ANNOTATIONS } from "./helpers.js"
+import { continueResponse } from "./truncation.js"
+
+/**
+ * Registers response continuation tools with the MCP server.
+ * These belong to no domain: they continue the results of any tool.
+ *
+ * @param server - The McpServer instance to register tools with
+ */
+export function registerResponseTools(server: McpServer) {
+  // ============================================================================
+  // TOOL: response_continue
+  // Fetch the next slice of a truncated tool result
+  // ============================================================================
+  server.registerTool(
+    "response_continue",
+    {
+      title: "Continue Truncated Response",
+      description:
+        "Fetch the next items of a tool result that was truncated because it exceeded the maximum response size. Pass the continuation_token from the result's 'truncated' summary. The response has the same shape as the original result and includes a new continuation_token while items remain. Tokens expire 5 minutes after their last use.",
+      inputSchema: {
+        continuation_token: z
+          .string()
+          .describe("Continuation token from the 'truncated' summary of a previous result"),
+      },
+      annotations: ANNOTATIONS.read,
+    },
+    createToolHandler(
+      (_client, args: { continuation_token: string }, extra) => {
+        // Served from the server-side cache; no API request is made
+        return Promise.resolve(
+          continueResponse(args.continuation_token, config.maxResponseChars, callerId(extra))
+        )
+      },
+      { truncate: false }
+    )
+  )
+}
@@ -0,0 +1,257 @@
+/**
+ * @fileoverview Zod output schemas for tool results.
+ * Describes the main Superthread entities so tools can advertise an outputSchema and
+ * return structuredContent that clients can validate.
+ *
+ * The API passes through more fields than are listed here and its responses are not
+ * formally documented, so every schema allows unknown keys and only `id` is required.
+ * Entity schemas must never reject a real API response: when in doubt, leave a field out.
+ */
+
+import { z } from "zod"
+
+/**
+ * Unix timestamp in seconds, as returned by the API.
+ */
+const timestamp = z.number().nullish()
+
+/**
+ * Tag attached to cards.
+ */
+export const tagSchema = z
+  .object({
+    id: z.string(),
+    name: z.string().nullish(),
+    color: z.string().nullish(),
+  })
+  .passthrough()
+
+/**
+ * Card (task) on a board or sprint.
+ */
+export const cardSchema = z
+  .object({
+    id: z.string(),
+    title: z.string().nullish(),
+    content: z.string().nullish(),
+    board_id: z.string().nullish(),
+    list_id: z.string().nullish(),
+    sprint_id: z.string().nullish(),
+    project_id: z.string().nullish(),
+    epic_id: z.string().nullish(),
+    owner_id: z.string().nullish(),
+    priority: z.number().nullish(),
+    estimate: z.number().nullish(),
+    start_date: timestamp,
+    due_date: timestamp,
+    archived: z.unknown().optional(),
+    time_created: timestamp,
+    time_updated: timestamp,
+  })
+  .passthrough()
+
+/**
+ * List (status column) on a board or sprint.
+ */
+export const listSchema = z
+  .object({
+    id: z.string(),
+    title: z.string().nullish(),
+    content: z.string().nullish(),
+    color: z.string().nullish(),
+    icon: z.string().nullish(),
+    behavior: z.string().nullish(),
+    cards: z.array(cardSchema).nullish(),
+  })
+  .passthrough()
+
+/**
+ * Kanban board with its lists.
+ */
+export const boardSchema = z
+  .object({
+    id: z.string(),
+    title: z.string().nullish(),
+    content: z.string().nullish(),
+    project_id: z.string().nullish(),
+    icon: z.string().nullish(),
+    color: z.string().nullish(),
+    layout: z.string().nullish(),
+    lists: z.array(listSchema).nullish(),
+    time_created: timestamp,
+    time_updated: timestamp,
+  })
+  .passthrough()
+
+/**
+ * Space (called "project" in the API).
+ */
+export const spaceSchema = z
+  .object({
+    id: z.string(),
+    title: z.string().nullish(),
+    description: z.string().nullish(),
+    icon: z.unknown().optional(),
+    time_created: timestamp,
+    time_updated: timestamp,
+  })
+  .passthrough()
+
+/**
+ * Documentation page.
+ */
+export const pageSchema = z
+  .object({
+    id: z.string(),
+    title: z.string().nullish(),
+    content: z.string().nullish(),
+    project_id: z.string().nullish(),
+    parent_page_id: z.string().nullish(),
+    time_created: timestamp,
+    time_updated: timestamp,
+  })
+  .passthrough()
+
+/**
+ * Comment on a card or page (replies are comments too).
+ */
+export const commentSchema = z
+  .object({
+    id: z.string(),
+    content: z.string().nullish(),
+    user_id: z.string().nullish(),
+    card_id: z.string().nullish(),
+    page_id: z.string().nullish(),
+    time_created: timestamp,
+    time_updated: timestamp,
+  })
+  .passthrough()
+
+/**
+ * Meeting note.
+ */
+export const noteSchema = z
+  .object({
+    id: z.string(),
+    title: z.string().nullish(),
+    user_id: z.string().nullish(),
+    time_created: timestamp,
+    time_updated: timestamp,
+  })
+  .passthrough()
+
+/**
+ * Sprint with its lists.
+ */
+export const sprintSchema = z
+  .object({
+    id: z.string(),
+    title: z.string().nullish(),
+    project_id: z.string().nullish(),
+    start_date: timestamp,
+    end_date: timestamp,
+    lists: z.array(listSchema).nullish(),
+  })
+  .passthrough()
+
+/**
+ * Structured tool error (see ToolError in errors.ts).
+ */
+const toolErrorSchema = z
+  .object({
+    code: z.string(),
+    message: z.string(),
+    status: z.number().optional(),
+    endpoint: z.string().optional(),
+    details: z.unknown().optional(),
+    hints: z.array(z.string()),
+  })
+  .passthrough()
+
+/**
+ * Per-item results of a batch tool (see BatchItemResult in helpers.ts).
+ *
+ * @param result - Schema of a successful item's result
+ * @returns Schema for the array of item results
+ */
+function batchResults<T extends z.ZodTypeAny>(result: T) {
+  return z.array(
+    z
+      .object({
+        index: z.number(),
+        status: z.enum(["success", "error", "skipped", "rolled_back", "rollback_failed"]),
+        result: result.optional(),
+        error: toolErrorSchema.optional(),
+      })
+      .passthrough()
+  )
+}
+
+/**
+ * Wraps an entity schema in an API response object (e.g., `{ card: {...} }`).
+ *
+ * @param key - Response property holding the entity
+ * @param entity - Entity schema
+ * @returns Schema of the response
+ */
+function entityResponse<T extends z.ZodTypeAny>(key: string, entity: T) {
+  return z.object({ [key]: entity.optional() }).passthrough()
+}
+
+/**
+ * Wraps an entity schema in an API list response (e.g., `{ boards: [...] }`).
+ *
+ * @param key - Response property holding the entities
+ * @param entity - Entity schema
+ * @returns Schema of the response
+ */
+function listResponse<T extends z.ZodTypeAny>(key: string, entity: T) {
+  return z.object({ [key]: z.array(entity).optional() }).passthrough()
+}
+
+// Output schemas for tools returning a single API response
+
+export const boardListOutputSchema = listResponse("boards", boardSchema)
+export const spaceListOutputSchema = listResponse("projects", spaceSchema)
+export const pageListOutputSchema = listResponse("pages", pageSchema)
+export const noteListOutputSchema = listResponse("notes", noteSchema)
+export const sprintListOutputSchema = listResponse("sprints", sprintSchema)
+export const tagListOutputSchema = listResponse("tags", tagSchema)
+export const commentListOutputSchema = listResponse("comments", commentSchema)
+
+/**
+ * Search results. Grouped searches return one array per entity type.
+ */
+export const searchOutputSchema = z
+  .object({
+    cards: z.array(cardSchema).optional(),
+    boards: z.array(boardSchema).optional(),
+    pages: z.array(pageSchema).optional(),
+    notes: z.array(noteSchema).optional(),
+    cursor: z.string().nullish(),
+  })
+  .passthrough()
+
+// Output schemas for batch get tools
+
+export const cardBatchOutputSchema = z.object({
+  cards: batchResults(entityResponse("card", cardSchema)),
+})
+export const boardBatchOutputSchema = z.object({
+  boards: batchResults(entityResponse("board", boardSchema)),
+})
+export const spaceBatchOutputSchema = z.object({
+  spaces: batchResults(entityResponse("project", spaceSchema)),
+})
+export const pageBatchOutputSchema = z.object({
+  pages: batchResults(entityResponse("page", pageSchema)),
+})
+export const commentBatchOutputSchema = z.object({
+  comments: batchResults(entityResponse("comment", commentSchema)),
+})
+export const noteBatchOutputSchema = z.object({
+  notes: batchResults(entityResponse("note", noteSchema)),
+})
+export const sprintBatchOutputSchema = z.object({
+  sprints: batchResults(entityResponse("sprint", sprintSchema)),
+})
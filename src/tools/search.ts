@@ -6,7 +6,17 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
 import { z } from "zod"
 import type { SearchParams } from "../api/search.js"
-import { createToolHandler, buildParams } from "./helpers.js"
+import {
+  createToolHandler,
+  buildParams,
+  ANNOTATIONS,
+  fieldsSchema,
+  compactSchema,
+  formatSchema,
+  workspaceIdSchema,
+} from "./helpers.js"
+import { formatSearch } from "./markdown.js"
+import { searchOutputSchema } from "./schemas.js"
 
 /**
  * Registers search tools with the MCP server.
@@ -25,7 +35,7 @@ export function registerSearchTools(server: McpServer) {
       description:
         "Execute a search query across multiple workspace entities, including boards, cards, pages, and projects. Customize the search by specifying targeted fields like title or content, filtering by types of objects, or focusing on specific statuses. Additional options include filtering by project, controlling whether archived data is included, and choosing grouped or ungrouped results. This comprehensive search endpoint provides flexibility to locate relevant workspace data efficiently.",
       inputSchema: {
-        workspace_id: z.string().describe("Workspace ID"),
+        workspace_id: workspaceIdSchema,
         q: z.string().describe("Search query string"),
         field: z
           .enum(["title", "content"])
@@ -43,7 +53,12 @@ export function registerSearchTools(server: McpServer) {
           .optional()
           .describe("Return grouped results by entity type (default: false)"),
         cursor: z.string().optional().describe("Pagination cursor for retrieving more results"),
+        fields: fieldsSchema,
+        compact: compactSchema,
+        format: formatSchema,
       },
+      annotations: ANNOTATIONS.read,
+      outputSchema: searchOutputSchema,
     },
     createToolHandler(
       async (
@@ -72,7 +87,8 @@ export function registerSearchTools(server: McpServer) {
         })
 
         return client.search.search(args.workspace_id, params as SearchParams)
-      }
+      },
+      { structured: true, markdown: formatSearch }
     )
   )
 }
@@ -0,0 +1,84 @@
+/**
+ * @fileoverview Response shaping for tool results.
+ * Reduces token usage by projecting entities to selected fields and stripping noise
+ * from API responses before they are returned to the LLM.
+ */
+
+import { matchesPattern } from "../utils.js"
+
+/**
+ * Options controlling how a tool result is shaped.
+ */
+export interface ShapeOptions {
+  /** Fields to keep on each entity (objects with an `id`). `id` is always kept. */
+  fields?: string[]
+  /** Strip nulls, empty strings, and display-only fields */
+  compact?: boolean
+}
+
+/**
+ * Keys that only matter for rendering in the Superthread UI.
+ * Matched case-insensitively with wildcard support.
+ */
+const NOISE_KEY_PATTERNS = ["*blurhash*", "*avatar*", "*thumbnail*", "profile_image*"]
+
+/**
+ * Checks if a key holds display-only data.
+ *
+ * @param key - Object key
+ * @returns True if compact mode should drop the key
+ */
+function isNoiseKey(key: string): boolean {
+  return NOISE_KEY_PATTERNS.some((pattern) => matchesPattern(key, pattern))
+}
+
+/**
+ * Shapes a tool result by projecting entities and/or stripping noise.
+ *
+ * Projection applies to every entity (any object with an `id`) at every nesting level, so
+ * nested entities are only kept if their container field is selected. For example,
+ * `["title", "lists", "cards"]` on a board keeps the board's title and lists, each list's
+ * title and cards, and each card's title. Wrapper objects without an `id` (API envelopes,
+ * batch item results) are never projected.
+ *
+ * @param value - Tool result (JSON-compatible)
+ * @param options - Shaping options
+ * @returns Shaped copy of the value (the input is not modified)
+ *
+ * @example
+ * shapeResponse({ card: { id: "c1", title: "Fix", blurhash: "LKO2", due_date: null } }, { compact: true })
+ * // { card: { id: "c1", title: "Fix" } }
+ *
+ * shapeResponse({ card: { id: "c1", title: "Fix", content: "<p>...</p>" } }, { fields: ["title"] })
+ * // { card: { id: "c1", title: "Fix" } }
+ */
+export function shapeResponse(value: unknown, options: ShapeOptions): unknown {
+  const fields = options.fields && options.fields.length > 0 ? new Set(options.fields) : undefined
+  if (!fields && !options.compact) {
+    return value
+  }
+
+  const shape = (node: unknown): unknown => {
+    if (Array.isArray(node)) {
+      return node.map(shape)
+    }
+    if (node === null || typeof node !== "object") {
+      return node
+    }
+
+    const isEntity = "id" in node
+    const result: Record<string, unknown> = {}
+    for (const [key, child] of Object.entries(node)) {
+      if (fields && isEntity && key !== "id" && !fields.has(key)) {
+        continue
+      }
+      if (options.compact && (child === null || child === "" || isNoiseKey(key))) {
+        continue
+      }
+      result[key] = shape(child)
+    }
+    return result
+  }
+
+  return shape(value)
+}
@@ -5,7 +5,19 @@
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
 import { z } from "zod"
-import { createToolHandler } from "./helpers.js"
+import {
+  createToolHandler,
+  runBatch,
+  parallelSchema,
+  stopOnErrorSchema,
+  dryRunSchema,
+  ANNOTATIONS,
+  fieldsSchema,
+  compactSchema,
+  workspaceIdSchema,
+} from "./helpers.js"
+import { spaceBatchOutputSchema, spaceListOutputSchema } from "./schemas.js"
+import { NameResolver } from "../resolvers.js"
 
 /**
  * Registers space (organizational container) management tools with the MCP server.
@@ -24,12 +36,19 @@ export function registerSpaceTools(server: McpServer) {
       description:
         "Get all spaces (organizational containers) in a workspace. Spaces contain boards, pages, and other content.",
       inputSchema: {
-        workspace_id: z.string().describe("Workspace ID to get spaces from"),
+        workspace_id: workspaceIdSchema,
+        fields: fieldsSchema,
+        compact: compactSchema,
       },
+      annotations: ANNOTATIONS.read,
+      outputSchema: spaceListOutputSchema,
     },
-    createToolHandler(async (client, args) => {
-      return client.spaces.list(args.workspace_id)
-    })
+    createToolHandler(
+      async (client, args) => {
+        return client.spaces.list(args.workspace_id)
+      },
+      { structured: true }
+    )
   )
 
   // ============================================================================
@@ -46,24 +65,38 @@ export function registerSpaceTools(server: McpServer) {
         spaces: z
           .array(
             z.object({
-              workspace_id: z.string().describe("Workspace ID"),
+              workspace_id: workspaceIdSchema,
               space_id: z.string().describe("Space ID to retrieve"),
             })
           )
           .describe("Array of spaces to retrieve (use single-element array for one space)"),
+        parallel: parallelSchema,
+        stop_on_error: stopOnErrorSchema,
+        fields: fieldsSchema,
+        compact: compactSchema,
       },
+      annotations: ANNOTATIONS.read,
+      outputSchema: spaceBatchOutputSchema,
     },
     createToolHandler(
-      async (client, args: { spaces: Array<{ workspace_id: string; space_id: string }> }) => {
-        // Process spaces sequentially
-        const results = []
-        for (const space of args.spaces) {
-          const result = await client.spaces.get(space.workspace_id, space.space_id)
-          results.push(result)
+      async (
+        client,
+        args: {
+          spaces: Array<{ workspace_id: string; space_id: string }>
+          parallel?: boolean
+          stop_on_error?: boolean
         }
+      ) => {
+        // Process spaces (in parallel if requested)
+        const results = await runBatch(
+          args.spaces,
+          (space) => client.spaces.get(space.workspace_id, space.space_id),
+          { ...args, signal: client.signal }
+        )
 
         return { spaces: results }
-      }
+      },
+      { structured: true }
     )
   )
 
@@ -81,7 +114,7 @@ export function registerSpaceTools(server: McpServer) {
         spaces: z
           .array(
             z.object({
-              workspace_id: z.string().describe("Workspace ID to create space in"),
+              workspace_id: workspaceIdSchema,
               title: z.string().describe("Space title"),
               description: z.string().optional().describe("Space description"),
               icon: z
@@ -96,7 +129,11 @@ export function registerSpaceTools(server: McpServer) {
             })
           )
           .describe("Array of spaces to create (use single-element array for one space)"),
+        parallel: parallelSchema,
+        stop_on_error: stopOnErrorSchema,
+        dry_run: dryRunSchema,
       },
+      annotations: ANNOTATIONS.create,
     },
     createToolHandler(
       async (
@@ -113,18 +150,21 @@ export function registerSpaceTools(server: McpServer) {
               color?: string
             }
           }>
+          parallel?: boolean
+          stop_on_error?: boolean
         }
       ) => {
-        // Process spaces sequentially
-        const results = []
-        for (const space of args.spaces) {
-          const result = await client.spaces.create(space.workspace_id, {
-            title: space.title,
-            description: space.description,
-            icon: space.icon,
-          })
-          results.push(result)
-        }
+        // Process spaces (in parallel if requested)
+        const results = await runBatch(
+          args.spaces,
+          (space) =>
+            client.spaces.create(space.workspace_id, {
+              title: space.title,
+              description: space.description,
+              icon: space.icon,
+            }),
+          { ...args, signal: client.signal }
+        )
 
         return { spaces: results }
       }
@@ -145,7 +185,7 @@ export function registerSpaceTools(server: McpServer) {
         spaces: z
           .array(
             z.object({
-              workspace_id: z.string().describe("Workspace ID"),
+              workspace_id: workspaceIdSchema,
               space_id: z.string().describe("Space ID to update"),
               title: z.string().optional().describe("New space title"),
               description: z.string().optional().describe("New space description"),
@@ -162,7 +202,11 @@ export function registerSpaceTools(server: McpServer) {
             })
           )
           .describe("Array of spaces to update (use single-element array for one space)"),
+        parallel: parallelSchema,
+        stop_on_error: stopOnErrorSchema,
+        dry_run: dryRunSchema,
       },
+      annotations: ANNOTATIONS.update,
     },
     createToolHandler(
       async (
@@ -181,19 +225,22 @@ export function registerSpaceTools(server: McpServer) {
             }
             archived?: boolean
           }>
+          parallel?: boolean
+          stop_on_error?: boolean
         }
       ) => {
-        // Process spaces sequentially
-        const results = []
-        for (const space of args.spaces) {
-          const result = await client.spaces.update(space.workspace_id, space.space_id, {
-            title: space.title,
-            description: space.description,
-            icon: space.icon,
-            archived: space.archived,
-          })
-          results.push(result)
-        }
+        // Process spaces (in parallel if requested)
+        const results = await runBatch(
+          args.spaces,
+          (space) =>
+            client.spaces.update(space.workspace_id, space.space_id, {
+              title: space.title,
+              description: space.description,
+              icon: space.icon,
+              archived: space.archived,
+            }),
+          { ...args, signal: client.signal }
+        )
 
         return { spaces: results }
       }
@@ -214,14 +261,19 @@ export function registerSpaceTools(server: McpServer) {
         operations: z
           .array(
             z.object({
-              workspace_id: z.string().describe("Workspace ID"),
+              workspace_id: workspaceIdSchema,
               space_id: z.string().describe("Space ID to add member to"),
-              user_id: z.string().describe("User ID to add as member"),
+              user_id: z.string().optional().describe("User ID to add as member (or use user)"),
+              user: z.string().optional().describe("User's name or email instead of user_id"),
               role: z.string().optional().describe("Member role (e.g., 'member', 'admin')"),
             })
           )
           .describe("Array of member additions (use single-element array for one operation)"),
+        parallel: parallelSchema,
+        stop_on_error: stopOnErrorSchema,
+        dry_run: dryRunSchema,
       },
+      annotations: ANNOTATIONS.add,
     },
     createToolHandler(
       async (
@@ -230,20 +282,26 @@ export function registerSpaceTools(server: McpServer) {
           operations: Array<{
             workspace_id: string
             space_id: string
-            user_id: string
+            user_id?: string
+            user?: string
             role?: string
           }>
+          parallel?: boolean
+          stop_on_error?: boolean
         }
       ) => {
-        // Process operations sequentially
-        const results = []
-        for (const op of args.operations) {
-          const result = await client.spaces.addMember(op.workspace_id, op.space_id, {
-            user_id: op.user_id,
-            role: op.role,
-          })
-          results.push(result)
-        }
+        const names = new NameResolver(client)
+
+        // Process operations (in parallel if requested)
+        const results = await runBatch(
+          args.operations,
+          async (op) =>
+            client.spaces.addMember(op.workspace_id, op.space_id, {
+              user_id: await names.user(op),
+              role: op.role,
+            }),
+          { ...args, signal: client.signal }
+        )
 
         return { members: results }
       }
@@ -264,13 +322,18 @@ export function registerSpaceTools(server: McpServer) {
         operations: z
           .array(
             z.object({
-              workspace_id: z.string().describe("Workspace ID"),
+              workspace_id: workspaceIdSchema,
               space_id: z.string().describe("Space ID to remove member from"),
-              member_id: z.string().describe("Member ID to remove"),
+              member_id: z.string().optional().describe("Member ID to remove (or use user)"),
+              user: z.string().optional().describe("Member's name or email instead of member_id"),
             })
           )
           .describe("Array of member removals (use single-element array for one operation)"),
+        parallel: parallelSchema,
+        stop_on_error: stopOnErrorSchema,
+        dry_run: dryRunSchema,
       },
+      annotations: ANNOTATIONS.delete,
     },
     createToolHandler(
       async (
@@ -279,20 +342,26 @@ export function registerSpaceTools(server: McpServer) {
           operations: Array<{
             workspace_id: string
             space_id: string
-            member_id: string
+            member_id?: string
+            user?: string
           }>
+          parallel?: boolean
+          stop_on_error?: boolean
         }
       ) => {
-        // Process operations sequentially
-        const results = []
-        for (const op of args.operations) {
-          const result = await client.spaces.removeMember(
-            op.workspace_id,
-            op.space_id,
-            op.member_id
-          )
-          results.push(result)
-        }
+        const names = new NameResolver(client)
+
+        // Process operations (in parallel if requested)
+        const results = await runBatch(
+          args.operations,
+          async (op) =>
+            client.spaces.removeMember(
+              op.workspace_id,
+              op.space_id,
+              await names.user({ ...op, user_id: op.member_id })
+            ),
+          { ...args, signal: client.signal }
+        )
 
         return { removed: results }
       }
@@ -313,12 +382,16 @@ export function registerSpaceTools(server: McpServer) {
         spaces: z
           .array(
             z.object({
-              workspace_id: z.string().describe("Workspace ID"),
+              workspace_id: workspaceIdSchema,
               space_id: z.string().describe("Space ID to delete"),
             })
           )
           .describe("Array of spaces to delete (use single-element array for one space)"),
+        parallel: parallelSchema,
+        stop_on_error: stopOnErrorSchema,
+        dry_run: dryRunSchema,
       },
+      annotations: ANNOTATIONS.delete,
     },
     createToolHandler(
       async (
@@ -328,14 +401,16 @@ export function registerSpaceTools(server: McpServer) {
             workspace_id: string
             space_id: string
           }>
+          parallel?: boolean
+          stop_on_error?: boolean
         }
       ) => {
-        // Process spaces sequentially
-        const results = []
-        for (const space of args.spaces) {
-          const result = await client.spaces.delete(space.workspace_id, space.space_id)
-          results.push(result)
-        }
+        // Process spaces (in parallel if requested)
+        const results = await runBatch(
+          args.spaces,
+          (space) => client.spaces.delete(space.workspace_id, space.space_id),
+          { ...args, signal: client.signal }
+        )
 
         return { deleted: results }
       }
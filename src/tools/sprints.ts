@@ -5,7 +5,17 @@
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
 import { z } from "zod"
-import { createToolHandler } from "./helpers.js"
+import {
+  createToolHandler,
+  runBatch,
+  parallelSchema,
+  stopOnErrorSchema,
+  ANNOTATIONS,
+  fieldsSchema,
+  compactSchema,
+  workspaceIdSchema,
+} from "./helpers.js"
+import { sprintBatchOutputSchema, sprintListOutputSchema } from "./schemas.js"
 
 /**
  * Registers sprint management tools with the MCP server.
@@ -24,13 +34,20 @@ export function registerSprintTools(server: McpServer) {
       description:
         "Get all sprints for a space. Returns sprint IDs, dates, and basic info. Use sprint_get if you need to see available list names before creating cards.",
       inputSchema: {
-        workspace_id: z.string().describe("Workspace ID"),
+        workspace_id: workspaceIdSchema,
         space_id: z.string().describe("Space ID (project_id) to get sprints from"),
+        fields: fieldsSchema,
+        compact: compactSchema,
       },
+      annotations: ANNOTATIONS.read,
+      outputSchema: sprintListOutputSchema,
     },
-    createToolHandler(async (client, args) => {
-      return client.sprints.list(args.workspace_id, args.space_id)
-    })
+    createToolHandler(
+      async (client, args) => {
+        return client.sprints.list(args.workspace_id, args.space_id)
+      },
+      { structured: true }
+    )
   )
 
   // ============================================================================
@@ -47,13 +64,19 @@ export function registerSprintTools(server: McpServer) {
         sprints: z
           .array(
             z.object({
-              workspace_id: z.string().describe("Workspace ID"),
+              workspace_id: workspaceIdSchema,
               sprint_id: z.string().describe("Sprint ID to retrieve"),
               space_id: z.string().describe("Space ID (project_id) - required for sprint lookup"),
             })
           )
           .describe("Array of sprints to retrieve (use single-element array for one sprint)"),
+        parallel: parallelSchema,
+        stop_on_error: stopOnErrorSchema,
+        fields: fieldsSchema,
+        compact: compactSchema,
       },
+      annotations: ANNOTATIONS.read,
+      outputSchema: sprintBatchOutputSchema,
     },
     createToolHandler(
       async (
@@ -64,21 +87,20 @@ export function registerSprintTools(server: McpServer) {
             sprint_id: string
             space_id: string
           }>
+          parallel?: boolean
+          stop_on_error?: boolean
         }
       ) => {
-        // Process sprints sequentially
-        const results = []
-        for (const sprint of args.sprints) {
-          const result = await client.sprints.get(
-            sprint.workspace_id,
-            sprint.sprint_id,
-            sprint.space_id
-          )
-          results.push(result)
-        }
+        // Process sprints (in parallel if requested)
+        const results = await runBatch(
+          args.sprints,
+          (sprint) => client.sprints.get(sprint.workspace_id, sprint.sprint_id, sprint.space_id),
+          { ...args, signal: client.signal }
+        )
 
         return { sprints: results }
-      }
+      },
+      { structured: true }
     )
   )
 }
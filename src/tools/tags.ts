@@ -6,7 +6,16 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
 import { z } from "zod"
 import type { CreateTagParams, UpdateTagParams } from "../api/tags.js"
-import { createToolHandler, buildParams } from "./helpers.js"
+import {
+  createToolHandler,
+  buildParams,
+  runBatch,
+  parallelSchema,
+  stopOnErrorSchema,
+  dryRunSchema,
+  ANNOTATIONS,
+  workspaceIdSchema,
+} from "./helpers.js"
 
 /**
  * Registers tag management tools with the MCP server.
@@ -28,7 +37,7 @@ export function registerTagTools(server: McpServer) {
         tags: z
           .array(
             z.object({
-              workspace_id: z.string().describe("Workspace ID"),
+              workspace_id: workspaceIdSchema,
               name: z.string().describe("Tag name (required)"),
               color: z.string().describe("Tag color as hex string (e.g., '#ee46bc') (required)"),
               project_id: z
@@ -38,7 +47,11 @@ export function registerTagTools(server: McpServer) {
             })
           )
           .describe("Array of tags to create (use single-element array for one tag)"),
+        parallel: parallelSchema,
+        stop_on_error: stopOnErrorSchema,
+        dry_run: dryRunSchema,
       },
+      annotations: ANNOTATIONS.create,
     },
     createToolHandler(
       async (
@@ -50,20 +63,24 @@ export function registerTagTools(server: McpServer) {
             color: string
             project_id?: string
           }>
+          parallel?: boolean
+          stop_on_error?: boolean
         }
       ) => {
-        // Process tags sequentially
-        const results = []
-        for (const tag of args.tags) {
-          const params = buildParams<CreateTagParams>({
-            name: tag.name,
-            color: tag.color,
-            project_id: tag.project_id,
-          })
+        // Process tags (in parallel if requested)
+        const results = await runBatch(
+          args.tags,
+          async (tag) => {
+            const params = buildParams<CreateTagParams>({
+              name: tag.name,
+              color: tag.color,
+              project_id: tag.project_id,
+            })
 
-          const result = await client.tags.create(tag.workspace_id, params as CreateTagParams)
-          results.push(result)
-        }
+            return client.tags.create(tag.workspace_id, params as CreateTagParams)
+          },
+          { ...args, signal: client.signal }
+        )
 
         return { tags: results }
       }
@@ -84,7 +101,7 @@ export function registerTagTools(server: McpServer) {
         tags: z
           .array(
             z.object({
-              workspace_id: z.string().describe("Workspace ID"),
+              workspace_id: workspaceIdSchema,
               tag_id: z.string().describe("Tag ID to update"),
               name: z.string().optional().describe("New tag name"),
               color: z
@@ -94,7 +111,11 @@ export function registerTagTools(server: McpServer) {
             })
           )
           .describe("Array of tags to update (use single-element array for one tag)"),
+        parallel: parallelSchema,
+        stop_on_error: stopOnErrorSchema,
+        dry_run: dryRunSchema,
       },
+      annotations: ANNOTATIONS.update,
     },
     createToolHandler(
       async (
@@ -106,23 +127,23 @@ export function registerTagTools(server: McpServer) {
             name?: string
             color?: string
           }>
+          parallel?: boolean
+          stop_on_error?: boolean
         }
       ) => {
-        // Process tags sequentially
-        const results = []
-        for (const tag of args.tags) {
-          const params = buildParams<UpdateTagParams>({
-            name: tag.name,
-            color: tag.color,
-          })
+        // Process tags (in parallel if requested)
+        const results = await runBatch(
+          args.tags,
+          async (tag) => {
+            const params = buildParams<UpdateTagParams>({
+              name: tag.name,
+              color: tag.color,
+            })
 
-          const result = await client.tags.update(
-            tag.workspace_id,
-            tag.tag_id,
-            params as UpdateTagParams
-          )
-          results.push(result)
-        }
+            return client.tags.update(tag.workspace_id, tag.tag_id, params as UpdateTagParams)
+          },
+          { ...args, signal: client.signal }
+        )
 
         return { tags: results }
       }
@@ -143,12 +164,16 @@ export function registerTagTools(server: McpServer) {
         tags: z
           .array(
             z.object({
-              workspace_id: z.string().describe("Workspace ID"),
+              workspace_id: workspaceIdSchema,
               tag_id: z.string().describe("Tag ID to delete"),
             })
           )
           .describe("Array of tags to delete (use single-element array for one tag)"),
+        parallel: parallelSchema,
+        stop_on_error: stopOnErrorSchema,
+        dry_run: dryRunSchema,
       },
+      annotations: ANNOTATIONS.delete,
     },
     createToolHandler(
       async (
@@ -158,14 +183,16 @@ export function registerTagTools(server: McpServer) {
             workspace_id: string
             tag_id: string
           }>
+          parallel?: boolean
+          stop_on_error?: boolean
         }
       ) => {
-        // Process tags sequentially
-        const results = []
-        for (const tag of args.tags) {
-          const result = await client.tags.delete(tag.workspace_id, tag.tag_id)
-          results.push(result)
-        }
+        // Process tags (in parallel if requested)
+        const results = await runBatch(
+          args.tags,
+          (tag) => client.tags.delete(tag.workspace_id, tag.tag_id),
+          { ...args, signal: client.signal }
+        )
 
         return { deleted: results }
       }
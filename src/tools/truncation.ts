@@ -0,0 +1,271 @@
+/**
+ * @fileoverview Output size budgeting for tool results.
+ * Oversized results have their top-level arrays truncated to fit the configured size, and
+ * the full result is kept in a short-lived in-memory cache so the rest can be fetched in
+ * slices with an opaque continuation token (see the response_continue tool). Each cached
+ * result belongs to the caller it was returned to, so tokens can't be used across sessions.
+ */
+
+import { randomUUID } from "node:crypto"
+import { ValidationError } from "../errors.js"
+
+/**
+ * How long a cached result stays available after its last slice was fetched.
+ */
+export const CONTINUATION_TTL_MS = 5 * 60 * 1000
+
+/**
+ * Maximum number of cached results; the least recently used is evicted first.
+ */
+const MAX_CACHED_RESPONSES = 50
+
+/**
+ * Items of a truncated array field.
+ */
+export interface OmittedItems {
+  /** Top-level field holding the array (e.g., "boards") */
+  field: string
+  /** Number of items in the full result */
+  total: number
+  /** Number of items in this slice */
+  returned: number
+  /** Number of items after this slice */
+  remaining: number
+}
+
+/**
+ * Summary added to a truncated result under the `truncated` key.
+ */
+export interface TruncationSummary {
+  message: string
+  omitted: OmittedItems[]
+  /** Opaque token for response_continue */
+  continuation_token: string
+}
+
+type JsonObject = Record<string, unknown>
+
+interface CachedResponse {
+  value: JsonObject
+  /** Caller the result was returned to (see limitResponse) */
+  owner: string
+  expiresAt: number
+}
+
+interface Cursor {
+  id: string
+  offset: number
+}
+
+const cache = new Map<string, CachedResponse>()
+
+/**
+ * Returns the size of a value as sent to the client (pretty-printed JSON).
+ */
+function responseSize(value: unknown): number {
+  return JSON.stringify(value, null, 2).length
+}
+
+/**
+ * Returns the top-level array fields of a result, in key order.
+ */
+function arrayFields(value: JsonObject): Array<[string, unknown[]]> {
+  return Object.entries(value).filter((entry): entry is [string, unknown[]] =>
+    Array.isArray(entry[1])
+  )
+}
+
+/**
+ * Checks if a value is a plain JSON object (not an array or null).
+ */
+function isJsonObject(value: unknown): value is JsonObject {
+  return value !== null && typeof value === "object" && !Array.isArray(value)
+}
+
+/**
+ * Encodes a cursor as an opaque URL-safe token.
+ */
+function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url")
+}
+
+/**
+ * Decodes a continuation token, or returns undefined if it is malformed.
+ */
+function decodeCursor(token: string): Cursor | undefined {
+  try {
+    const cursor = JSON.parse(Buffer.from(token, "base64url").toString()) as Partial<Cursor>
+    return typeof cursor.id === "string" && Number.isInteger(cursor.offset)
+      ? (cursor as Cursor)
+      : undefined
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Stores a result for later slices, dropping expired and least recently used entries.
+ */
+function cacheResponse(value: JsonObject, owner: string): string {
+  const now = Date.now()
+  for (const [id, entry] of cache) {
+    if (entry.expiresAt <= now) {
+      cache.delete(id)
+    }
+  }
+  while (cache.size >= MAX_CACHED_RESPONSES) {
+    cache.delete(cache.keys().next().value as string)
+  }
+
+  const id = randomUUID()
+  cache.set(id, { value, owner, expiresAt: now + CONTINUATION_TTL_MS })
+  return id
+}
+
+/**
+ * Builds the slice of a result holding items [offset, offset + count) of its array fields.
+ *
+ * The array fields are treated as one sequence in key order, so a slice may end partway
+ * through one field and the next slice continues there. Non-array fields are kept as is.
+ */
+function buildSlice(
+  id: string,
+  value: JsonObject,
+  offset: number,
+  count: number,
+  maxChars: number
+): JsonObject {
+  const slice: JsonObject = { ...value }
+  const omitted: OmittedItems[] = []
+  let start = 0
+
+  for (const [field, items] of arrayFields(value)) {
+    const from = Math.min(Math.max(offset - start, 0), items.length)
+    const to = Math.min(Math.max(offset + count - start, 0), items.length)
+    slice[field] = items.slice(from, to)
+    if (to - from < items.length) {
+      omitted.push({
+        field,
+        total: items.length,
+        returned: to - from,
+        remaining: items.length - to,
+      })
+    }
+    start += items.length
+  }
+
+  const end = offset + count
+  if (end < start) {
+    const counts = omitted
+      .map((o) => `${o.field}: ${o.returned} returned, ${o.remaining} remaining of ${o.total}`)
+      .join("; ")
+    const truncated: TruncationSummary = {
+      message: `Response exceeded ${maxChars} characters and was truncated (${counts}). Call response_continue with continuation_token to get the next items.`,
+      omitted,
+      continuation_token: encodeCursor({ id, offset: end }),
+    }
+    slice.truncated = truncated
+  }
+
+  return slice
+}
+
+/**
+ * Returns the largest slice starting at `offset` that fits in `maxChars`.
+ * Always includes at least one item so every slice makes progress.
+ */
+function fitSlice(id: string, value: JsonObject, offset: number, maxChars: number): JsonObject {
+  const total = arrayFields(value).reduce((sum, [, items]) => sum + items.length, 0)
+  const available = total - offset
+
+  // Binary search on the item count (slice size grows with the count)
+  let low = 1
+  let high = available
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2)
+    if (responseSize(buildSlice(id, value, offset, mid, maxChars)) <= maxChars) {
+      low = mid
+    } else {
+      high = mid - 1
+    }
+  }
+
+  return buildSlice(id, value, offset, low, maxChars)
+}
+
+/**
+ * Truncates a tool result that is larger than the size budget.
+ *
+ * Only the result's top-level arrays (e.g., `boards` in board_get_all) are truncated, keeping
+ * their leading items, so the same result always truncates the same way. The full result is
+ * cached and a `truncated` summary with a continuation token is added.
+ *
+ * @param value - Tool result
+ * @param maxChars - Size budget in characters of pretty-printed JSON (0 disables)
+ * @param owner - Opaque ID of the caller; only the same caller can continue the result
+ * @returns The value unchanged if it fits (or has no arrays to truncate), otherwise its first slice
+ *
+ * @example
+ * limitResponse({ boards: [...150 boards] }, 100000, callerId(extra))
+ * // { boards: [...first 40], truncated: { omitted: [{ field: "boards", total: 150, ... }], ... } }
+ */
+export function limitResponse(value: unknown, maxChars: number, owner: string): unknown {
+  if (maxChars <= 0 || !isJsonObject(value) || responseSize(value) <= maxChars) {
+    return value
+  }
+  const total = arrayFields(value).reduce((sum, [, items]) => sum + items.length, 0)
+  if (total <= 1) {
+    return value
+  }
+
+  const id = cacheResponse(value, owner)
+  const slice = fitSlice(id, value, 0, maxChars)
+  if (!slice.truncated) {
+    cache.delete(id)
+  }
+  return slice
+}
+
+/**
+ * Returns the next slice of a truncated result.
+ *
+ * @param token - Continuation token from a `truncated` summary
+ * @param maxChars - Size budget in characters (0 returns all remaining items)
+ * @param owner - Opaque ID of the caller, which must match the caller of the original tool
+ * @returns The next slice, with a new continuation token if items remain
+ * @throws {ValidationError} If the token is malformed, its result has expired, or it belongs
+ *   to another caller
+ */
+export function continueResponse(token: string, maxChars: number, owner: string): JsonObject {
+  const cursor = decodeCursor(token)
+  const entry = cursor && cache.get(cursor.id)
+  // Another caller's token is reported like an unknown one, so tokens can't be probed
+  if (!cursor || !entry || entry.owner !== owner || entry.expiresAt <= Date.now()) {
+    throw new ValidationError(
+      "Continuation token is invalid or has expired. Call the original tool again to get a new one."
+    )
+  }
+
+  // Refresh the entry so a client paging through a large result doesn't lose it midway
+  cache.delete(cursor.id)
+  cache.set(cursor.id, { ...entry, expiresAt: Date.now() + CONTINUATION_TTL_MS })
+
+  return maxChars > 0
+    ? fitSlice(cursor.id, entry.value, cursor.offset, maxChars)
+    : buildSlice(cursor.id, entry.value, cursor.offset, Infinity, maxChars)
+}
+
+/**
+ * Returns a short notice for a truncated result, for text formats that don't show the summary.
+ *
+ * @param value - Tool result, possibly truncated by limitResponse
+ * @returns Notice with the continuation token, or undefined if the result wasn't truncated
+ */
+export function truncationNotice(value: unknown): string | undefined {
+  const truncated = isJsonObject(value) ? value.truncated : undefined
+  if (!isJsonObject(truncated)) {
+    return undefined
+  }
+  const summary = truncated as unknown as TruncationSummary
+  return `_${summary.message}_\n\ncontinuation_token: \`${summary.continuation_token}\``
+}
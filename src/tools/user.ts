@@ -4,8 +4,16 @@
  */
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
-import { z } from "zod"
-import { createToolHandler } from "./helpers.js"
+import { config } from "../config.js"
+import { getWorkspaces } from "../lookups.js"
+import { defaultWorkspaceId } from "../workspaces.js"
+import {
+  createToolHandler,
+  ANNOTATIONS,
+  fieldsSchema,
+  compactSchema,
+  workspaceIdSchema,
+} from "./helpers.js"
 
 /**
  * Registers user and workspace member management tools with the MCP server.
@@ -23,13 +31,45 @@ export function registerUserTools(server: McpServer) {
       title: "Get My Account",
       description:
         "Get the current user's account information including workspace/team memberships",
-      inputSchema: {},
+      inputSchema: {
+        fields: fieldsSchema,
+        compact: compactSchema,
+      },
+      annotations: ANNOTATIONS.read,
     },
     createToolHandler(async (client) => {
       return client.user.getMyAccount()
     })
   )
 
+  // ============================================================================
+  // TOOL: workspace_list
+  // List the workspaces the user belongs to, with configured aliases
+  // ============================================================================
+  server.registerTool(
+    "workspace_list",
+    {
+      title: "List Workspaces",
+      description:
+        "List the workspaces (teams) you belong to, with their IDs, configured aliases, and which one is the default. Any tool's workspace_id accepts an ID or alias, and can be omitted to use the default workspace.",
+      inputSchema: {},
+      annotations: ANNOTATIONS.read,
+    },
+    createToolHandler(async (client) => {
+      const defaultId = defaultWorkspaceId()
+      const aliases = Object.entries(config.workspaceAliases)
+
+      return {
+        workspaces: (await getWorkspaces(client)).map((workspace) => ({
+          id: workspace.id,
+          name: workspace.name,
+          aliases: aliases.filter(([, id]) => id === workspace.id).map(([alias]) => alias),
+          default: workspace.id === defaultId,
+        })),
+      }
+    })
+  )
+
   // ============================================================================
   // TOOL: user_get_members
   // List all members of a workspace
@@ -40,8 +80,11 @@ export function registerUserTools(server: McpServer) {
       title: "Get Members",
       description: "Get all members of a workspace",
       inputSchema: {
-        workspace_id: z.string().describe("Workspace ID to get members from"),
+        workspace_id: workspaceIdSchema,
+        fields: fieldsSchema,
+        compact: compactSchema,
       },
+      annotations: ANNOTATIONS.read,
     },
     createToolHandler(async (client, args) => {
       return client.user.getMembers(args.workspace_id)
@@ -0,0 +1,142 @@
+/**
+ * @fileoverview Superthread web link parsing.
+ * Extracts the workspace and entity IDs from links copied from the Superthread app, so tools
+ * can take a pasted URL instead of separate IDs.
+ *
+ * Links have the form `https://app.superthread.com/<workspace>/<type>/<id>`, optionally with
+ * more segments in between (e.g., the space a board is in). A card opened over a board view
+ * is linked as `.../board/<id>?card=<card id>`.
+ */
+
+import { ValidationError } from "./errors.js"
+import { defaultWorkspaceId } from "./workspaces.js"
+
+/**
+ * Entity types that can be linked.
+ */
+export type LinkType = "card" | "board" | "page" | "project" | "note"
+
+/**
+ * Path segments that name each entity type (the app uses both singular and plural forms;
+ * roadmap projects are epics in the API).
+ */
+const TYPE_SEGMENTS: Record<string, LinkType> = {
+  card: "card",
+  cards: "card",
+  board: "board",
+  boards: "board",
+  page: "page",
+  pages: "page",
+  doc: "page",
+  docs: "page",
+  project: "project",
+  projects: "project",
+  epic: "project",
+  epics: "project",
+  note: "note",
+  notes: "note",
+}
+
+/**
+ * The entity a Superthread link points to.
+ */
+export interface SuperthreadLink {
+  workspaceId: string
+  type: LinkType
+  id: string
+}
+
+/**
+ * Parses a Superthread web link.
+ *
+ * @param url - Link copied from the Superthread app (the scheme may be omitted)
+ * @returns Workspace ID, entity type, and entity ID
+ * @throws {ValidationError} If the URL isn't a link to a Superthread card, board, page,
+ *   project, or note
+ *
+ * @example
+ * parseSuperthreadUrl("https://app.superthread.com/acme/card/123")
+ * // { workspaceId: "acme", type: "card", id: "123" }
+ */
+export function parseSuperthreadUrl(url: string): SuperthreadLink {
+  const invalid = (reason: string) =>
+    new ValidationError(`Not a Superthread link (${reason}): ${url}`)
+
+  const link = url.trim()
+  let parsed: URL
+  try {
+    parsed = new URL(/^[a-z][a-z\d+.-]*:\/\//i.test(link) ? link : `https://${link}`)
+  } catch {
+    throw invalid("malformed URL")
+  }
+
+  const host = parsed.hostname.toLowerCase()
+  if (host !== "superthread.com" && !host.endsWith(".superthread.com")) {
+    throw invalid(`unexpected host ${parsed.hostname}`)
+  }
+
+  let path: string[]
+  try {
+    path = parsed.pathname
+      .split("/")
+      .filter(Boolean)
+      .map((segment) => decodeURIComponent(segment))
+  } catch {
+    // A percent sign that doesn't start a valid UTF-8 escape
+    throw invalid("malformed URL")
+  }
+  const [workspaceId, ...segments] = path
+  if (!workspaceId) {
+    throw invalid("no workspace")
+  }
+
+  const cardId = parsed.searchParams.get("card")
+  if (cardId) {
+    return { workspaceId, type: "card", id: cardId }
+  }
+
+  // The last type/ID pair names the entity (earlier pairs are its containers)
+  for (let i = segments.length - 2; i >= 0; i--) {
+    const type = TYPE_SEGMENTS[segments[i].toLowerCase()]
+    if (type) {
+      return { workspaceId, type, id: segments[i + 1] }
+    }
+  }
+  throw invalid("no card, board, page, project, or note in the path")
+}
+
+/**
+ * Returns the workspace and entity IDs of a batch item, taking them from its `url` if they
+ * aren't given. Explicit IDs take precedence over the URL, and the URL's workspace over the
+ * default workspace.
+ *
+ * @param item - Tool arguments with a url, or workspace_id and the entity ID
+ * @param type - Entity type the tool works on
+ * @param idKey - Argument holding the entity ID (e.g., "card_id")
+ * @returns Workspace ID and entity ID
+ * @throws {ValidationError} If the URL is invalid or links to another type of entity, or if
+ *   neither a URL nor both IDs are given
+ *
+ * @example
+ * linkedIds({ url: "https://app.superthread.com/acme/board/7" }, "board", "board_id")
+ * // { workspace_id: "acme", board_id: "7" }
+ */
+export function linkedIds<K extends string>(
+  item: { url?: string; workspace_id?: string } & { [key in K]?: string },
+  type: LinkType,
+  idKey: K
+): { workspace_id: string } & { [key in K]: string } {
+  const link = item.url ? parseSuperthreadUrl(item.url) : undefined
+  if (link && link.type !== type) {
+    throw new ValidationError(`Expected a link to a ${type}, got a link to a ${link.type}`)
+  }
+
+  const workspaceId = item.workspace_id ?? link?.workspaceId ?? defaultWorkspaceId()
+  const id = item[idKey] ?? link?.id
+  if (!workspaceId || !id) {
+    throw new ValidationError(`Either url or workspace_id and ${idKey} must be provided`)
+  }
+  return { workspace_id: workspaceId, [idKey]: id } as { workspace_id: string } & {
+    [key in K]: string
+  }
+}
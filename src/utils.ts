@@ -6,6 +6,10 @@
 import validator from "validator"
 import type { SuperthreadClient } from "./api/client.js"
 import { config } from "./config.js"
+import { PathValidationError } from "./errors.js"
+
+// Re-exported for existing imports; the error hierarchy lives in errors.ts
+export { PathValidationError }
 
 /**
  * Parse a delimited string into an array of strings.
@@ -55,6 +59,79 @@ export function parseDelimitedString(
     .map((item) => (transform ? transform(item) : item))
 }
 
+/**
+ * Parse a delimited list of key=value pairs into a map.
+ * Entries without a key or value are skipped; later entries override earlier ones.
+ *
+ * @param value - String to parse (can be undefined)
+ * @param delimiter - Delimiter between entries
+ * @param transformKey - Optional transform applied to each key (e.g., toLowerCase)
+ * @returns Map of keys to values, or an empty map if value is undefined
+ *
+ * @example
+ * parseKeyValuePairs('eng=abc123,ops=def456', ',') // { eng: 'abc123', ops: 'def456' }
+ * parseKeyValuePairs('Eng = abc123', ',', s => s.toLowerCase()) // { eng: 'abc123' }
+ */
+export function parseKeyValuePairs(
+  value: string | undefined,
+  delimiter: string,
+  transformKey?: (key: string) => string
+): Record<string, string> {
+  const pairs: Record<string, string> = {}
+  for (const entry of parseDelimitedString(value, delimiter)) {
+    const separator = entry.indexOf("=")
+    const key = entry.slice(0, separator).trim()
+    const pairValue = entry.slice(separator + 1).trim()
+    if (separator > 0 && key && pairValue) {
+      pairs[transformKey ? transformKey(key) : key] = pairValue
+    }
+  }
+  return pairs
+}
+
+/**
+ * Parse a numeric setting such as an environment variable.
+ * Falls back to the default when the value is missing or not a finite number.
+ *
+ * @param value - String to parse (can be undefined)
+ * @param defaultValue - Value returned when parsing fails
+ * @returns Parsed number, or the default
+ *
+ * @example
+ * parseNumber('8080', 3000) // 8080
+ * parseNumber(undefined, 3000) // 3000
+ * parseNumber('abc', 3000) // 3000
+ */
+export function parseNumber(value: string | undefined, defaultValue: number): number {
+  if (value === undefined || value.trim() === "") {
+    return defaultValue
+  }
+
+  const parsed = Number(value)
+  return Number.isFinite(parsed) ? parsed : defaultValue
+}
+
+/**
+ * Parse a boolean setting such as an environment variable.
+ * Accepts "true", "1", "yes" and "on" (case-insensitive) as true; any other value is false.
+ *
+ * @param value - String to parse (can be undefined)
+ * @param defaultValue - Value returned when the setting is missing or empty
+ * @returns Parsed boolean, or the default
+ *
+ * @example
+ * parseBoolean('true', false) // true
+ * parseBoolean('0', true) // false
+ * parseBoolean(undefined, false) // false
+ */
+export function parseBoolean(value: string | undefined, defaultValue: boolean): boolean {
+  if (value === undefined || value.trim() === "") {
+    return defaultValue
+  }
+
+  return ["true", "1", "yes", "on"].includes(value.trim().toLowerCase())
+}
+
 /**
  * Escape special regex characters in a string.
  * Used internally by parseDelimitedString for escaping delimiters.
@@ -66,16 +143,6 @@ function escapeRegex(str: string): string {
   return str.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
 }
 
-/**
- * Error thrown when an ID fails validation.
- */
-export class PathValidationError extends Error {
-  constructor(message: string) {
-    super(message)
-    this.name = "PathValidationError"
-  }
-}
-
 /**
  * Escapes HTML special characters for safe use in HTML attributes.
  * Uses validator.escape() to prevent XSS attacks in constructed HTML.
@@ -0,0 +1,49 @@
+/**
+ * @fileoverview Workspace ID resolution.
+ * Maps workspace aliases (SUPERTHREAD_WORKSPACE_ALIASES) to workspace IDs and falls back to
+ * the default workspace (SUPERTHREAD_DEFAULT_WORKSPACE) when a tool call omits workspace_id.
+ * Settings are read on every call, so configuration changes apply immediately.
+ */
+
+import { config } from "./config.js"
+import { ValidationError } from "./errors.js"
+
+/**
+ * Returns the workspace ID an alias stands for, or the value itself if it isn't an alias.
+ *
+ * @param workspace - Workspace ID or alias (aliases are case-insensitive)
+ * @returns Workspace ID
+ *
+ * @example
+ * // With SUPERTHREAD_WORKSPACE_ALIASES="eng=abc123"
+ * resolveWorkspaceAlias("Eng") // "abc123"
+ * resolveWorkspaceAlias("def456") // "def456"
+ */
+export function resolveWorkspaceAlias(workspace: string): string {
+  const value = workspace.trim()
+  return config.workspaceAliases[value.toLowerCase()] ?? value
+}
+
+/**
+ * Returns the default workspace ID, if one is configured.
+ */
+export function defaultWorkspaceId(): string | undefined {
+  return config.defaultWorkspace ? resolveWorkspaceAlias(config.defaultWorkspace) : undefined
+}
+
+/**
+ * Resolves a workspace_id argument, falling back to the default workspace.
+ *
+ * @param workspace - Workspace ID or alias from a tool call, if given
+ * @returns Workspace ID
+ * @throws {ValidationError} If no workspace is given and no default is configured
+ */
+export function resolveWorkspaceId(workspace?: string): string {
+  const workspaceId = workspace?.trim() ? resolveWorkspaceAlias(workspace) : defaultWorkspaceId()
+  if (!workspaceId) {
+    throw new ValidationError(
+      "workspace_id is required because no default workspace is configured (SUPERTHREAD_DEFAULT_WORKSPACE). Call workspace_list to see your workspaces."
+    )
+  }
+  return workspaceId
+}
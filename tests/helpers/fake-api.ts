@@ -0,0 +1,57 @@
+/**
+ * @fileoverview Fake Superthread API for integration tests.
+ * Serves requests from a handler on a random local port, so tests can point config.baseUrl
+ * (or a SuperthreadClient) at it.
+ */
+
+import { createServer, type IncomingMessage, type RequestListener, type Server } from "node:http"
+import type { AddressInfo } from "node:net"
+
+/**
+ * A running fake API.
+ */
+export interface FakeApi {
+  server: Server
+  /** API base URL, including the /v1 prefix */
+  baseUrl: string
+  /** Stops the server */
+  close: () => Promise<void>
+}
+
+/**
+ * Starts a fake API on a random port of 127.0.0.1.
+ *
+ * @param handler - Handles each request
+ * @returns The running fake API
+ *
+ * @example
+ * const fakeApi = await startFakeApi(respondWith({ "/v1/users/me": { user: { id: "u1" } } }))
+ * config.baseUrl = fakeApi.baseUrl
+ */
+export async function startFakeApi(handler: RequestListener): Promise<FakeApi> {
+  const server = createServer(handler)
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+  return {
+    server,
+    baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`,
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  }
+}
+
+/**
+ * Creates a handler that answers with canned JSON responses, or 404 for unknown requests.
+ *
+ * @param responses - Response bodies by request key
+ * @param keyOf - Key of a request (defaults to its path and query)
+ * @returns Request handler
+ */
+export function respondWith(
+  responses: Record<string, unknown>,
+  keyOf: (req: IncomingMessage) => string = (req) => req.url || ""
+): RequestListener {
+  return (req, res) => {
+    const body = responses[keyOf(req)]
+    res.writeHead(body ? 200 : 404, { "Content-Type": "application/json" })
+    res.end(JSON.stringify(body ?? { message: "not found" }))
+  }
+}
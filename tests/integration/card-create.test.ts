@@ -0,0 +1,81 @@
+/**
+ * @fileoverview Integration tests for card_create against a fake Superthread API.
+ * Checks how a failed position update after the card was created is reported.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest"
+import { Client } from "@modelcontextprotocol/sdk/client/index.js"
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js"
+import { createServer } from "../../src/server.js"
+import { config } from "../../src/config.js"
+import { startFakeApi, type FakeApi } from "../helpers/fake-api.js"
+
+describe("card_create", () => {
+  let fakeApi: FakeApi
+  let client: Client
+  let requests: string[]
+  const original = { ...config }
+
+  beforeAll(async () => {
+    // Creating works, but moving the new card is rejected
+    fakeApi = await startFakeApi((req, res) => {
+      requests.push(`${req.method} ${req.url}`)
+      const ok = req.method !== "PATCH"
+      res.writeHead(ok ? 200 : 400, { "Content-Type": "application/json" })
+      res.end(JSON.stringify(ok ? { card: { id: "c1", title: "New card" } } : { message: "no" }))
+    })
+    config.baseUrl = fakeApi.baseUrl
+    config.apiKey = "test-key"
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+    client = new Client({ name: "test-client", version: "1.0.0" })
+    await Promise.all([createServer().connect(serverTransport), client.connect(clientTransport)])
+  })
+
+  afterAll(async () => {
+    Object.assign(config, original)
+    await client.close()
+    await fakeApi.close()
+  })
+
+  beforeEach(() => {
+    requests = []
+  })
+
+  const createCard = async (args: Record<string, unknown> = {}) => {
+    const result = await client.callTool({
+      name: "card_create",
+      arguments: {
+        cards: [
+          { workspace_id: "ws1", title: "New card", board_id: "b1", list_id: "l1", position: 0 },
+        ],
+        ...args,
+      },
+    })
+    const content = result.content as Array<{ text: string }>
+    return JSON.parse(content[0].text) as { cards: Array<Record<string, unknown>> }
+  }
+
+  it("returns the created card with a warning when it can't be positioned", async () => {
+    const { cards } = await createCard()
+
+    expect(cards[0]).toMatchObject({
+      status: "success",
+      result: {
+        card: { id: "c1" },
+        warning: expect.stringContaining("could not be moved to position 0") as string,
+      },
+    })
+    expect(requests).toEqual(["POST /v1/ws1/cards", "PATCH /v1/ws1/cards/c1"])
+  })
+
+  it("rolls the card back in an atomic batch", async () => {
+    const { cards } = await createCard({ atomic: true })
+
+    expect(cards[0]).toMatchObject({
+      status: "error",
+      rollback: [{ entity: "card", id: "c1", status: "rolled_back" }],
+    })
+    expect(requests).toContain("DELETE /v1/ws1/cards/c1")
+  })
+})
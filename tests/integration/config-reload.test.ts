@@ -0,0 +1,170 @@
+/**
+ * @fileoverview Integration tests for reloading the config file while clients are connected.
+ * Checks that tools are enabled and disabled live and that clients are notified.
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterAll, afterEach, vi } from "vitest"
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { Client } from "@modelcontextprotocol/sdk/client/index.js"
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js"
+import { ToolListChangedNotificationSchema } from "@modelcontextprotocol/sdk/types.js"
+import { createServer } from "../../src/server.js"
+import { config } from "../../src/config.js"
+import { reloadConfigFile, watchConfigFile } from "../../src/config-file.js"
+import { respondWith, startFakeApi } from "../helpers/fake-api.js"
+
+describe("Config reload", () => {
+  let dir: string
+  let path: string
+  let client: Client
+  let notifications: number
+  const original = { ...config }
+
+  /**
+   * Writes the config file.
+   */
+  const writeConfig = (settings: unknown) => writeFileSync(path, JSON.stringify(settings))
+
+  /**
+   * Returns the names of the tools the client currently sees.
+   */
+  const toolNames = async () => (await client.listTools()).tools.map((tool) => tool.name)
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), "superthread-reload-"))
+    path = join(dir, "config.json")
+  })
+
+  beforeEach(async () => {
+    writeConfig({})
+    reloadConfigFile({ SUPERTHREAD_CONFIG: path })
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+    client = new Client({ name: "test-client", version: "1.0.0" })
+    notifications = 0
+    client.setNotificationHandler(ToolListChangedNotificationSchema, () => {
+      notifications++
+    })
+    await Promise.all([createServer().connect(serverTransport), client.connect(clientTransport)])
+  })
+
+  afterEach(async () => {
+    await client.close()
+    Object.assign(config, original)
+  })
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it("enables and disables tool domains and notifies the client once", async () => {
+    expect(await toolNames()).toContain("page_get")
+
+    writeConfig({ enabledTools: ["cards"] })
+    expect(reloadConfigFile({ SUPERTHREAD_CONFIG: path })).toBe(true)
+    await vi.waitFor(() => expect(notifications).toBe(1))
+
+    const names = await toolNames()
+    expect(names).toContain("card_get")
+    expect(names).toContain("response_continue")
+    expect(names).not.toContain("page_get")
+    await expect(
+      client.callTool({ name: "page_get", arguments: { workspace_id: "ws1", page_id: "p1" } })
+    ).resolves.toMatchObject({ isError: true })
+
+    writeConfig({ enabledTools: ["cards", "pages"], deniedTools: ["*_delete"] })
+    reloadConfigFile({ SUPERTHREAD_CONFIG: path })
+    await vi.waitFor(() => expect(notifications).toBe(2))
+
+    const updated = await toolNames()
+    expect(updated).toContain("page_get")
+    expect(updated).not.toContain("page_delete")
+    expect(updated).not.toContain("card_delete")
+  })
+
+  it("adds and removes resource templates", async () => {
+    const templateNames = async () =>
+      (await client.listResourceTemplates()).resourceTemplates.map((template) => template.name)
+    expect(await templateNames()).toContain("page")
+
+    writeConfig({ deniedTools: ["page_get"] })
+    reloadConfigFile({ SUPERTHREAD_CONFIG: path })
+    expect(await templateNames()).toEqual(["card", "board", "space"])
+
+    writeConfig({})
+    reloadConfigFile({ SUPERTHREAD_CONFIG: path })
+    expect(await templateNames()).toContain("page")
+  })
+
+  it("cancels subscriptions to resources of removed types", async () => {
+    const pageReads = vi.fn()
+    const respond = respondWith({ "/v1/ws1/pages/p1": { page: { id: "p1", title: "Roadmap" } } })
+    const fakeApi = await startFakeApi((req, res) => {
+      if (req.url === "/v1/ws1/pages/p1") {
+        pageReads()
+      }
+      respond(req, res)
+    })
+    const settings = { apiKey: "test-key", baseUrl: fakeApi.baseUrl, subscriptionPollMs: 20 }
+    writeConfig(settings)
+    reloadConfigFile({ SUPERTHREAD_CONFIG: path })
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+    const subscriber = new Client({ name: "test-client", version: "1.0.0" })
+    await Promise.all([
+      createServer().connect(serverTransport),
+      subscriber.connect(clientTransport),
+    ])
+
+    try {
+      await subscriber.subscribeResource({ uri: "superthread://ws1/page/p1" })
+      await vi.waitFor(() => expect(pageReads.mock.calls.length).toBeGreaterThan(1))
+
+      writeConfig({ ...settings, deniedTools: ["page_get"] })
+      reloadConfigFile({ SUPERTHREAD_CONFIG: path })
+      const reads = pageReads.mock.calls.length
+      await new Promise((resolve) => setTimeout(resolve, 100))
+      expect(pageReads).toHaveBeenCalledTimes(reads)
+    } finally {
+      await subscriber.close()
+      await fakeApi.close()
+    }
+  })
+
+  it("doesn't notify the client when no tool changes", async () => {
+    writeConfig({ listsAddToTop: ["Done"] })
+    reloadConfigFile({ SUPERTHREAD_CONFIG: path })
+    await new Promise((resolve) => setTimeout(resolve, 20))
+
+    expect(config.listsAddToTop).toEqual(["Done"])
+    expect(notifications).toBe(0)
+  })
+
+  it("keeps the last valid configuration when the file is invalid", async () => {
+    writeConfig({ readOnly: true })
+    reloadConfigFile({ SUPERTHREAD_CONFIG: path })
+    const errors = vi.spyOn(console, "error").mockImplementation(() => {})
+
+    writeConfig({ readOnly: "yes" })
+    expect(reloadConfigFile({ SUPERTHREAD_CONFIG: path })).toBe(false)
+
+    expect(errors).toHaveBeenCalledWith(expect.stringContaining("readOnly: Expected boolean"))
+    expect(config.readOnly).toBe(true)
+    expect(await toolNames()).not.toContain("card_create")
+    errors.mockRestore()
+  })
+
+  it("reloads when the watched file changes", async () => {
+    const watcher = watchConfigFile({ SUPERTHREAD_CONFIG: path }, 10)
+    try {
+      writeConfig({ readOnly: true })
+      await vi.waitFor(() => expect(notifications).toBe(1), { timeout: 5000 })
+
+      expect(await toolNames()).not.toContain("card_create")
+    } finally {
+      watcher?.close()
+    }
+  })
+})
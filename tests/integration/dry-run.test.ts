@@ -0,0 +1,134 @@
+/**
+ * @fileoverview Integration tests for dry-run mode.
+ * Calls tools through an in-memory MCP client against a fake Superthread API and checks
+ * that mutating requests are planned rather than sent.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from "vitest"
+import { Client } from "@modelcontextprotocol/sdk/client/index.js"
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js"
+import { createServer } from "../../src/server.js"
+import { config } from "../../src/config.js"
+import { startFakeApi, type FakeApi } from "../helpers/fake-api.js"
+
+describe("Dry-run mode", () => {
+  let fakeApi: FakeApi
+  let client: Client
+  let requests: Array<{ method: string; url: string }>
+  const original = { ...config }
+
+  beforeAll(async () => {
+    // Fake Superthread API: answers board lookups and view previews, fails anything else
+    fakeApi = await startFakeApi((req, res) => {
+      requests.push({ method: req.method || "", url: req.url || "" })
+      if (req.method === "GET" && req.url === "/v1/ws1/boards/b1") {
+        res.writeHead(200, { "Content-Type": "application/json" })
+        res.end(JSON.stringify({ board: { id: "b1", lists: [{ id: "l1", title: "Backlog" }] } }))
+        return
+      }
+      if (req.method === "POST" && req.url === "/v1/ws1/views/preview") {
+        res.writeHead(200, { "Content-Type": "application/json" })
+        res.end(JSON.stringify({ cards: [{ id: "c1", title: "Assigned card" }] }))
+        return
+      }
+      res.writeHead(500)
+      res.end("unexpected request")
+    })
+    config.baseUrl = fakeApi.baseUrl
+    config.apiKey = "test-key"
+  })
+
+  afterAll(async () => {
+    Object.assign(config, original)
+    await fakeApi.close()
+  })
+
+  beforeEach(async () => {
+    requests = []
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+    client = new Client({ name: "test-client", version: "1.0.0" })
+    await Promise.all([createServer().connect(serverTransport), client.connect(clientTransport)])
+  })
+
+  afterEach(async () => {
+    config.dryRun = false
+    config.listsAddToTop = original.listsAddToTop
+    await client.close()
+  })
+
+  const callTool = async (name: string, args: Record<string, unknown>) => {
+    const result = await client.callTool({ name, arguments: args })
+    const content = result.content as Array<{ text: string }>
+    return JSON.parse(content[0].text) as {
+      dry_run?: boolean
+      requests?: Array<{ method: string; path: string; body?: unknown }>
+    }
+  }
+
+  it("returns the planned requests, including smart-positioning updates", async () => {
+    config.listsAddToTop = ["Backlog"]
+
+    const output = await callTool("card_create", {
+      cards: [{ workspace_id: "ws1", title: "New card", list_id: "l1", board_id: "b1" }],
+      dry_run: true,
+    })
+
+    expect(output.dry_run).toBe(true)
+    expect(output.requests).toEqual([
+      {
+        method: "POST",
+        path: "/ws1/cards",
+        body: { title: "New card", list_id: "l1", board_id: "b1" },
+      },
+      { method: "PATCH", path: "/ws1/cards/dry-run-1", body: { position: 0 } },
+    ])
+    // Only the board lookup reached the API
+    expect(requests).toEqual([{ method: "GET", url: "/v1/ws1/boards/b1" }])
+  })
+
+  it("applies SUPERTHREAD_DRY_RUN to every mutating tool", async () => {
+    config.dryRun = true
+
+    const output = await callTool("card_delete", {
+      cards: [{ workspace_id: "ws1", card_id: "c1" }],
+    })
+
+    expect(output.requests).toEqual([{ method: "DELETE", path: "/ws1/cards/c1" }])
+    expect(requests).toHaveLength(0)
+  })
+
+  it("takes workspace and entity IDs from a pasted link", async () => {
+    const output = await callTool("comment_create", {
+      comments: [{ url: "https://app.superthread.com/ws1/card/c1", content: "Done" }],
+      dry_run: true,
+    })
+
+    expect(output.requests).toEqual([
+      { method: "POST", path: "/ws1/comments", body: { content: "Done", card_id: "c1" } },
+    ])
+  })
+
+  it("still sends read requests", async () => {
+    config.dryRun = true
+
+    const output = await callTool("board_get", {
+      boards: [{ workspace_id: "ws1", board_id: "b1" }],
+    })
+
+    expect(output.dry_run).toBeUndefined()
+    expect(requests).toHaveLength(1)
+  })
+
+  it("sends read-only POST requests such as the assigned cards query", async () => {
+    config.dryRun = true
+
+    const output = (await callTool("card_get_assigned", {
+      workspace_id: "ws1",
+      user_id: "u1",
+    })) as { dry_run?: boolean; cards?: Array<{ id: string }> }
+
+    expect(output.dry_run).toBeUndefined()
+    expect(output.cards).toEqual([{ id: "c1", title: "Assigned card" }])
+    expect(requests).toEqual([{ method: "POST", url: "/v1/ws1/views/preview" }])
+  })
+})
@@ -0,0 +1,266 @@
+/**
+ * @fileoverview Integration tests for the HTTP transport.
+ * Starts the server on a random local port and connects real MCP clients to it.
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterAll, vi } from "vitest"
+import { Client } from "@modelcontextprotocol/sdk/client/index.js"
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js"
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js"
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
+import { createServer } from "../../src/server.js"
+import { startHttpServer, type HttpServerHandle } from "../../src/http.js"
+import { config } from "../../src/config.js"
+import { startFakeApi, type FakeApi } from "../helpers/fake-api.js"
+
+describe("HTTP Transport", () => {
+  let handle: HttpServerHandle
+
+  beforeAll(async () => {
+    handle = await startHttpServer(createServer, { host: "127.0.0.1", port: 0 })
+  })
+
+  afterAll(async () => {
+    await handle.close()
+  })
+
+  it("serves the tool list over Streamable HTTP", async () => {
+    const client = new Client({ name: "test-client", version: "1.0.0" })
+    await client.connect(new StreamableHTTPClientTransport(new URL(`${handle.url}/mcp`)))
+
+    const { tools } = await client.listTools()
+    expect(tools.map((tool) => tool.name)).toContain("card_get")
+    expect(handle.sessionCount()).toBe(1)
+
+    await client.close()
+  })
+
+  it("keeps sessions isolated for concurrent clients", async () => {
+    const clients = [
+      new Client({ name: "client-a", version: "1.0.0" }),
+      new Client({ name: "client-b", version: "1.0.0" }),
+    ]
+    const transports = clients.map(
+      () => new StreamableHTTPClientTransport(new URL(`${handle.url}/mcp`))
+    )
+    await Promise.all(clients.map((client, i) => client.connect(transports[i])))
+
+    expect(transports[0].sessionId).toBeDefined()
+    expect(transports[0].sessionId).not.toBe(transports[1].sessionId)
+
+    // DELETE ends the session on the server
+    await Promise.all(transports.map((transport) => transport.terminateSession()))
+    await Promise.all(clients.map((client) => client.close()))
+  })
+
+  it("serves the tool list over legacy SSE", async () => {
+    const client = new Client({ name: "sse-client", version: "1.0.0" })
+    await client.connect(new SSEClientTransport(new URL(`${handle.url}/sse`)))
+
+    const { tools } = await client.listTools()
+    expect(tools.length).toBeGreaterThan(0)
+
+    await client.close()
+  })
+
+  it("rejects requests without a valid session", async () => {
+    const response = await fetch(`${handle.url}/mcp`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        "Mcp-Session-Id": "does-not-exist",
+      },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+    })
+    expect(response.status).toBe(404)
+  })
+})
+
+/**
+ * Opens a Streamable HTTP session with a bare initialize request, like a client that never
+ * sends anything else.
+ */
+function initialize(url: string, headers: Record<string, string> = {}): Promise<Response> {
+  return fetch(`${url}/mcp`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "application/json, text/event-stream",
+      ...headers,
+    },
+    body: JSON.stringify({
+      jsonrpc: "2.0",
+      id: 1,
+      method: "initialize",
+      params: {
+        protocolVersion: "2025-06-18",
+        capabilities: {},
+        clientInfo: { name: "raw-client", version: "1.0.0" },
+      },
+    }),
+  })
+}
+
+describe("HTTP Transport session lifecycle", () => {
+  let handle: HttpServerHandle
+  let servers: McpServer[]
+
+  beforeAll(async () => {
+    handle = await startHttpServer(
+      () => {
+        const server = createServer()
+        servers.push(server)
+        return server
+      },
+      { host: "127.0.0.1", port: 0, allowedHosts: ["mcp.example.com"], sessionTimeoutMs: 100 }
+    )
+  })
+
+  beforeEach(() => {
+    servers = []
+  })
+
+  afterAll(async () => {
+    await handle.close()
+  })
+
+  it("closes sessions that stay idle", async () => {
+    const response = await initialize(handle.url)
+    await response.text()
+    expect(response.status).toBe(200)
+    expect(handle.sessionCount()).toBe(1)
+
+    await vi.waitFor(() => expect(handle.sessionCount()).toBe(0))
+    expect(servers[0].isConnected()).toBe(false)
+  })
+
+  it("closes the server of a rejected handshake", async () => {
+    const response = await initialize(handle.url, { Accept: "application/json" })
+
+    expect(response.status).toBe(406)
+    expect(handle.sessionCount()).toBe(0)
+    expect(servers[0].isConnected()).toBe(false)
+  })
+
+  it("rejects requests from other origins", async () => {
+    const port = new URL(handle.url).port
+    const rebound = { Origin: `http://attacker.example:${port}` }
+
+    expect((await initialize(handle.url, rebound)).status).toBe(403)
+    expect((await fetch(`${handle.url}/sse`, { headers: rebound })).status).toBe(403)
+    expect(
+      (await fetch(`${handle.url}/messages?sessionId=x`, { method: "POST", headers: rebound }))
+        .status
+    ).toBe(403)
+    expect(servers).toHaveLength(0)
+
+    const allowed = await initialize(handle.url, { Origin: "https://mcp.example.com" })
+    await allowed.text()
+    expect(allowed.status).toBe(200)
+  })
+})
+
+describe("HTTP Transport per-session API keys", () => {
+  let handle: HttpServerHandle
+  let fakeApi: FakeApi
+  const receivedAuth: Array<string | undefined> = []
+  const originalBaseUrl = config.baseUrl
+
+  beforeAll(async () => {
+    // Fake Superthread API that records which token each request used
+    fakeApi = await startFakeApi((req, res) => {
+      receivedAuth.push(req.headers.authorization)
+      res.writeHead(200, { "Content-Type": "application/json" })
+      res.end(JSON.stringify({ user: { id: "u1" } }))
+    })
+    config.baseUrl = fakeApi.baseUrl
+
+    handle = await startHttpServer(createServer, {
+      host: "127.0.0.1",
+      port: 0,
+      requireApiKey: true,
+    })
+  })
+
+  afterAll(async () => {
+    config.baseUrl = originalBaseUrl
+    await handle.close()
+    await fakeApi.close()
+  })
+
+  const connect = async (token: string) => {
+    const client = new Client({ name: `client-${token}`, version: "1.0.0" })
+    await client.connect(
+      new StreamableHTTPClientTransport(new URL(`${handle.url}/mcp`), {
+        requestInit: { headers: { Authorization: `Bearer ${token}` } },
+      })
+    )
+    return client
+  }
+
+  it("calls the API with each session's own token", async () => {
+    const alice = await connect("alice-token")
+    const bob = await connect("bob-token")
+
+    await alice.callTool({ name: "user_get_my_account", arguments: {} })
+    await bob.callTool({ name: "user_get_my_account", arguments: {} })
+
+    expect(receivedAuth).toEqual(["Bearer alice-token", "Bearer bob-token"])
+
+    await alice.close()
+    await bob.close()
+  })
+
+  it("completes arguments with each session's own token", async () => {
+    receivedAuth.length = 0
+    const alice = await connect("alice-token")
+    const bob = await connect("bob-token")
+    const request = {
+      ref: { type: "ref/resource" as const, uri: "superthread://{workspace}/board/{id}" },
+      argument: { name: "workspace", value: "" },
+    }
+
+    await alice.complete(request)
+    await bob.complete(request)
+    // Alice's second lookup is cached, but never shared with Bob
+    await alice.complete(request)
+
+    expect(receivedAuth).toEqual(["Bearer alice-token", "Bearer bob-token"])
+
+    await alice.close()
+    await bob.close()
+  })
+
+  it("requires the session's token on every follow-up request", async () => {
+    const client = new Client({ name: "client-alice", version: "1.0.0" })
+    const transport = new StreamableHTTPClientTransport(new URL(`${handle.url}/mcp`), {
+      requestInit: { headers: { Authorization: "Bearer alice-token" } },
+    })
+    await client.connect(transport)
+
+    const followUp = (headers: Record<string, string>) =>
+      fetch(`${handle.url}/mcp`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Accept: "application/json, text/event-stream",
+          "Mcp-Session-Id": transport.sessionId!,
+          ...headers,
+        },
+        body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+      })
+
+    expect((await followUp({})).status).toBe(401)
+    expect((await followUp({ Authorization: "Bearer bob-token" })).status).toBe(403)
+
+    await client.close()
+  })
+
+  it("rejects sessions without an API key when one is required", async () => {
+    const client = new Client({ name: "anonymous", version: "1.0.0" })
+    await expect(
+      client.connect(new StreamableHTTPClientTransport(new URL(`${handle.url}/mcp`)))
+    ).rejects.toThrow()
+  })
+})
@@ -0,0 +1,155 @@
+/**
+ * @fileoverview Integration tests for lazy mode, where tool domains are enabled on demand
+ * through meta-tools.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest"
+import { Client } from "@modelcontextprotocol/sdk/client/index.js"
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js"
+import { ToolListChangedNotificationSchema } from "@modelcontextprotocol/sdk/types.js"
+import { createServer } from "../../src/server.js"
+import { config } from "../../src/config.js"
+
+const META_TOOLS = [
+  "superthread_list_domains",
+  "superthread_enable_domain",
+  "superthread_describe_tool",
+]
+
+/**
+ * Parses the JSON text of a tool result.
+ */
+function parseResult(result: Awaited<ReturnType<Client["callTool"]>>): Record<string, unknown> {
+  const content = result.content as Array<{ type: string; text: string }>
+  return JSON.parse(content[content.length - 1].text) as Record<string, unknown>
+}
+
+describe("Lazy mode", () => {
+  let client: Client
+  let notifications: number
+  const original = { ...config }
+
+  /**
+   * Returns the names of the tools the client currently sees.
+   */
+  const toolNames = async () => (await client.listTools()).tools.map((tool) => tool.name)
+
+  beforeEach(async () => {
+    config.apiKey = "test-key"
+    config.lazyTools = true
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+    client = new Client({ name: "test-client", version: "1.0.0" })
+    notifications = 0
+    client.setNotificationHandler(ToolListChangedNotificationSchema, () => {
+      notifications++
+    })
+    await Promise.all([createServer().connect(serverTransport), client.connect(clientTransport)])
+  })
+
+  afterEach(async () => {
+    await client.close()
+    Object.assign(config, original)
+  })
+
+  it("starts with only the meta-tools", async () => {
+    expect((await toolNames()).sort()).toEqual([...META_TOOLS, "response_continue"].sort())
+  })
+
+  it("lists domains with their tools", async () => {
+    const { domains } = parseResult(
+      await client.callTool({ name: "superthread_list_domains", arguments: {} })
+    ) as { domains: Array<{ domain: string; enabled: boolean; tools: string[] }> }
+
+    const cards = domains.find((domain) => domain.domain === "cards")
+    expect(cards?.enabled).toBe(false)
+    expect(cards?.tools).toContain("card_create")
+    expect(domains.flatMap((domain) => domain.tools)).not.toContain("superthread_list_domains")
+  })
+
+  it("enables a domain on demand and notifies the client", async () => {
+    const result = await client.callTool({
+      name: "superthread_enable_domain",
+      arguments: { domain: "cards" },
+    })
+
+    expect(parseResult(result)).toMatchObject({ domain: "cards", enabled: true })
+    await vi.waitFor(() => expect(notifications).toBe(1))
+
+    const names = await toolNames()
+    expect(names).toContain("card_get")
+    expect(names).toContain("superthread_enable_domain")
+    expect(names).not.toContain("page_get")
+  })
+
+  it("keeps tool filters in effect for enabled domains", async () => {
+    config.readOnly = true
+    await client.callTool({ name: "superthread_enable_domain", arguments: { domain: "pages" } })
+
+    const names = await toolNames()
+    expect(names).toContain("page_get")
+    expect(names).not.toContain("page_create")
+  })
+
+  it("rejects domains disabled in the configuration", async () => {
+    config.enabledTools = new Set(["cards"])
+    const result = await client.callTool({
+      name: "superthread_enable_domain",
+      arguments: { domain: "pages" },
+    })
+
+    expect(result.isError).toBe(true)
+    expect(parseResult(result)).toMatchObject({
+      error: { message: expect.stringContaining('Domain "pages" is disabled') },
+    })
+  })
+
+  it("describes tools of domains that aren't enabled yet", async () => {
+    const description = parseResult(
+      await client.callTool({
+        name: "superthread_describe_tool",
+        arguments: { name: "page_get" },
+      })
+    )
+
+    expect(description).toMatchObject({
+      name: "page_get",
+      domain: "pages",
+      enabled: false,
+      input_schema: { type: "object", properties: { pages: { type: "array" } } },
+    })
+  })
+
+  it("rejects unknown tools", async () => {
+    const result = await client.callTool({
+      name: "superthread_describe_tool",
+      arguments: { name: "card_explode" },
+    })
+
+    expect(result.isError).toBe(true)
+  })
+
+  it("runs the meta-tools without an API key", async () => {
+    config.apiKey = ""
+    for (const [name, args] of [
+      ["superthread_list_domains", {}],
+      ["superthread_enable_domain", { domain: "cards" }],
+      ["superthread_describe_tool", { name: "card_get" }],
+    ] as const) {
+      const result = await client.callTool({ name, arguments: args })
+      expect(result.isError, name).toBeFalsy()
+    }
+  })
+
+  it("hides the meta-tools outside lazy mode", async () => {
+    config.lazyTools = false
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+    const eager = new Client({ name: "test-client", version: "1.0.0" })
+    await Promise.all([createServer().connect(serverTransport), eager.connect(clientTransport)])
+
+    const names = (await eager.listTools()).tools.map((tool) => tool.name)
+    await eager.close()
+    expect(names).toContain("card_get")
+    expect(names).not.toContain("superthread_list_domains")
+  })
+})
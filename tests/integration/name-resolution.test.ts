@@ -0,0 +1,171 @@
+/**
+ * @fileoverview Integration tests for name-based ID resolution.
+ * Calls tools in dry-run mode with titles in place of IDs and checks the IDs in the planned
+ * requests.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest"
+import { Client } from "@modelcontextprotocol/sdk/client/index.js"
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js"
+import { createServer } from "../../src/server.js"
+import { config } from "../../src/config.js"
+import { respondWith, startFakeApi, type FakeApi } from "../helpers/fake-api.js"
+
+/**
+ * Canned API responses by request path
+ */
+const RESPONSES: Record<string, unknown> = {
+  "/v1/ws1/boards/b1": {
+    board: {
+      id: "b1",
+      title: "Engineering",
+      lists: [
+        { id: "l1", title: "Backlog" },
+        { id: "l2", title: "In Progress" },
+        { id: "l3", title: "In Review" },
+      ],
+    },
+  },
+  "/v1/ws1/cards/c1": { card: { id: "c1", board_id: "b1" } },
+  "/v1/ws1/projects": { projects: [{ id: "s1", title: "Product" }] },
+  "/v1/ws1/boards?project_id=s1": { boards: [{ id: "b1", title: "Engineering" }] },
+  "/v1/ws1/epics": {
+    epics: [
+      { id: "e1", list_id: "rl1", list_title: "Planned" },
+      { id: "e2", list_id: "rl2", list_title: "Shipped" },
+    ],
+  },
+  "/v1/teams/ws1/members": {
+    members: [
+      { user_id: "u1", display_name: "Sarah Chen" },
+      { user_id: "u2", display_name: "Sam Patel" },
+    ],
+  },
+  "/v1/ws1/tags?all=true": {
+    tags: [
+      { id: "t1", name: "bug" },
+      { id: "t2", name: "feature" },
+    ],
+  },
+}
+
+describe("Name-based ID resolution", () => {
+  let fakeApi: FakeApi
+  let client: Client
+  const original = { ...config }
+
+  let previews: unknown[]
+
+  beforeAll(async () => {
+    const respond = respondWith(RESPONSES)
+    fakeApi = await startFakeApi((req, res) => {
+      // The assigned cards query is a read-only POST, so dry-run mode still sends it
+      if (req.url === "/v1/ws1/views/preview") {
+        let body = ""
+        req.on("data", (chunk: Buffer) => (body += chunk.toString()))
+        req.on("end", () => {
+          previews.push(JSON.parse(body))
+          res.writeHead(200, { "Content-Type": "application/json" })
+          res.end(JSON.stringify({ cards: [] }))
+        })
+        return
+      }
+      respond(req, res)
+    })
+    config.baseUrl = fakeApi.baseUrl
+    config.apiKey = "test-key"
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+    client = new Client({ name: "test-client", version: "1.0.0" })
+    await Promise.all([createServer().connect(serverTransport), client.connect(clientTransport)])
+  })
+
+  afterAll(async () => {
+    Object.assign(config, original)
+    await client.close()
+    await fakeApi.close()
+  })
+
+  const callTool = async (name: string, args: Record<string, unknown>) => {
+    const result = await client.callTool({ name, arguments: { ...args, dry_run: true } })
+    const content = result.content as Array<{ text: string }>
+    return JSON.parse(content[0].text) as Record<string, Array<Record<string, unknown>>>
+  }
+
+  it("resolves list and owner names when creating a card", async () => {
+    const output = await callTool("card_create", {
+      cards: [
+        { workspace_id: "ws1", title: "New card", board_id: "b1", list: "backlog", owner: "sarah" },
+      ],
+    })
+
+    expect(output.requests[0].body).toEqual({
+      title: "New card",
+      list_id: "l1",
+      board_id: "b1",
+      owner_id: "u1",
+    })
+  })
+
+  it("resolves a list on the card's board when updating a card", async () => {
+    const output = await callTool("card_update", {
+      cards: [{ workspace_id: "ws1", card_id: "c1", list: "In Progress" }],
+    })
+
+    expect(output.requests[0]).toEqual({
+      method: "PATCH",
+      path: "/ws1/cards/c1",
+      body: { list_id: "l2" },
+    })
+  })
+
+  it("resolves tag names", async () => {
+    const output = await callTool("card_add_tags", {
+      workspace_id: "ws1",
+      card_id: "c1",
+      tags: ["Bug", "feature"],
+    })
+
+    expect(output.requests[0].body).toEqual({ ids: ["t1", "t2"] })
+  })
+
+  it("resolves the board and list filters of the assigned cards query", async () => {
+    previews = []
+    await client.callTool({
+      name: "card_get_assigned",
+      arguments: { workspace_id: "ws1", user: "Sarah", board: "engineering", list: "review" },
+    })
+
+    expect(previews[0]).toMatchObject({
+      card_filters: { include: { members: ["u1"], boards: ["b1"], lists: ["l3"] } },
+    })
+  })
+
+  it("resolves board, member and roadmap list names in other tools", async () => {
+    const lists = await callTool("board_create_list", {
+      lists: [{ workspace_id: "ws1", board: "Engineering", title: "Blocked" }],
+    })
+    const members = await callTool("space_remove_member", {
+      operations: [{ workspace_id: "ws1", space_id: "s1", user: "Sam Patel" }],
+    })
+    const projects = await callTool("project_create", {
+      projects: [{ workspace_id: "ws1", title: "Launch", list: "planned" }],
+    })
+
+    expect(lists.requests[0].body).toMatchObject({ board_id: "b1", title: "Blocked" })
+    expect(members.requests[0].path).toBe("/ws1/projects/s1/members/u2")
+    expect(projects.requests[0].body).toMatchObject({ title: "Launch", list_id: "rl1" })
+  })
+
+  it("reports ambiguous names with the candidates", async () => {
+    const output = await callTool("card_add_member", {
+      operations: [{ workspace_id: "ws1", card_id: "c1", user: "sa" }],
+    })
+
+    // Batch tools report the failure on the operation
+    expect(output.added[0].error).toMatchObject({
+      code: "validation_error",
+      message: expect.stringContaining('"Sarah Chen" (u1), "Sam Patel" (u2)') as string,
+    })
+  })
+})
@@ -0,0 +1,134 @@
+/**
+ * @fileoverview Integration tests for MCP prompts.
+ * Gets prompts through an in-memory MCP client backed by a fake Superthread API.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest"
+import { Client } from "@modelcontextprotocol/sdk/client/index.js"
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js"
+import { createServer } from "../../src/server.js"
+import { config } from "../../src/config.js"
+import { respondWith, startFakeApi, type FakeApi } from "../helpers/fake-api.js"
+
+/**
+ * Canned API responses by request method and path
+ */
+const RESPONSES: Record<string, unknown> = {
+  "GET /v1/ws1/boards/b1": {
+    board: { id: "b1", title: "Backlog", lists: [{ id: "l1", title: "To Do", cards: [] }] },
+  },
+  "GET /v1/ws1/sprints/sp1?project_id=s1": { sprint: { id: "sp1", title: "Sprint 12" } },
+  "POST /v1/ws1/views/preview": { cards: [{ id: "c1", title: "Fix login" }] },
+  "GET /v1/ws1/tags?all=true": {
+    tags: [
+      { id: "t1", name: "bug" },
+      { id: "t2", name: "feature" },
+    ],
+  },
+}
+
+describe("MCP prompts", () => {
+  let fakeApi: FakeApi
+  let client: Client
+  const original = { ...config }
+
+  beforeAll(async () => {
+    fakeApi = await startFakeApi(respondWith(RESPONSES, (req) => `${req.method} ${req.url}`))
+    config.baseUrl = fakeApi.baseUrl
+    config.apiKey = "test-key"
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+    client = new Client({ name: "test-client", version: "1.0.0" })
+    await Promise.all([createServer().connect(serverTransport), client.connect(clientTransport)])
+  })
+
+  afterAll(async () => {
+    Object.assign(config, original)
+    await client.close()
+    await fakeApi.close()
+  })
+
+  it("lists the workflow prompts with their arguments", async () => {
+    const { prompts } = await client.listPrompts()
+
+    expect(prompts.map((prompt) => prompt.name)).toEqual([
+      "sprint_planning",
+      "standup",
+      "triage",
+      "release_notes",
+    ])
+    expect(prompts[1].arguments).toEqual(
+      expect.arrayContaining([expect.objectContaining({ name: "user_id", required: true })])
+    )
+  })
+
+  it("embeds the board as a resource", async () => {
+    const { messages } = await client.getPrompt({
+      name: "triage",
+      arguments: { workspace_id: "ws1", board_id: "b1" },
+    })
+
+    expect(messages[0].content).toMatchObject({ type: "text" })
+    expect(messages[1].content).toMatchObject({
+      type: "resource",
+      resource: { uri: "superthread://ws1/board/b1", mimeType: "application/json" },
+    })
+  })
+
+  it("embeds the target sprint when planning into one", async () => {
+    const { messages } = await client.getPrompt({
+      name: "sprint_planning",
+      arguments: { workspace_id: "ws1", board_id: "b1", space_id: "s1", sprint_id: "sp1" },
+    })
+
+    expect(messages).toHaveLength(3)
+    expect(messages[2].content).toMatchObject({ type: "text" })
+    expect((messages[2].content as { text: string }).text).toContain("Sprint 12")
+  })
+
+  it("requires space_id with sprint_id before fetching the board", async () => {
+    await expect(
+      client.getPrompt({
+        name: "sprint_planning",
+        arguments: { workspace_id: "ws1", board_id: "missing", sprint_id: "sp1" },
+      })
+    ).rejects.toThrow(/space_id is required with sprint_id/)
+  })
+
+  it("embeds the user's assigned cards in a standup", async () => {
+    const { messages } = await client.getPrompt({
+      name: "standup",
+      arguments: { workspace_id: "ws1", user_id: "u1" },
+    })
+
+    expect((messages[1].content as { text: string }).text).toContain("Fix login")
+  })
+
+  it("completes argument IDs from the other arguments", async () => {
+    const result = await client.complete({
+      ref: { type: "ref/prompt", name: "triage" },
+      argument: { name: "tag_id", value: "feat" },
+      context: { arguments: { workspace_id: "ws1", board_id: "b1" } },
+    })
+
+    expect(result.completion.values).toEqual(["t2"])
+  })
+
+  it("returns no completions without the workspace", async () => {
+    const result = await client.complete({
+      ref: { type: "ref/prompt", name: "triage" },
+      argument: { name: "tag_id", value: "" },
+    })
+
+    expect(result.completion.values).toEqual([])
+  })
+
+  it("reports missing data as an error", async () => {
+    await expect(
+      client.getPrompt({
+        name: "release_notes",
+        arguments: { workspace_id: "ws1", board_id: "missing" },
+      })
+    ).rejects.toThrow(/404/)
+  })
+})
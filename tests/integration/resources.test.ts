@@ -0,0 +1,176 @@
+/**
+ * @fileoverview Integration tests for MCP resources.
+ * Reads and lists resources through an in-memory MCP client backed by a fake Superthread API.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, vi } from "vitest"
+import { Client } from "@modelcontextprotocol/sdk/client/index.js"
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js"
+import { ResourceUpdatedNotificationSchema } from "@modelcontextprotocol/sdk/types.js"
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
+import { createServer } from "../../src/server.js"
+import { ResourceSubscriptions } from "../../src/resources/subscriptions.js"
+import { config } from "../../src/config.js"
+import { respondWith, startFakeApi, type FakeApi } from "../helpers/fake-api.js"
+
+/**
+ * Canned API responses by request path
+ */
+const RESPONSES: Record<string, unknown> = {
+  "/v1/users/me": { user: { id: "u1", teams: [{ id: "ws1", name: "Acme" }] } },
+  "/v1/ws1/projects": { projects: [{ id: "s1", title: "Product" }] },
+  "/v1/ws1/projects/s1": { project: { id: "s1", title: "Product" } },
+  "/v1/ws1/boards?project_id=s1": { boards: [{ id: "b1", title: "Engineering" }] },
+  "/v1/ws1/cards/c1": { card: { id: "c1", title: "Fix login" } },
+}
+
+describe("MCP resources", () => {
+  let fakeApi: FakeApi
+  let client: Client
+  const original = { ...config }
+
+  beforeAll(async () => {
+    fakeApi = await startFakeApi(respondWith(RESPONSES))
+    config.baseUrl = fakeApi.baseUrl
+    config.apiKey = "test-key"
+    config.subscriptionPollMs = 20
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+    client = new Client({ name: "test-client", version: "1.0.0" })
+    await Promise.all([createServer().connect(serverTransport), client.connect(clientTransport)])
+  })
+
+  afterAll(async () => {
+    Object.assign(config, original)
+    await client.close()
+    await fakeApi.close()
+  })
+
+  it("advertises a resource template per entity type", async () => {
+    const { resourceTemplates } = await client.listResourceTemplates()
+
+    expect(resourceTemplates.map((template) => template.uriTemplate)).toEqual([
+      "superthread://{workspace}/card/{id}",
+      "superthread://{workspace}/board/{id}",
+      "superthread://{workspace}/page/{id}",
+      "superthread://{workspace}/space/{id}",
+    ])
+  })
+
+  it("lists the spaces and the boards of the user's only workspace", async () => {
+    const { resources } = await client.listResources()
+
+    expect(resources).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ uri: "superthread://ws1/space/s1", name: "Product" }),
+        expect.objectContaining({ uri: "superthread://ws1/board/b1", name: "Engineering" }),
+      ])
+    )
+  })
+
+  it("completes template variables from titles", async () => {
+    const workspaces = await client.complete({
+      ref: { type: "ref/resource", uri: "superthread://{workspace}/board/{id}" },
+      argument: { name: "workspace", value: "ac" },
+    })
+    const boards = await client.complete({
+      ref: { type: "ref/resource", uri: "superthread://{workspace}/board/{id}" },
+      argument: { name: "id", value: "eng" },
+      context: { arguments: { workspace: "ws1" } },
+    })
+
+    expect(workspaces.completion.values).toEqual(["ws1"])
+    expect(boards.completion.values).toEqual(["b1"])
+  })
+
+  it("reads an entity as JSON", async () => {
+    const { contents } = await client.readResource({ uri: "superthread://ws1/card/c1" })
+
+    expect(contents[0]).toMatchObject({
+      uri: "superthread://ws1/card/c1",
+      mimeType: "application/json",
+    })
+    expect(JSON.parse(contents[0].text as string)).toEqual(RESPONSES["/v1/ws1/cards/c1"])
+  })
+
+  it("reports API errors when reading", async () => {
+    await expect(client.readResource({ uri: "superthread://ws1/card/missing" })).rejects.toThrow(
+      /404/
+    )
+  })
+
+  it("notifies subscribers when a resource changes", async () => {
+    const updated: string[] = []
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+      updated.push(notification.params.uri)
+    })
+
+    expect(client.getServerCapabilities()?.resources?.subscribe).toBe(true)
+    await client.subscribeResource({ uri: "superthread://ws1/card/c1" })
+
+    // Unchanged resources don't trigger notifications
+    await new Promise((resolve) => setTimeout(resolve, 100))
+    expect(updated).toEqual([])
+
+    RESPONSES["/v1/ws1/cards/c1"] = { card: { id: "c1", title: "Fix login", list_id: "done" } }
+    await vi.waitFor(() => expect(updated).toEqual(["superthread://ws1/card/c1"]))
+
+    await client.unsubscribeResource({ uri: "superthread://ws1/card/c1" })
+    RESPONSES["/v1/ws1/cards/c1"] = { card: { id: "c1", title: "Fix login v2" } }
+    await new Promise((resolve) => setTimeout(resolve, 100))
+    expect(updated).toHaveLength(1)
+  })
+
+  it("keeps polling when a notification can't be sent", async () => {
+    const server = { sendResourceUpdated: vi.fn().mockRejectedValue(new Error("Not connected")) }
+    const subscriptions = new ResourceSubscriptions(server as unknown as McpServer["server"], 60000)
+    const errors = vi.spyOn(console, "error").mockImplementation(() => {})
+    await subscriptions.subscribe("superthread://ws1/card/c1")
+
+    const card = RESPONSES["/v1/ws1/cards/c1"]
+    delete RESPONSES["/v1/ws1/cards/c1"]
+    try {
+      await expect(subscriptions.poll()).resolves.toBeUndefined()
+    } finally {
+      RESPONSES["/v1/ws1/cards/c1"] = card
+      subscriptions.close()
+    }
+
+    expect(server.sendResourceUpdated).toHaveBeenCalledWith({ uri: "superthread://ws1/card/c1" })
+    expect(errors).toHaveBeenCalledWith(
+      expect.stringContaining("Failed to notify the client"),
+      expect.any(Error)
+    )
+    errors.mockRestore()
+  })
+
+  it("rejects subscriptions to unknown resources", async () => {
+    await expect(client.subscribeResource({ uri: "superthread://ws1/sprint/x" })).rejects.toThrow(
+      /Unsupported resource URI/
+    )
+  })
+
+  it("hides resource types whose read tool is filtered out", async () => {
+    config.enabledTools = new Set(["cards", "boards", "spaces"])
+    config.deniedTools = ["board_get"]
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+    const filtered = new Client({ name: "test-client", version: "1.0.0" })
+    await Promise.all([createServer().connect(serverTransport), filtered.connect(clientTransport)])
+
+    try {
+      const { resourceTemplates } = await filtered.listResourceTemplates()
+      expect(resourceTemplates.map((template) => template.name)).toEqual(["card", "space"])
+      expect((await filtered.listResources()).resources.map((resource) => resource.uri)).toEqual([
+        "superthread://ws1/space/s1",
+      ])
+      await expect(filtered.readResource({ uri: "superthread://ws1/board/b1" })).rejects.toThrow()
+      await expect(
+        filtered.subscribeResource({ uri: "superthread://ws1/page/p1" })
+      ).rejects.toThrow(/disabled in the server configuration/)
+    } finally {
+      await filtered.close()
+      config.enabledTools = original.enabledTools
+      config.deniedTools = original.deniedTools
+    }
+  })
+})
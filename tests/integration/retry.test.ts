@@ -0,0 +1,225 @@
+/**
+ * @fileoverview Integration tests for retries, timeouts and cancellation in SuperthreadClient.request.
+ * Runs the client against a local fake HTTP server that replays scripted responses.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from "vitest"
+import { SuperthreadClient } from "../../src/api/client.js"
+import { RateLimiter } from "../../src/api/rate-limiter.js"
+import { NetworkError } from "../../src/errors.js"
+import { startFakeApi, type FakeApi } from "../helpers/fake-api.js"
+
+/**
+ * Scripted response for the fake server
+ */
+interface FakeResponse {
+  status: number
+  body?: string
+  headers?: Record<string, string>
+  /** Delay before responding, to simulate a hung API */
+  delayMs?: number
+  /** Delay between sending the headers and the body, to simulate a stalled body */
+  bodyDelayMs?: number
+}
+
+describe("SuperthreadClient retries, timeouts and cancellation", () => {
+  let fakeApi: FakeApi
+  let baseUrl: string
+  let queue: FakeResponse[]
+  let requests: Array<{ method: string; url: string }>
+
+  const retry = { maxRetries: 3, baseDelayMs: 1, maxDelayMs: 50 }
+
+  beforeAll(async () => {
+    fakeApi = await startFakeApi((req, res) => {
+      requests.push({ method: req.method || "", url: req.url || "" })
+      const next = queue.shift() || { status: 200, body: "{}" }
+      let bodyTimer: NodeJS.Timeout | undefined
+      const timer = setTimeout(() => {
+        res.writeHead(next.status, { "Content-Type": "application/json", ...next.headers })
+        res.flushHeaders()
+        bodyTimer = setTimeout(() => res.end(next.body ?? ""), next.bodyDelayMs ?? 0)
+      }, next.delayMs ?? 0)
+      res.on("close", () => {
+        clearTimeout(timer)
+        clearTimeout(bodyTimer)
+      })
+    })
+    baseUrl = fakeApi.baseUrl
+  })
+
+  afterAll(async () => {
+    await fakeApi.close()
+  })
+
+  beforeEach(() => {
+    queue = []
+    requests = []
+  })
+
+  it("retries GET requests on 500 and returns the eventual success", async () => {
+    queue.push({ status: 500, body: "boom" }, { status: 200, body: '{"card":{"id":"c1"}}' })
+    const client = new SuperthreadClient("key", baseUrl, { retry })
+
+    await expect(client.cards.get("ws1", "c1")).resolves.toEqual({ card: { id: "c1" } })
+    expect(requests).toHaveLength(2)
+  })
+
+  it("retries POST requests on 503 and 429", async () => {
+    queue.push({ status: 503 }, { status: 429 }, { status: 200, body: '{"card":{"id":"c2"}}' })
+    const client = new SuperthreadClient("key", baseUrl, { retry })
+
+    const result = await client.cards.create("ws1", { title: "T", list_id: "l1", board_id: "b1" })
+    expect(result).toEqual({ card: { id: "c2" } })
+    expect(requests.map((r) => r.method)).toEqual(["POST", "POST", "POST"])
+  })
+
+  it("does not retry POST requests on 500", async () => {
+    queue.push({ status: 500, body: "boom" }, { status: 200, body: "{}" })
+    const client = new SuperthreadClient("key", baseUrl, { retry })
+
+    await expect(
+      client.cards.create("ws1", { title: "T", list_id: "l1", board_id: "b1" })
+    ).rejects.toThrow("Superthread API error (500): boom")
+    expect(requests).toHaveLength(1)
+  })
+
+  it("does not retry POST requests on 502 or 504", async () => {
+    const client = new SuperthreadClient("key", baseUrl, { retry })
+
+    for (const status of [502, 504]) {
+      queue.push({ status, body: "gateway" }, { status: 200, body: "{}" })
+      await expect(
+        client.cards.create("ws1", { title: "T", list_id: "l1", board_id: "b1" })
+      ).rejects.toThrow(`(${status})`)
+      queue = []
+    }
+    expect(requests).toHaveLength(2)
+  })
+
+  it("retries read-only POST queries like GET requests", async () => {
+    queue.push({ status: 500, body: "boom" }, { status: 200, body: '{"cards":[]}' })
+    const client = new SuperthreadClient("key", baseUrl, { retry })
+
+    await expect(client.cards.getAssigned("ws1", { user_id: "u1" })).resolves.toEqual({
+      cards: [],
+    })
+    expect(requests.map((r) => r.method)).toEqual(["POST", "POST"])
+  })
+
+  it("retries POST requests that failed to connect", async () => {
+    // A port nothing listens on
+    const closed = await startFakeApi(() => {})
+    await closed.close()
+    const fetchSpy = vi.spyOn(globalThis, "fetch")
+    const client = new SuperthreadClient("key", closed.baseUrl, { retry })
+
+    try {
+      await expect(
+        client.cards.create("ws1", { title: "T", list_id: "l1", board_id: "b1" })
+      ).rejects.toBeInstanceOf(NetworkError)
+      expect(fetchSpy).toHaveBeenCalledTimes(retry.maxRetries + 1)
+    } finally {
+      fetchSpy.mockRestore()
+    }
+  })
+
+  it("does not retry client errors", async () => {
+    queue.push({ status: 404, body: "not found" })
+    const client = new SuperthreadClient("key", baseUrl, { retry })
+
+    await expect(client.cards.get("ws1", "missing")).rejects.toThrow("(404)")
+    expect(requests).toHaveLength(1)
+  })
+
+  it("gives up after maxRetries and reports the last error", async () => {
+    queue.push({ status: 503 }, { status: 503 }, { status: 503 }, { status: 503, body: "down" })
+    const client = new SuperthreadClient("key", baseUrl, { retry })
+
+    await expect(client.cards.get("ws1", "c1")).rejects.toThrow("Superthread API error (503): down")
+    expect(requests).toHaveLength(4)
+  })
+
+  it("waits for Retry-After before retrying", async () => {
+    queue.push({ status: 429, headers: { "Retry-After": "0.03" } }, { status: 200, body: "{}" })
+    const client = new SuperthreadClient("key", baseUrl, { retry })
+
+    const start = Date.now()
+    await client.cards.get("ws1", "c1")
+    expect(Date.now() - start).toBeGreaterThanOrEqual(25)
+    expect(requests).toHaveLength(2)
+  })
+
+  it("fails fast when Retry-After exceeds the maximum delay", async () => {
+    queue.push({ status: 429, body: "slow down", headers: { "Retry-After": "120" } })
+    const client = new SuperthreadClient("key", baseUrl, { retry })
+
+    await expect(client.cards.get("ws1", "c1")).rejects.toThrow("(429): slow down")
+    expect(requests).toHaveLength(1)
+  })
+
+  it("does not retry when no retry policy is configured", async () => {
+    queue.push({ status: 503 }, { status: 200, body: "{}" })
+    const client = new SuperthreadClient("key", baseUrl)
+
+    await expect(client.cards.get("ws1", "c1")).rejects.toThrow("(503)")
+    expect(requests).toHaveLength(1)
+  })
+
+  it("times out hung requests and retries idempotent ones", async () => {
+    queue.push({ status: 200, delayMs: 1000 }, { status: 200, body: '{"ok":true}' })
+    const client = new SuperthreadClient("key", baseUrl, { retry, timeoutMs: 50 })
+
+    await expect(client.cards.get("ws1", "c1")).resolves.toEqual({ ok: true })
+    expect(requests).toHaveLength(2)
+  })
+
+  it("reports a timeout when retries are exhausted", async () => {
+    queue.push({ status: 200, delayMs: 1000 })
+    const client = new SuperthreadClient("key", baseUrl, { timeoutMs: 50 })
+
+    await expect(client.cards.get("ws1", "c1")).rejects.toThrow("timed out after 50ms")
+  })
+
+  it("reports a timeout while reading the body as a network error", async () => {
+    queue.push({ status: 200, body: '{"ok":true}', bodyDelayMs: 1000 })
+    const client = new SuperthreadClient("key", baseUrl, { timeoutMs: 50 })
+
+    const error = await client.cards.get("ws1", "c1").catch((e: unknown) => e)
+    expect(error).toBeInstanceOf(NetworkError)
+    expect((error as NetworkError).message).toContain("timed out after 50ms")
+  })
+
+  it("starts the timeout when the rate limiter lets the request through", async () => {
+    queue.push({ status: 200, body: "{}", delayMs: 100 }, { status: 200, body: "{}", delayMs: 100 })
+    const limiter = new RateLimiter({ requestsPerSecond: 0, maxConcurrent: 1 })
+    const client = new SuperthreadClient("key", baseUrl, { limiter, timeoutMs: 150 })
+
+    // The second request waits ~100ms for the first, which must not count toward its timeout
+    await expect(
+      Promise.all([client.cards.get("ws1", "c1"), client.cards.get("ws1", "c2")])
+    ).resolves.toHaveLength(2)
+  })
+
+  it("aborts in-flight requests when the signal is cancelled", async () => {
+    queue.push({ status: 200, delayMs: 1000 })
+    const controller = new AbortController()
+    const client = new SuperthreadClient("key", baseUrl, { retry, signal: controller.signal })
+
+    const pending = client.cards.get("ws1", "c1")
+    setTimeout(() => controller.abort(new Error("cancelled by client")), 20)
+
+    await expect(pending).rejects.toThrow("cancelled by client")
+    // Cancellation is never retried
+    expect(requests).toHaveLength(1)
+  })
+
+  it("does not start requests once the signal is aborted", async () => {
+    const controller = new AbortController()
+    controller.abort(new Error("already cancelled"))
+    const client = new SuperthreadClient("key", baseUrl, { signal: controller.signal })
+
+    await expect(client.cards.get("ws1", "c1")).rejects.toThrow("already cancelled")
+    expect(requests).toHaveLength(0)
+  })
+})
@@ -0,0 +1,162 @@
+/**
+ * @fileoverview Integration tests for structured tool output.
+ * Calls tools through an in-memory MCP client (which validates structuredContent against
+ * each tool's outputSchema) backed by a fake Superthread API.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest"
+import { Client } from "@modelcontextprotocol/sdk/client/index.js"
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js"
+import { createServer } from "../../src/server.js"
+import { config } from "../../src/config.js"
+import { respondWith, startFakeApi, type FakeApi } from "../helpers/fake-api.js"
+
+/**
+ * Canned API responses by request path
+ */
+const RESPONSES: Record<string, unknown> = {
+  "/v1/ws1/cards/c1": {
+    card: {
+      id: "c1",
+      title: "Fix login",
+      list_id: "l1",
+      priority: 2,
+      due_date: null,
+      members: [{ user_id: "u1", role: "admin" }],
+    },
+  },
+  "/v1/ws1/boards/b1": {
+    board: {
+      id: "b1",
+      title: "Engineering",
+      lists: [{ id: "l1", title: "Backlog", cards: [{ id: "c1", title: "Fix login" }] }],
+    },
+  },
+  "/v1/ws1/boards?project_id=s1": {
+    boards: Array.from({ length: 20 }, (_, i) => ({ id: `b${i}`, title: `Board ${i}` })),
+  },
+  "/v1/ws1/search?query=login": {
+    cards: [{ id: "c1", title: "Fix login" }],
+    pages: [],
+    cursor: null,
+  },
+}
+
+describe("Structured tool output", () => {
+  let fakeApi: FakeApi
+  let client: Client
+  const original = { ...config }
+
+  beforeAll(async () => {
+    fakeApi = await startFakeApi(respondWith(RESPONSES))
+    config.baseUrl = fakeApi.baseUrl
+    config.apiKey = "test-key"
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+    client = new Client({ name: "test-client", version: "1.0.0" })
+    await Promise.all([createServer().connect(serverTransport), client.connect(clientTransport)])
+  })
+
+  afterAll(async () => {
+    Object.assign(config, original)
+    await client.close()
+    await fakeApi.close()
+  })
+
+  it("advertises output schemas for core tools", async () => {
+    const { tools } = await client.listTools()
+    const withSchema = tools.filter((tool) => tool.outputSchema).map((tool) => tool.name)
+
+    expect(withSchema).toEqual(
+      expect.arrayContaining(["card_get", "board_get", "search_get", "space_get", "page_get"])
+    )
+  })
+
+  it("returns structuredContent matching the text content for card_get", async () => {
+    const result = await client.callTool({
+      name: "card_get",
+      arguments: { cards: [{ workspace_id: "ws1", card_id: "c1" }] },
+    })
+
+    const content = result.content as Array<{ text: string }>
+    expect(result.structuredContent).toEqual(JSON.parse(content[0].text))
+    expect(result.structuredContent).toMatchObject({
+      cards: [{ index: 0, status: "success", result: { card: { id: "c1", priority: 2 } } }],
+    })
+  })
+
+  it("renders Markdown text while keeping structuredContent as JSON", async () => {
+    const result = await client.callTool({
+      name: "board_get",
+      arguments: { boards: [{ workspace_id: "ws1", board_id: "b1" }], format: "markdown" },
+    })
+
+    const content = result.content as Array<{ text: string }>
+    expect(content[0].text).toBe("## Engineering (`b1`)\n\n### Backlog (1)\n\n- Fix login (`c1`)")
+    expect(result.structuredContent).toMatchObject({ boards: [{ status: "success" }] })
+  })
+
+  it("validates per-item errors in batch output", async () => {
+    const result = await client.callTool({
+      name: "board_get",
+      arguments: {
+        boards: [
+          { workspace_id: "ws1", board_id: "b1" },
+          { workspace_id: "ws1", board_id: "missing" },
+        ],
+      },
+    })
+
+    expect(result.structuredContent).toMatchObject({
+      boards: [
+        { status: "success", result: { board: { lists: [{ cards: [{ id: "c1" }] }] } } },
+        { status: "error", error: { code: "not_found" } },
+      ],
+    })
+  })
+
+  it("returns structured search results", async () => {
+    const result = await client.callTool({
+      name: "search_get",
+      arguments: { workspace_id: "ws1", q: "login" },
+    })
+
+    expect(result.structuredContent).toMatchObject({ cards: [{ id: "c1" }] })
+  })
+
+  it("truncates oversized results and continues them with response_continue", async () => {
+    config.maxResponseChars = 600
+    try {
+      const first = await client.callTool({
+        name: "board_get_all",
+        arguments: { workspace_id: "ws1", space_id: "s1" },
+      })
+      const page = first.structuredContent as {
+        boards: unknown[]
+        truncated: { continuation_token: string }
+      }
+      expect(page.truncated).toBeDefined()
+
+      const next = await client.callTool({
+        name: "response_continue",
+        arguments: { continuation_token: page.truncated.continuation_token },
+      })
+      const rest = JSON.parse((next.content as Array<{ text: string }>)[0].text) as {
+        boards: Array<{ id: string }>
+      }
+      expect(rest.boards[0].id).toBe(`b${page.boards.length}`)
+    } finally {
+      config.maxResponseChars = original.maxResponseChars
+    }
+  })
+
+  it("omits structuredContent on errors", async () => {
+    const result = await client.callTool({
+      name: "search_get",
+      arguments: { workspace_id: "ws1", q: "nothing" },
+    })
+
+    expect(result.isError).toBe(true)
+    expect(result.structuredContent).toBeUndefined()
+  })
+})
@@ -0,0 +1,106 @@
+/**
+ * @fileoverview Integration tests for the default workspace and workspace aliases.
+ * Calls tools through an in-memory MCP client backed by a fake Superthread API.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, afterEach } from "vitest"
+import { Client } from "@modelcontextprotocol/sdk/client/index.js"
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js"
+import { createServer } from "../../src/server.js"
+import { config } from "../../src/config.js"
+import { respondWith, startFakeApi, type FakeApi } from "../helpers/fake-api.js"
+
+/**
+ * Canned API responses by request path
+ */
+const RESPONSES: Record<string, unknown> = {
+  "/v1/users/me": {
+    user: {
+      id: "u1",
+      teams: [
+        { id: "ws1", name: "Engineering" },
+        { id: "ws2", name: "Operations" },
+      ],
+    },
+  },
+  "/v1/teams/ws1/members": { members: [{ user_id: "u1" }] },
+  "/v1/teams/ws2/members": { members: [{ user_id: "u2" }] },
+}
+
+describe("Default workspace and aliases", () => {
+  let fakeApi: FakeApi
+  let client: Client
+  const original = { ...config }
+
+  beforeAll(async () => {
+    fakeApi = await startFakeApi(respondWith(RESPONSES))
+    config.baseUrl = fakeApi.baseUrl
+    config.apiKey = "test-key"
+    config.workspaceAliases = { eng: "ws1", ops: "ws2" }
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+    client = new Client({ name: "test-client", version: "1.0.0" })
+    await Promise.all([createServer().connect(serverTransport), client.connect(clientTransport)])
+  })
+
+  afterEach(() => {
+    config.defaultWorkspace = ""
+  })
+
+  afterAll(async () => {
+    Object.assign(config, original)
+    await client.close()
+    await fakeApi.close()
+  })
+
+  const callTool = async (name: string, args: Record<string, unknown> = {}) => {
+    const result = await client.callTool({ name, arguments: args })
+    const content = result.content as Array<{ text: string }>
+    return { isError: result.isError, text: content[0].text }
+  }
+
+  it("uses the default workspace when workspace_id is omitted", async () => {
+    config.defaultWorkspace = "eng"
+
+    const { text } = await callTool("user_get_members")
+
+    expect(JSON.parse(text)).toEqual({ members: [{ user_id: "u1" }] })
+  })
+
+  it("accepts an alias in place of a workspace ID", async () => {
+    const { text } = await callTool("user_get_members", { workspace_id: "OPS" })
+
+    expect(JSON.parse(text)).toEqual({ members: [{ user_id: "u2" }] })
+  })
+
+  it("requires workspace_id without a default workspace", async () => {
+    const { isError, text } = await callTool("user_get_members")
+
+    expect(isError).toBe(true)
+    expect(text).toContain("workspace_id is required")
+  })
+
+  it("lists workspaces with their aliases and the default", async () => {
+    config.defaultWorkspace = "ws2"
+
+    const { text } = await callTool("workspace_list")
+
+    expect(JSON.parse(text)).toEqual({
+      workspaces: [
+        { id: "ws1", name: "Engineering", aliases: ["eng"], default: false },
+        { id: "ws2", name: "Operations", aliases: ["ops"], default: true },
+      ],
+    })
+  })
+
+  it("advertises workspace_id as optional only with a default workspace", async () => {
+    const required = async () => {
+      const { tools } = await client.listTools()
+      return tools.find((tool) => tool.name === "user_get_members")?.inputSchema.required ?? []
+    }
+
+    expect(await required()).toContain("workspace_id")
+    config.defaultWorkspace = "eng"
+    expect(await required()).not.toContain("workspace_id")
+  })
+})
@@ -0,0 +1,176 @@
+/**
+ * @fileoverview Unit tests for batch tool processing.
+ */
+
+import { describe, it, expect } from "vitest"
+import { runBatch } from "../../src/tools/helpers.js"
+import { createApiError } from "../../src/errors.js"
+
+describe("runBatch", () => {
+  it("processes items sequentially by default", async () => {
+    const order: string[] = []
+    const results = await runBatch([1, 2, 3], async (item) => {
+      order.push(`start ${item}`)
+      await new Promise((resolve) => setTimeout(resolve, 1))
+      order.push(`end ${item}`)
+      return item * 10
+    })
+
+    expect(results).toEqual([
+      { index: 0, status: "success", result: 10 },
+      { index: 1, status: "success", result: 20 },
+      { index: 2, status: "success", result: 30 },
+    ])
+    expect(order).toEqual(["start 1", "end 1", "start 2", "end 2", "start 3", "end 3"])
+  })
+
+  it("processes items concurrently in parallel mode and keeps input order", async () => {
+    const started: number[] = []
+    const results = await runBatch(
+      [30, 10, 20],
+      async (delay, index) => {
+        started.push(index)
+        await new Promise((resolve) => setTimeout(resolve, delay))
+        return index
+      },
+      { parallel: true }
+    )
+
+    expect(started).toEqual([0, 1, 2])
+    expect(results.map((result) => result.index)).toEqual([0, 1, 2])
+  })
+
+  it("continues past failed items and reports each outcome", async () => {
+    const results = await runBatch(["a", "b", "c"], async (item) => {
+      if (item === "b") {
+        throw createApiError(404, "GET /ws1/cards/b", "not found")
+      }
+      return item.toUpperCase()
+    })
+
+    expect(results[0]).toEqual({ index: 0, status: "success", result: "A" })
+    expect(results[1]).toMatchObject({
+      index: 1,
+      status: "error",
+      error: { code: "not_found", status: 404, endpoint: "GET /ws1/cards/b" },
+    })
+    expect(results[2]).toEqual({ index: 2, status: "success", result: "C" })
+  })
+
+  it("skips the remaining items after a failure with stop_on_error", async () => {
+    const processed: number[] = []
+    const results = await runBatch(
+      [1, 2, 3],
+      async (item) => {
+        processed.push(item)
+        if (item === 2) {
+          throw new Error("boom")
+        }
+        return item
+      },
+      { stop_on_error: true }
+    )
+
+    expect(processed).toEqual([1, 2])
+    expect(results.map((result) => result.status)).toEqual(["success", "error", "skipped"])
+    expect(results[2]).toEqual({ index: 2, status: "skipped" })
+  })
+
+  it("skips the remaining items once the signal is aborted", async () => {
+    const controller = new AbortController()
+    const processed: number[] = []
+    const results = await runBatch(
+      [1, 2, 3],
+      async (item) => {
+        processed.push(item)
+        if (item === 1) {
+          controller.abort()
+        }
+        return item
+      },
+      { signal: controller.signal }
+    )
+
+    expect(processed).toEqual([1])
+    expect(results).toEqual([
+      { index: 0, status: "success", result: 1 },
+      { index: 1, status: "skipped" },
+      { index: 2, status: "skipped" },
+    ])
+  })
+
+  describe("atomic mode", () => {
+    it("deletes created entities in reverse order when an item fails", async () => {
+      const deleted: string[] = []
+      const results = await runBatch(
+        ["parent", "child", "bad", "never"],
+        async (item, _index, journal) => {
+          if (item === "bad") {
+            throw new Error("boom")
+          }
+          journal.record("card", item, async () => {
+            deleted.push(item)
+          })
+          return item
+        },
+        { atomic: true, parallel: true }
+      )
+
+      expect(deleted).toEqual(["child", "parent"])
+      expect(results).toEqual([
+        {
+          index: 0,
+          status: "rolled_back",
+          result: "parent",
+          rollback: [{ entity: "card", id: "parent", status: "rolled_back" }],
+        },
+        {
+          index: 1,
+          status: "rolled_back",
+          result: "child",
+          rollback: [{ entity: "card", id: "child", status: "rolled_back" }],
+        },
+        expect.objectContaining({ index: 2, status: "error" }),
+        { index: 3, status: "skipped" },
+      ])
+    })
+
+    it("reports entities that could not be rolled back", async () => {
+      const results = await runBatch(
+        ["a", "b", "c"],
+        async (item, _index, journal) => {
+          if (item === "c") {
+            throw new Error("boom")
+          }
+          journal.record("list", item === "a" ? "a" : undefined, async () => {
+            throw createApiError(403, "DELETE /ws1/lists/a", "forbidden")
+          })
+          return item
+        },
+        { atomic: true }
+      )
+
+      expect(results[0]).toMatchObject({
+        status: "rollback_failed",
+        rollback: [{ entity: "list", id: "a", status: "failed", error: { code: "auth_error" } }],
+      })
+      expect(results[1]).toMatchObject({
+        status: "rollback_failed",
+        rollback: [{ entity: "list", status: "failed", error: { code: "internal_error" } }],
+      })
+    })
+
+    it("does not roll back when every item succeeds", async () => {
+      const results = await runBatch(
+        [1, 2],
+        async (item, _index, journal) => {
+          journal.record("board", String(item), () => Promise.reject(new Error("unexpected")))
+          return item
+        },
+        { atomic: true }
+      )
+
+      expect(results.map((result) => result.status)).toEqual(["success", "success"])
+    })
+  })
+})
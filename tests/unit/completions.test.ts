@@ -0,0 +1,76 @@
+/**
+ * @fileoverview Unit tests for argument completion matching and lookup caching.
+ */
+
+import { describe, it, expect, afterEach, vi } from "vitest"
+import { createCompleters, matchCompletions } from "../../src/completions.js"
+import { config } from "../../src/config.js"
+
+const boards = [
+  { id: "b1", name: "Design" },
+  { id: "b2", name: "Engineering" },
+  { id: "b3", name: "Platform Engineering" },
+  { id: "eng-4", name: "Marketing" },
+]
+
+describe("matchCompletions", () => {
+  it("ranks name prefixes, then names containing the value, then ID prefixes", () => {
+    expect(matchCompletions(boards, "eng")).toEqual(["b2", "b3", "eng-4"])
+  })
+
+  it("matches case-insensitively", () => {
+    expect(matchCompletions(boards, "DES")).toEqual(["b1"])
+  })
+
+  it("returns every ID for an empty value", () => {
+    expect(matchCompletions(boards)).toEqual(["b1", "b2", "b3", "eng-4"])
+  })
+
+  it("returns nothing when no entity matches", () => {
+    expect(matchCompletions(boards, "sales")).toEqual([])
+  })
+
+  it("returns each ID once and at most 100", () => {
+    const many = Array.from({ length: 150 }, (_, i) => ({ id: `b${i}`, name: `Board ${i}` }))
+
+    expect(matchCompletions([...boards, boards[0]], "design")).toEqual(["b1"])
+    expect(matchCompletions(many, "board")).toHaveLength(100)
+  })
+})
+
+describe("createCompleters", () => {
+  const original = { ...config }
+
+  afterEach(() => {
+    Object.assign(config, original)
+    vi.restoreAllMocks()
+  })
+
+  it("keeps a bounded number of lookups cached", async () => {
+    config.rateLimit = { requestsPerSecond: 0, maxConcurrent: 0 }
+    const fetchSpy = vi
+      .spyOn(globalThis, "fetch")
+      .mockImplementation(() =>
+        Promise.resolve(
+          new Response(JSON.stringify({ projects: [{ id: "s1", title: "Product" }] }))
+        )
+      )
+    const complete = createCompleters("test-key")
+    const spaces = (workspaceId: string) =>
+      complete.spaceId("prod", { arguments: { workspace_id: workspaceId } })
+
+    expect(await spaces("ws0")).toEqual(["s1"])
+    expect(await spaces("ws0")).toEqual(["s1"])
+    expect(fetchSpy).toHaveBeenCalledTimes(1)
+
+    // Looking up 500 other workspaces evicts the oldest lookup
+    for (let i = 1; i <= 500; i++) {
+      await spaces(`ws${i}`)
+    }
+    expect(fetchSpy).toHaveBeenCalledTimes(501)
+    await spaces("ws500")
+    expect(fetchSpy).toHaveBeenCalledTimes(501)
+    await spaces("ws0")
+    expect(fetchSpy).toHaveBeenCalledTimes(502)
+  })
+})
@@ -0,0 +1,239 @@
+/**
+ * @fileoverview Unit tests for the config file: parsing, validation, profiles, and
+ * precedence of environment variables.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, afterEach } from "vitest"
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { config, loadConfig } from "../../src/config.js"
+import {
+  applyConfigFile,
+  ConfigFileError,
+  findConfigFile,
+  readConfigFile,
+} from "../../src/config-file.js"
+
+let dir: string
+
+/**
+ * Writes a file to the test directory and returns its path.
+ */
+function writeConfig(name: string, content: unknown): string {
+  const path = join(dir, name)
+  writeFileSync(path, typeof content === "string" ? content : JSON.stringify(content))
+  return path
+}
+
+beforeAll(() => {
+  dir = mkdtempSync(join(tmpdir(), "superthread-config-"))
+})
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true })
+})
+
+describe("readConfigFile", () => {
+  it("reads JSON settings", () => {
+    const path = writeConfig("plain.json", {
+      listsAddToTop: ["Done", "Tasks, Urgent"],
+      enabledTools: ["Cards", "boards"],
+      retry: { maxRetries: 5 },
+    })
+
+    expect(readConfigFile(path).settings).toEqual({
+      listsAddToTop: ["Done", "Tasks, Urgent"],
+      enabledTools: ["cards", "boards"],
+      retry: { maxRetries: 5 },
+    })
+  })
+
+  it("reads YAML settings", () => {
+    const path = writeConfig(
+      "plain.yaml",
+      [
+        "verbosity: compact",
+        "workspaceAliases:",
+        "  Eng: abc123",
+        "deniedTools:",
+        "  - '*_delete'",
+      ].join("\n")
+    )
+
+    expect(readConfigFile(path).settings).toEqual({
+      verbosity: "compact",
+      workspaceAliases: { eng: "abc123" },
+      deniedTools: ["*_delete"],
+    })
+  })
+
+  it("treats an empty YAML file as no settings", () => {
+    expect(readConfigFile(writeConfig("empty.yml", "")).settings).toEqual({})
+  })
+
+  it("applies the profile named in the file, merging nested settings", () => {
+    const path = writeConfig("profiles.json", {
+      profile: "work",
+      readOnly: true,
+      retry: { maxRetries: 1, baseDelayMs: 100 },
+      profiles: {
+        work: { apiKey: "work-key", retry: { maxRetries: 4 } },
+        personal: { apiKey: "personal-key" },
+      },
+    })
+
+    expect(readConfigFile(path)).toEqual({
+      path,
+      profile: "work",
+      settings: {
+        apiKey: "work-key",
+        readOnly: true,
+        retry: { maxRetries: 4, baseDelayMs: 100 },
+        rateLimit: {},
+      },
+    })
+    expect(readConfigFile(path, "personal").settings.apiKey).toBe("personal-key")
+  })
+
+  it("rejects unknown profiles and lists the available ones", () => {
+    const path = writeConfig("unknown-profile.json", { profiles: { work: {}, personal: {} } })
+
+    expect(() => readConfigFile(path, "home")).toThrow(
+      `Profile "home" not found in config file ${path}. Available profiles: work, personal`
+    )
+  })
+
+  it("reports every invalid setting with its path", () => {
+    const path = writeConfig("invalid.json", {
+      httpPort: "8080",
+      verbosity: "verbose",
+      listsAddToTopp: ["Done"],
+      profiles: { work: { retry: { maxRetries: -1 } } },
+    })
+
+    let error: unknown
+    try {
+      readConfigFile(path)
+    } catch (e) {
+      error = e
+    }
+
+    expect(error).toBeInstanceOf(ConfigFileError)
+    const message = (error as Error).message
+    expect(message).toContain(`Invalid config file ${path}:`)
+    expect(message).toContain("  - httpPort: Expected number, received string")
+    expect(message).toContain("  - verbosity: Invalid enum value. Expected 'full' | 'compact'")
+    expect(message).toContain("  - profiles.work.retry.maxRetries:")
+    expect(message).toContain("  - (top level): Unrecognized key(s) in object: 'listsAddToTopp'")
+  })
+
+  it("reports syntax errors and missing files", () => {
+    const path = writeConfig("broken.json", "{ listsAddToTop: ")
+
+    expect(() => readConfigFile(path)).toThrow(`Could not parse config file ${path}`)
+    expect(() => readConfigFile(join(dir, "missing.json"))).toThrow(
+      `Could not read config file ${join(dir, "missing.json")}`
+    )
+  })
+})
+
+describe("findConfigFile", () => {
+  it("prefers SUPERTHREAD_CONFIG", () => {
+    expect(findConfigFile({ SUPERTHREAD_CONFIG: "/etc/superthread.yaml" })).toBe(
+      "/etc/superthread.yaml"
+    )
+  })
+
+  it("looks in the config directory", () => {
+    const configHome = join(dir, "xdg")
+    expect(findConfigFile({ XDG_CONFIG_HOME: configHome })).toBeUndefined()
+
+    mkdirSync(join(configHome, "mcp-superthread-plus"), { recursive: true })
+    writeFileSync(join(configHome, "mcp-superthread-plus", "config.yml"), "")
+    expect(findConfigFile({ XDG_CONFIG_HOME: configHome })).toBe(
+      join(configHome, "mcp-superthread-plus", "config.yml")
+    )
+  })
+})
+
+describe("loadConfig", () => {
+  it("uses file settings when environment variables are not set", () => {
+    const loaded = loadConfig(
+      {},
+      {
+        apiKey: "file-key",
+        listsAddToTop: ["Done"],
+        enabledTools: ["cards"],
+        workspaceAliases: { eng: "abc123" },
+        rateLimit: { maxConcurrent: 2 },
+      }
+    )
+
+    expect(loaded.apiKey).toBe("file-key")
+    expect(loaded.listsAddToTop).toEqual(["Done"])
+    expect(loaded.enabledTools).toEqual(new Set(["cards"]))
+    expect(loaded.workspaceAliases).toEqual({ eng: "abc123" })
+    expect(loaded.rateLimit).toEqual({ requestsPerSecond: 10, maxConcurrent: 2 })
+  })
+
+  it("gives environment variables precedence over the file", () => {
+    const loaded = loadConfig(
+      {
+        SUPERTHREAD_API_KEY: "env-key",
+        SUPERTHREAD_LISTS_ADD_TO_TOP: "Shipped",
+        SUPERTHREAD_READ_ONLY: "false",
+        SUPERTHREAD_MAX_CONCURRENT_REQUESTS: "8",
+      },
+      {
+        apiKey: "file-key",
+        listsAddToTop: ["Done"],
+        readOnly: true,
+        rateLimit: { maxConcurrent: 2 },
+      }
+    )
+
+    expect(loaded.apiKey).toBe("env-key")
+    expect(loaded.listsAddToTop).toEqual(["Shipped"])
+    expect(loaded.readOnly).toBe(false)
+    expect(loaded.rateLimit.maxConcurrent).toBe(8)
+  })
+
+  it("ignores empty environment variables", () => {
+    const loaded = loadConfig({ SUPERTHREAD_ENABLED_TOOLS: "" }, { enabledTools: ["pages"] })
+
+    expect(loaded.enabledTools).toEqual(new Set(["pages"]))
+  })
+})
+
+describe("applyConfigFile", () => {
+  const original = { ...config }
+
+  afterEach(() => {
+    Object.assign(config, original)
+  })
+
+  it("applies the file and profile to the global configuration", () => {
+    const path = writeConfig("apply.json", {
+      listsAddToTop: ["Done"],
+      profiles: { work: { defaultWorkspace: "eng" } },
+    })
+
+    const loaded = applyConfigFile({ SUPERTHREAD_CONFIG: path, SUPERTHREAD_PROFILE: "work" })
+
+    expect(loaded?.profile).toBe("work")
+    expect(config.listsAddToTop).toEqual(["Done"])
+    expect(config.defaultWorkspace).toBe("eng")
+  })
+
+  it("does nothing without a config file", () => {
+    expect(applyConfigFile({ XDG_CONFIG_HOME: join(dir, "none") })).toBeUndefined()
+    expect(config).toEqual(original)
+  })
+
+  it("rejects a profile without a config file", () => {
+    expect(() =>
+      applyConfigFile({ XDG_CONFIG_HOME: join(dir, "none"), SUPERTHREAD_PROFILE: "work" })
+    ).toThrow('SUPERTHREAD_PROFILE is set to "work", but no config file was found')
+  })
+})
@@ -0,0 +1,104 @@
+/**
+ * @fileoverview Unit tests for typed Superthread errors and structured tool errors.
+ */
+
+import { describe, it, expect } from "vitest"
+import {
+  AuthError,
+  NetworkError,
+  NotFoundError,
+  PathValidationError,
+  RateLimitError,
+  SuperthreadError,
+  ValidationError,
+  createApiError,
+} from "../../src/errors.js"
+import { toToolError } from "../../src/tools/errors.js"
+import { createToolHandler } from "../../src/tools/helpers.js"
+
+describe("createApiError", () => {
+  it.each([
+    [400, ValidationError, "validation_error"],
+    [401, AuthError, "auth_error"],
+    [403, AuthError, "auth_error"],
+    [404, NotFoundError, "not_found"],
+    [422, ValidationError, "validation_error"],
+    [429, RateLimitError, "rate_limited"],
+    [500, SuperthreadError, "api_error"],
+  ])("maps %i to the matching error class", (status, ErrorClass, code) => {
+    const error = createApiError(status, "GET /ws1/cards/c1", "oops")
+    expect(error).toBeInstanceOf(ErrorClass)
+    expect(error.code).toBe(code)
+    expect(error.status).toBe(status)
+    expect(error.message).toBe(`Superthread API error (${status}): oops`)
+  })
+
+  it("keeps the endpoint and parses JSON bodies", () => {
+    const error = createApiError(404, "GET /ws1/lists/l1", '{"message":"List not found"}')
+    expect(error.endpoint).toBe("GET /ws1/lists/l1")
+    expect(error.body).toEqual({ message: "List not found" })
+  })
+
+  it("carries Retry-After on rate limit errors", () => {
+    const error = createApiError(429, "POST /ws1/cards", "", 2000) as RateLimitError
+    expect(error.retryAfterMs).toBe(2000)
+    expect(error.body).toBeUndefined()
+  })
+
+  it("treats path validation errors as validation errors", () => {
+    const error = new PathValidationError("bad id")
+    expect(error).toBeInstanceOf(ValidationError)
+    expect(error.code).toBe("invalid_id")
+  })
+
+  it("distinguishes timeouts from other network errors", () => {
+    expect(new NetworkError("timed out", { timedOut: true }).code).toBe("timeout")
+    expect(new NetworkError("refused").code).toBe("network_error")
+  })
+})
+
+describe("toToolError", () => {
+  it("suggests how to discover IDs for missing resources, most specific first", () => {
+    const error = createApiError(404, "GET /ws1/cards/c1/checklists/x", "not found")
+    const toolError = toToolError(error)
+
+    expect(toolError.code).toBe("not_found")
+    expect(toolError.hints[0]).toContain("card_get")
+    expect(toolError.hints[1]).toContain("search_get")
+  })
+
+  it("suggests board_get when a list is not found", () => {
+    const toolError = toToolError(createApiError(404, "PATCH /ws1/lists/l1", "not found"))
+    expect(toolError.hints[0]).toBe("Call board_get to discover list IDs.")
+  })
+
+  it("reports unknown errors as internal errors", () => {
+    expect(toToolError(new Error("boom"))).toEqual({
+      code: "internal_error",
+      message: "boom",
+      hints: [],
+    })
+  })
+})
+
+describe("createToolHandler errors", () => {
+  it("returns the message and a structured error object", async () => {
+    const handler = createToolHandler(async () => {
+      throw createApiError(404, "GET /ws1/boards/b1", '{"error":"missing"}')
+    })
+
+    const result = await handler({}, {
+      authInfo: { token: "key", clientId: "test", scopes: [] },
+    } as never)
+
+    expect(result.isError).toBe(true)
+    expect(result.content[0].text).toBe('Error: Superthread API error (404): {"error":"missing"}')
+    const { error } = JSON.parse(result.content[1].text) as { error: Record<string, unknown> }
+    expect(error).toMatchObject({
+      code: "not_found",
+      status: 404,
+      endpoint: "GET /ws1/boards/b1",
+      details: { error: "missing" },
+    })
+  })
+})
@@ -0,0 +1,200 @@
+/**
+ * @fileoverview Unit tests for Markdown rendering of read tool results.
+ */
+
+import { describe, it, expect } from "vitest"
+import {
+  formatBoards,
+  formatCards,
+  formatComments,
+  formatPages,
+  formatSearch,
+  htmlToMarkdown,
+} from "../../src/tools/markdown.js"
+
+// 2025-01-01T00:00:00Z
+const JAN_1 = 1735689600
+
+describe("htmlToMarkdown", () => {
+  it("converts common rich-text elements", () => {
+    const html =
+      '<h2>Steps</h2><p>See <a href="https://x.io">the <strong>docs</strong></a> &amp; <code>npm i</code></p><ul><li>One</li><li><em>Two</em></li></ul>'
+
+    expect(htmlToMarkdown(html)).toBe(
+      "## Steps\n\nSee [the **docs**](https://x.io) & `npm i`\n\n- One\n- _Two_"
+    )
+  })
+
+  it("drops unknown tags and keeps their text", () => {
+    expect(htmlToMarkdown('<p><span data-x="1">Hello</span><br/>world</p>')).toBe("Hello\nworld")
+  })
+})
+
+describe("formatBoards", () => {
+  it("renders each list as a heading with its cards, assignees, and due dates", () => {
+    const result = {
+      boards: [
+        {
+          index: 0,
+          status: "success",
+          result: {
+            board: {
+              id: "b1",
+              title: "Engineering",
+              lists: [
+                {
+                  id: "l1",
+                  title: "In Progress",
+                  cards: [
+                    {
+                      id: "c1",
+                      title: "Fix login",
+                      owner_id: "u1",
+                      members: [{ user_id: "u1" }, { user_id: "u2" }],
+                      due_date: JAN_1,
+                    },
+                    { id: "c2", title: "Write docs" },
+                  ],
+                },
+                { id: "l2", title: "Done", cards: [] },
+              ],
+            },
+          },
+        },
+      ],
+    }
+
+    expect(formatBoards(result)).toBe(
+      [
+        "## Engineering (`b1`)",
+        "",
+        "### In Progress (2)",
+        "",
+        "- Fix login (`c1`) — assignees: u1, u2 — due 2025-01-01",
+        "- Write docs (`c2`)",
+        "",
+        "### Done (0)",
+        "",
+        "_No cards_",
+      ].join("\n")
+    )
+  })
+
+  it("reports failed and skipped items", () => {
+    const result = {
+      boards: [
+        { index: 0, status: "error", error: { code: "not_found", message: "board not found" } },
+        { index: 1, status: "skipped" },
+      ],
+    }
+
+    expect(formatBoards(result)).toBe(
+      "> Item 0 failed: board not found\n\n---\n\n> Item 1 skipped after an earlier failure."
+    )
+  })
+})
+
+describe("formatCards", () => {
+  it("renders details, content, and checklists as task lists", () => {
+    const result = {
+      cards: [
+        {
+          index: 0,
+          status: "success",
+          result: {
+            card: {
+              id: "c1",
+              title: "Fix login",
+              list_title: "In Progress",
+              priority: 2,
+              due_date: JAN_1,
+              tags: [{ id: "t1", name: "bug" }],
+              content: "<p>Users get logged out.</p>",
+              checklists: [
+                {
+                  id: "cl1",
+                  title: "Steps",
+                  items: [
+                    { id: "i1", title: "Reproduce", checked: true },
+                    { id: "i2", title: "Fix", checked: false },
+                  ],
+                },
+              ],
+            },
+          },
+        },
+      ],
+    }
+
+    expect(formatCards(result)).toBe(
+      [
+        "## Fix login",
+        "",
+        "- **ID:** `c1`",
+        "- **Status:** In Progress",
+        "- **Priority:** 2",
+        "- **Due:** 2025-01-01",
+        "- **Tags:** bug",
+        "",
+        "Users get logged out.",
+        "",
+        "### Steps",
+        "",
+        "- [x] Reproduce",
+        "- [ ] Fix",
+      ].join("\n")
+    )
+  })
+})
+
+describe("formatPages", () => {
+  it("renders the title and content", () => {
+    const result = {
+      pages: [
+        {
+          index: 0,
+          status: "success",
+          result: {
+            page: { id: "p1", title: "Runbook", content: "<h1>Deploy</h1><p>Run it.</p>" },
+          },
+        },
+      ],
+    }
+
+    expect(formatPages(result)).toBe("## Runbook\n\n- **ID:** `p1`\n\n# Deploy\n\nRun it.")
+  })
+})
+
+describe("formatComments", () => {
+  it("renders replies as quoted blocks", () => {
+    const result = {
+      comments: [{ id: "r1", user_id: "u1", time_created: JAN_1, content: "<p>Done</p>" }],
+    }
+
+    expect(formatComments(result)).toBe("**u1 on 2025-01-01** (`r1`)\n> Done")
+  })
+
+  it("handles a thread without replies", () => {
+    expect(formatComments({ comments: [] })).toBe("_No replies_")
+  })
+})
+
+describe("formatSearch", () => {
+  it("renders grouped results with a heading per type", () => {
+    const result = { cards: [{ id: "c1", title: "Fix login" }], pages: [], cursor: "next" }
+
+    expect(formatSearch(result)).toBe(
+      [
+        "## Cards",
+        "",
+        "- Fix login (`c1`)",
+        "",
+        "## Pages",
+        "",
+        "_No matches_",
+        "",
+        "_More results available: pass cursor `next`._",
+      ].join("\n")
+    )
+  })
+})
@@ -0,0 +1,104 @@
+/**
+ * @fileoverview Unit tests for the client-side rate limiter.
+ */
+
+import { describe, it, expect, afterEach, vi } from "vitest"
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { RateLimiter } from "../../src/api/rate-limiter.js"
+import { getSharedLimiter } from "../../src/api/client.js"
+import { config } from "../../src/config.js"
+import { reloadConfigFile } from "../../src/config-file.js"
+
+/**
+ * Creates a task that tracks how many tasks are running at once.
+ */
+function trackConcurrency() {
+  const state = { running: 0, maxRunning: 0 }
+  const task = async () => {
+    state.running++
+    state.maxRunning = Math.max(state.maxRunning, state.running)
+    await new Promise((resolve) => setTimeout(resolve, 10))
+    state.running--
+  }
+  return { state, task }
+}
+
+describe("RateLimiter", () => {
+  it("never exceeds the maximum number of requests in flight", async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 0, maxConcurrent: 2 })
+    const { state, task } = trackConcurrency()
+
+    await Promise.all(Array.from({ length: 6 }, () => limiter.schedule(task)))
+
+    expect(state.maxRunning).toBe(2)
+  })
+
+  it("allows a burst up to the rate, then spaces out requests", async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 20, maxConcurrent: 0 })
+    const start = Date.now()
+
+    // 20 tokens are available immediately; the next 2 wait ~50ms each
+    await Promise.all(Array.from({ length: 22 }, () => limiter.schedule(async () => {})))
+
+    expect(Date.now() - start).toBeGreaterThanOrEqual(90)
+  })
+
+  it("runs tasks without delay when limits are disabled", async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 0, maxConcurrent: 0 })
+    const { state, task } = trackConcurrency()
+
+    await Promise.all(Array.from({ length: 5 }, () => limiter.schedule(task)))
+
+    expect(state.maxRunning).toBe(5)
+  })
+
+  it("releases the slot when a task fails", async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 0, maxConcurrent: 1 })
+
+    await expect(limiter.schedule(() => Promise.reject(new Error("boom")))).rejects.toThrow("boom")
+    await expect(limiter.schedule(() => Promise.resolve("ok"))).resolves.toBe("ok")
+  })
+})
+
+describe("getSharedLimiter", () => {
+  const original = { ...config }
+
+  afterEach(() => {
+    vi.useRealTimers()
+    Object.assign(config, original)
+  })
+
+  it("shares one limiter per API key", () => {
+    expect(getSharedLimiter("key-a")).toBe(getSharedLimiter("key-a"))
+    expect(getSharedLimiter("key-a")).not.toBe(getSharedLimiter("key-b"))
+  })
+
+  it("drops limiters of API keys that are no longer used", () => {
+    vi.useFakeTimers()
+    const limiter = getSharedLimiter("idle-key")
+
+    vi.advanceTimersByTime(11 * 60 * 1000)
+    getSharedLimiter("other-key")
+
+    expect(getSharedLimiter("idle-key")).not.toBe(limiter)
+  })
+
+  it("applies new limits after the config file is reloaded", () => {
+    const dir = mkdtempSync(join(tmpdir(), "superthread-limits-"))
+    const path = join(dir, "config.json")
+    const errors = vi.spyOn(console, "error").mockImplementation(() => {})
+    try {
+      const limiter = getSharedLimiter("reload-key")
+      writeFileSync(path, JSON.stringify({ rateLimit: { maxConcurrent: 1 } }))
+      expect(reloadConfigFile({ SUPERTHREAD_CONFIG: path })).toBe(true)
+
+      expect(getSharedLimiter("reload-key")).not.toBe(limiter)
+      expect(config.rateLimit.maxConcurrent).toBe(1)
+    } finally {
+      errors.mockRestore()
+      rmSync(dir, { recursive: true, force: true })
+    }
+  })
+})
@@ -0,0 +1,60 @@
+/**
+ * @fileoverview Unit tests for name-based ID resolution.
+ */
+
+import { describe, it, expect } from "vitest"
+import { resolveName } from "../../src/resolvers.js"
+import { ValidationError } from "../../src/errors.js"
+
+const lists = [
+  { id: "l1", name: "Backlog" },
+  { id: "l2", name: "In Progress" },
+  { id: "l3", name: "In Review" },
+  { id: "l4", name: "Done" },
+]
+
+describe("resolveName", () => {
+  it("accepts an ID as is", () => {
+    expect(resolveName(lists, "l3", "list")).toBe("l3")
+  })
+
+  it("matches names case-insensitively, ignoring punctuation", () => {
+    expect(resolveName(lists, "in progress", "list")).toBe("l2")
+    expect(resolveName(lists, "in-progress", "list")).toBe("l2")
+  })
+
+  it("matches a unique prefix or substring", () => {
+    expect(resolveName(lists, "back", "list")).toBe("l1")
+    expect(resolveName(lists, "review", "list")).toBe("l3")
+  })
+
+  it("tolerates small typos", () => {
+    expect(resolveName(lists, "Backlgo", "list")).toBe("l1")
+  })
+
+  it("prefers an exact match over prefix matches", () => {
+    const tags = [
+      { id: "t1", name: "bug" },
+      { id: "t2", name: "bug-critical" },
+    ]
+
+    expect(resolveName(tags, "Bug", "tag")).toBe("t1")
+  })
+
+  it("rejects an ambiguous name, listing the candidates", () => {
+    expect(() => resolveName(lists, "in", "list")).toThrow(ValidationError)
+    expect(() => resolveName(lists, "in", "list")).toThrow(
+      'list "in" is ambiguous: it matches "In Progress" (l2), "In Review" (l3)'
+    )
+  })
+
+  it("rejects an unknown name, listing the available names", () => {
+    expect(() => resolveName(lists, "Shipped", "list")).toThrow(
+      'No list matches "Shipped". Available: "Backlog", "In Progress", "In Review", "Done"'
+    )
+  })
+
+  it("rejects an empty name", () => {
+    expect(() => resolveName(lists, " ", "list")).toThrow("list name must not be empty")
+  })
+})
@@ -0,0 +1,99 @@
+/**
+ * @fileoverview Unit tests for response shaping (field projection and compact mode).
+ */
+
+import { describe, it, expect, afterEach } from "vitest"
+import { shapeResponse } from "../../src/tools/shaping.js"
+import { createToolHandler } from "../../src/tools/helpers.js"
+import { config } from "../../src/config.js"
+
+const board = {
+  board: {
+    id: "b1",
+    title: "Engineering",
+    content: null,
+    cover_image: { blurhash: "LKO2?U%2Tw=w", src: "https://example.com/cover.png" },
+    lists: [
+      {
+        id: "l1",
+        title: "Backlog",
+        color: "",
+        cards: [
+          {
+            id: "c1",
+            title: "Fix login",
+            due_date: null,
+            members: [{ user_id: "u1", avatar_url: "https://example.com/u1.png" }],
+          },
+        ],
+      },
+    ],
+  },
+}
+
+describe("shapeResponse", () => {
+  it("returns the value unchanged without options", () => {
+    expect(shapeResponse(board, {})).toBe(board)
+  })
+
+  it("strips nulls, empty strings, and display-only fields in compact mode", () => {
+    expect(shapeResponse(board, { compact: true })).toEqual({
+      board: {
+        id: "b1",
+        title: "Engineering",
+        cover_image: { src: "https://example.com/cover.png" },
+        lists: [
+          {
+            id: "l1",
+            title: "Backlog",
+            cards: [{ id: "c1", title: "Fix login", members: [{ user_id: "u1" }] }],
+          },
+        ],
+      },
+    })
+  })
+
+  it("projects every entity to the selected fields, keeping ids and envelopes", () => {
+    expect(shapeResponse(board, { fields: ["title", "lists", "cards"] })).toEqual({
+      board: {
+        id: "b1",
+        title: "Engineering",
+        lists: [{ id: "l1", title: "Backlog", cards: [{ id: "c1", title: "Fix login" }] }],
+      },
+    })
+  })
+
+  it("drops nested entities whose container field is not selected", () => {
+    expect(shapeResponse(board, { fields: ["title"] })).toEqual({
+      board: { id: "b1", title: "Engineering" },
+    })
+  })
+
+  it("does not modify the input", () => {
+    const copy = structuredClone(board)
+    shapeResponse(board, { fields: ["title"], compact: true })
+    expect(board).toEqual(copy)
+  })
+})
+
+describe("createToolHandler response shaping", () => {
+  afterEach(() => {
+    config.verbosity = "full"
+  })
+
+  const handler = createToolHandler(async () => board)
+  const extra = { authInfo: { token: "key", clientId: "test", scopes: [] } } as never
+  const call = async (args: Record<string, unknown>) =>
+    JSON.parse((await handler(args, extra)).content[0].text) as typeof board
+
+  it("applies the fields and compact arguments", async () => {
+    const result = await call({ fields: ["title"], compact: true })
+    expect(result).toEqual({ board: { id: "b1", title: "Engineering" } })
+  })
+
+  it("uses the configured verbosity as the default", async () => {
+    config.verbosity = "compact"
+    expect((await call({})).board.content).toBeUndefined()
+    expect((await call({ compact: false })).board.content).toBeNull()
+  })
+})
@@ -0,0 +1,67 @@
+/**
+ * @fileoverview Tests that every registered tool declares accurate MCP annotations.
+ */
+
+import { describe, it, expect, beforeAll } from "vitest"
+import { Client } from "@modelcontextprotocol/sdk/client/index.js"
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js"
+import type { Tool } from "@modelcontextprotocol/sdk/types.js"
+import { createServer } from "../../src/server.js"
+
+describe("Tool annotations", () => {
+  let tools: Tool[]
+
+  beforeAll(async () => {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+    const client = new Client({ name: "test-client", version: "1.0.0" })
+    await Promise.all([createServer().connect(serverTransport), client.connect(clientTransport)])
+    tools = (await client.listTools()).tools
+    await client.close()
+  })
+
+  it("registers tools", () => {
+    expect(tools.length).toBeGreaterThan(60)
+  })
+
+  it("declares every annotation hint on every tool", () => {
+    const missing = tools
+      .filter((tool) =>
+        ["readOnlyHint", "destructiveHint", "idempotentHint", "openWorldHint"].some(
+          (hint) => typeof tool.annotations?.[hint as keyof Tool["annotations"]] !== "boolean"
+        )
+      )
+      .map((tool) => tool.name)
+
+    expect(missing).toEqual([])
+  })
+
+  it("marks only tools without side effects as read-only", () => {
+    for (const tool of tools) {
+      // Mutating tools are the ones that support dry_run
+      const mutating = "dry_run" in (tool.inputSchema.properties ?? {})
+      expect({ name: tool.name, readOnly: tool.annotations?.readOnlyHint }).toEqual({
+        name: tool.name,
+        readOnly: !mutating,
+      })
+    }
+  })
+
+  it("marks deleting and removing tools as destructive", () => {
+    const destructive = tools.filter((tool) => /_(delete|remove)/.test(tool.name))
+
+    expect(destructive.length).toBeGreaterThan(0)
+    for (const tool of destructive) {
+      expect({ name: tool.name, destructive: tool.annotations?.destructiveHint }).toEqual({
+        name: tool.name,
+        destructive: true,
+      })
+    }
+  })
+
+  it("does not mark creating tools as idempotent", () => {
+    for (const name of ["card_create", "comment_create", "page_duplicate", "comment_reply"]) {
+      const tool = tools.find((t) => t.name === name)
+      expect(tool?.annotations?.idempotentHint).toBe(false)
+    }
+  })
+})
@@ -0,0 +1,74 @@
+/**
+ * @fileoverview Tests for read-only mode and tool-level allow/deny lists.
+ */
+
+import { describe, it, expect, afterEach } from "vitest"
+import { Client } from "@modelcontextprotocol/sdk/client/index.js"
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js"
+import { createServer } from "../../src/server.js"
+import { isToolAllowed } from "../../src/tools/index.js"
+import { config } from "../../src/config.js"
+
+/**
+ * Connects a client to a fresh server and returns the advertised tool names.
+ */
+async function listToolNames(): Promise<string[]> {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+  const client = new Client({ name: "test-client", version: "1.0.0" })
+  await Promise.all([createServer().connect(serverTransport), client.connect(clientTransport)])
+  const { tools } = await client.listTools()
+  await client.close()
+  return tools.map((tool) => tool.name)
+}
+
+describe("Tool filters", () => {
+  afterEach(() => {
+    config.readOnly = false
+    config.allowedTools = []
+    config.deniedTools = []
+  })
+
+  describe("isToolAllowed", () => {
+    it("allows every tool by default", () => {
+      expect(isToolAllowed("card_delete", false)).toBe(true)
+      expect(isToolAllowed("card_get", true)).toBe(true)
+    })
+
+    it("hides mutating tools in read-only mode", () => {
+      config.readOnly = true
+      expect(isToolAllowed("card_get", true)).toBe(true)
+      expect(isToolAllowed("card_update", false)).toBe(false)
+    })
+
+    it("applies wildcard allow and deny patterns, deny taking precedence", () => {
+      config.allowedTools = ["card_*", "search_get"]
+      config.deniedTools = ["*_delete"]
+
+      expect(isToolAllowed("card_get", true)).toBe(true)
+      expect(isToolAllowed("search_get", true)).toBe(true)
+      expect(isToolAllowed("board_get", true)).toBe(false)
+      expect(isToolAllowed("card_delete", false)).toBe(false)
+    })
+  })
+
+  describe("registerAllTools", () => {
+    it("advertises only non-mutating tools in read-only mode", async () => {
+      config.readOnly = true
+      const names = await listToolNames()
+
+      expect(names).toContain("card_get")
+      expect(names).toContain("search_get")
+      expect(names).not.toContain("card_create")
+      expect(names).not.toContain("space_delete")
+      expect(names).not.toContain("comment_reply")
+    })
+
+    it("hides denied tools", async () => {
+      config.deniedTools = ["*_delete", "*_delete_*"]
+      const names = await listToolNames()
+
+      expect(names).toContain("card_create")
+      expect(names.filter((name) => name.includes("delete"))).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,134 @@
+/**
+ * @fileoverview Unit tests for output size budgeting and continuation tokens.
+ */
+
+import { describe, it, expect, afterEach, vi } from "vitest"
+import {
+  CONTINUATION_TTL_MS,
+  continueResponse,
+  limitResponse,
+  type TruncationSummary,
+} from "../../src/tools/truncation.js"
+import { callerId, createToolHandler } from "../../src/tools/helpers.js"
+import { config } from "../../src/config.js"
+
+type Slice = Record<string, unknown> & { truncated?: TruncationSummary }
+
+const boards = Array.from({ length: 30 }, (_, i) => ({ id: `b${i}`, title: `Board ${i}` }))
+const size = (value: unknown) => JSON.stringify(value, null, 2).length
+
+/** Caller the truncated results belong to */
+const OWNER = "caller"
+
+describe("limitResponse", () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it("returns results within the budget unchanged", () => {
+    const result = { boards }
+    expect(limitResponse(result, 100000, OWNER)).toBe(result)
+    expect(limitResponse(result, 0, OWNER)).toBe(result)
+  })
+
+  it("keeps the leading items that fit and summarizes the rest", () => {
+    const slice = limitResponse({ boards }, 1000, OWNER) as Slice
+    const returned = (slice.boards as unknown[]).length
+
+    expect(size(slice)).toBeLessThanOrEqual(1000)
+    expect(slice.boards).toEqual(boards.slice(0, returned))
+    expect(slice.truncated?.omitted).toEqual([
+      { field: "boards", total: 30, returned, remaining: 30 - returned },
+    ])
+    expect(slice.truncated?.message).toContain("response_continue")
+  })
+
+  it("truncates the same result the same way every time", () => {
+    const first = limitResponse({ boards }, 1000, OWNER) as Slice
+    const second = limitResponse({ boards }, 1000, OWNER) as Slice
+    expect(second.boards).toEqual(first.boards)
+  })
+
+  it("does not truncate a result with a single item", () => {
+    const result = { boards: [{ id: "b1", content: "x".repeat(2000) }] }
+    expect(limitResponse(result, 1000, OWNER)).toBe(result)
+  })
+
+  it("pages through every array field with continuation tokens", () => {
+    const result = { boards, pages: boards.map((b) => ({ ...b, id: `p${b.id}` })), cursor: "c" }
+    const seen: Record<string, unknown[]> = { boards: [], pages: [] }
+
+    let slice = limitResponse(result, 1000, OWNER) as Slice
+    for (;;) {
+      expect(slice.cursor).toBe("c")
+      seen.boards.push(...(slice.boards as unknown[]))
+      seen.pages.push(...(slice.pages as unknown[]))
+      if (!slice.truncated) break
+      slice = continueResponse(slice.truncated.continuation_token, 1000, OWNER) as Slice
+    }
+
+    expect(seen).toEqual({ boards: result.boards, pages: result.pages })
+  })
+
+  it("returns all remaining items when the budget is disabled", () => {
+    const slice = limitResponse({ boards }, 1000, OWNER) as Slice
+    const rest = continueResponse(slice.truncated!.continuation_token, 0, OWNER) as Slice
+
+    expect([...(slice.boards as unknown[]), ...(rest.boards as unknown[])]).toEqual(boards)
+    expect(rest.truncated).toBeUndefined()
+  })
+
+  it("rejects malformed and expired tokens", () => {
+    vi.useFakeTimers()
+    const slice = limitResponse({ boards }, 1000, OWNER) as Slice
+
+    expect(() => continueResponse("not-a-token", 1000, OWNER)).toThrow(/invalid or has expired/)
+
+    vi.advanceTimersByTime(CONTINUATION_TTL_MS + 1)
+    expect(() => continueResponse(slice.truncated!.continuation_token, 1000, OWNER)).toThrow(
+      /invalid or has expired/
+    )
+  })
+})
+
+describe("createToolHandler output budget", () => {
+  const original = config.maxResponseChars
+  const extra = { authInfo: { token: "key", clientId: "test", scopes: [] } } as never
+
+  afterEach(() => {
+    config.maxResponseChars = original
+  })
+
+  it("truncates oversized results using the configured budget", async () => {
+    config.maxResponseChars = 1000
+    const handler = createToolHandler(async () => ({ boards }))
+    const result = JSON.parse((await handler({}, extra)).content[0].text) as Slice
+
+    expect(result.truncated?.omitted[0]).toMatchObject({ field: "boards", total: 30 })
+  })
+
+  it("appends a continuation notice to Markdown output", async () => {
+    config.maxResponseChars = 1000
+    const handler = createToolHandler(async () => ({ boards }), {
+      markdown: (result) => `${(result as { boards: unknown[] }).boards.length} boards`,
+    })
+    const { text } = (await handler({ format: "markdown" }, extra)).content[0]
+
+    expect(text).toMatch(/^\d+ boards\n\n_Response exceeded 1000 characters/)
+    expect(text).toContain("continuation_token: `")
+  })
+
+  it("lets only the session that got a truncated result continue it", async () => {
+    config.maxResponseChars = 1000
+    const session = (sessionId: string) =>
+      ({ sessionId, authInfo: { token: "key", clientId: "test", scopes: [] } }) as never
+    const handler = createToolHandler(async () => ({ boards }))
+    const result = JSON.parse((await handler({}, session("a"))).content[0].text) as Slice
+    const token = result.truncated!.continuation_token
+
+    expect(() => continueResponse(token, 1000, callerId(session("b")))).toThrow(
+      /invalid or has expired/
+    )
+    expect(continueResponse(token, 1000, callerId(session("a"))).boards).toBeDefined()
+  })
+})
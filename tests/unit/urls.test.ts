@@ -0,0 +1,87 @@
+/**
+ * @fileoverview Unit tests for Superthread link parsing.
+ */
+
+import { describe, it, expect } from "vitest"
+import { linkedIds, parseSuperthreadUrl } from "../../src/urls.js"
+import { ValidationError } from "../../src/errors.js"
+
+describe("parseSuperthreadUrl", () => {
+  it.each([
+    ["https://app.superthread.com/acme/card/123", "card", "123"],
+    ["https://app.superthread.com/acme/board/b1", "board", "b1"],
+    ["https://app.superthread.com/acme/page/p1", "page", "p1"],
+    ["https://app.superthread.com/acme/roadmap/project/e1", "project", "e1"],
+    ["https://app.superthread.com/acme/notes/n1", "note", "n1"],
+  ])("parses %s", (url, type, id) => {
+    expect(parseSuperthreadUrl(url)).toEqual({ workspaceId: "acme", type, id })
+  })
+
+  it("uses the innermost entity of nested paths", () => {
+    expect(parseSuperthreadUrl("https://app.superthread.com/acme/space/s1/board/b1")).toEqual({
+      workspaceId: "acme",
+      type: "board",
+      id: "b1",
+    })
+  })
+
+  it("parses a card opened over a board", () => {
+    expect(parseSuperthreadUrl("https://app.superthread.com/acme/board/b1?card=42")).toEqual({
+      workspaceId: "acme",
+      type: "card",
+      id: "42",
+    })
+  })
+
+  it("accepts links without a scheme", () => {
+    expect(parseSuperthreadUrl("app.superthread.com/acme/card/123").id).toBe("123")
+  })
+
+  it("rejects links to other sites", () => {
+    expect(() => parseSuperthreadUrl("https://example.com/acme/card/123")).toThrow(
+      "Not a Superthread link (unexpected host example.com)"
+    )
+  })
+
+  it("rejects links with malformed escapes", () => {
+    expect(() => parseSuperthreadUrl("https://app.superthread.com/acme/card/%E0%A4%A")).toThrow(
+      "Not a Superthread link (malformed URL)"
+    )
+  })
+
+  it("rejects links without an entity", () => {
+    expect(() => parseSuperthreadUrl("https://app.superthread.com/acme/inbox")).toThrow(
+      ValidationError
+    )
+  })
+})
+
+describe("linkedIds", () => {
+  it("takes the IDs from the link", () => {
+    expect(
+      linkedIds({ url: "https://app.superthread.com/acme/card/123" }, "card", "card_id")
+    ).toEqual({ workspace_id: "acme", card_id: "123" })
+  })
+
+  it("prefers explicit IDs over the link", () => {
+    expect(
+      linkedIds(
+        { url: "https://app.superthread.com/acme/card/123", card_id: "456" },
+        "card",
+        "card_id"
+      )
+    ).toEqual({ workspace_id: "acme", card_id: "456" })
+  })
+
+  it("rejects a link to another type of entity", () => {
+    expect(() =>
+      linkedIds({ url: "https://app.superthread.com/acme/page/p1" }, "card", "card_id")
+    ).toThrow("Expected a link to a card, got a link to a page")
+  })
+
+  it("requires a link or both IDs", () => {
+    expect(() => linkedIds({ workspace_id: "acme" }, "card", "card_id")).toThrow(
+      "Either url or workspace_id and card_id must be provided"
+    )
+  })
+})
@@ -0,0 +1,60 @@
+/**
+ * @fileoverview Unit tests for workspace alias parsing and workspace ID resolution.
+ */
+
+import { describe, it, expect, afterEach } from "vitest"
+import { parseKeyValuePairs } from "../../src/utils.js"
+import { resolveWorkspaceId } from "../../src/workspaces.js"
+import { config } from "../../src/config.js"
+
+describe("parseKeyValuePairs", () => {
+  it("parses alias=id pairs", () => {
+    expect(parseKeyValuePairs("eng=abc123, ops = def456", ",")).toEqual({
+      eng: "abc123",
+      ops: "def456",
+    })
+  })
+
+  it("transforms keys", () => {
+    expect(parseKeyValuePairs("Eng=abc123", ",", (s) => s.toLowerCase())).toEqual({
+      eng: "abc123",
+    })
+  })
+
+  it("skips entries without a key or value", () => {
+    expect(parseKeyValuePairs("eng,=abc123,ops=,qa=q1", ",")).toEqual({ qa: "q1" })
+  })
+
+  it("returns an empty map for undefined", () => {
+    expect(parseKeyValuePairs(undefined, ",")).toEqual({})
+  })
+})
+
+describe("resolveWorkspaceId", () => {
+  const original = { ...config }
+
+  afterEach(() => {
+    Object.assign(config, original)
+  })
+
+  it("maps aliases case-insensitively and passes IDs through", () => {
+    config.workspaceAliases = { eng: "abc123" }
+
+    expect(resolveWorkspaceId("ENG")).toBe("abc123")
+    expect(resolveWorkspaceId("def456")).toBe("def456")
+  })
+
+  it("falls back to the default workspace, which may be an alias", () => {
+    config.workspaceAliases = { eng: "abc123" }
+    config.defaultWorkspace = "eng"
+
+    expect(resolveWorkspaceId()).toBe("abc123")
+    expect(resolveWorkspaceId("  ")).toBe("abc123")
+  })
+
+  it("throws without a workspace or default", () => {
+    config.defaultWorkspace = ""
+
+    expect(() => resolveWorkspaceId()).toThrow("workspace_id is required")
+  })
+})